@@ -0,0 +1,27 @@
+/** @noSelfInFile */
+
+// Explicit conversions to integer types, for use with StrictNumericTypes.
+// Implemented in numeric.lua, which typescript-to-lua includes in the output when this module is imported:
+// import { floor, toUint } from "typed-factorio/common/numeric"
+
+import type { BrandedInteger, BrandedUnsignedInteger } from "factorio:common"
+
+/** Rounds a number down to an integer, like `math.floor`. */
+export function floor(x: number): BrandedInteger
+/** Rounds a number up to an integer, like `math.ceil`. */
+export function ceil(x: number): BrandedInteger
+/** Rounds a number to the nearest integer. Halves are rounded up. */
+export function round(x: number): BrandedInteger
+
+/**
+ * Returns a number as an integer type.
+ *
+ * Raises an error if the number is not an integer.
+ */
+export function toInt(x: number): BrandedInteger
+/**
+ * Returns a number as an unsigned integer type.
+ *
+ * Raises an error if the number is not a non-negative integer.
+ */
+export function toUint(x: number): BrandedUnsignedInteger
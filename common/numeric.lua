@@ -0,0 +1,35 @@
+-- Implementation of numeric.d.ts; see there for documentation.
+
+local M = {}
+
+local floor = math.floor
+local ceil = math.ceil
+
+function M.floor(x)
+  return floor(x)
+end
+
+function M.ceil(x)
+  return ceil(x)
+end
+
+function M.round(x)
+  return floor(x + 0.5)
+end
+
+function M.toInt(x)
+  -- also false for nan and infinities
+  if x % 1 ~= 0 then
+    error("expected an integer, got " .. tostring(x), 2)
+  end
+  return x
+end
+
+function M.toUint(x)
+  if x % 1 ~= 0 or x < 0 then
+    error("expected a non-negative integer, got " .. tostring(x), 2)
+  end
+  return x
+end
+
+return M
@@ -1,8 +1,8 @@
 /** @noResolution */
 declare module "factorio:common" {
-  import { ModSetting } from "factorio:runtime"
+  import { ModSetting, Tags } from "factorio:runtime"
   import { Data } from "factorio:prototype"
-  import { SettingsPrototypeMap } from "factorio:settings"
+  import { SettingScope, SettingsPrototypeMap } from "factorio:settings"
   /**
    * A type map of type name -> prototype type.
    *
@@ -36,11 +36,72 @@ declare module "factorio:common" {
   }
 
   export interface SettingsGlobal {
-    readonly startup: {
-      readonly [name: string]: ModSetting
-    }
+    readonly startup: ModSettingsTable<
+      "startup",
+      {
+        readonly [name: string]: ModSetting
+      }
+    >
   }
 
+  /**
+   * You can optionally extend this interface to provide type checking for mod settings: a map of setting name -> value
+   * type. This can be declared manually:
+   * ```ts
+   * declare module "factorio:common" {
+   *    export interface ModSettingsMap {
+   *        "my-bool-setting": boolean
+   *        "my-int-setting": number
+   *    }
+   * }
+   * ```
+   * Or inferred from your setting definitions, using {@link import("factorio:settings").SettingsMapOf SettingsMapOf}:
+   * ```ts
+   * const mySettings = [
+   *   { type: "bool-setting", name: "my-bool-setting", setting_type: "startup", default_value: true },
+   * ] as const
+   * data.extend(mySettings)
+   *
+   * declare module "factorio:common" {
+   *    export interface ModSettingsMap extends SettingsMapOf<typeof mySettings> {}
+   * }
+   * ```
+   *
+   * This enables type checking for `settings.startup`, `settings.global`, `settings.player`, and
+   * `settings.get_player_settings()`: setting values are typed per setting, and unknown setting names are errors.
+   *
+   * To also check that settings are read from the table matching their `setting_type`, use
+   * {@link ScopedModSettingsMap} instead.
+   */
+  export interface ModSettingsMap {}
+
+  /**
+   * Like {@link ModSettingsMap}, but split by `setting_type`, so that e.g. reading a per-user setting from
+   * `settings.global` is an error. Inferred from setting definitions using
+   * {@link import("factorio:settings").SettingsMap SettingsMap}:
+   * ```ts
+   * declare module "factorio:common" {
+   *    export interface ScopedModSettingsMap extends SettingsMap<typeof mySettings> {}
+   * }
+   * ```
+   */
+  export interface ScopedModSettingsMap {}
+
+  /**
+   * A table of mod settings with the given `setting_type`, typed by {@link ModSettingsMap} and
+   * {@link ScopedModSettingsMap}, or `Untyped` if neither are specified.
+   */
+  export type ModSettingsTable<Scope extends SettingScope, Untyped> = [
+    keyof ModSettingsMap | keyof ScopedModSettingsMap,
+  ] extends [never]
+    ? Untyped
+    : {
+        readonly [N in keyof ScopedModSettings<Scope>]: ModSetting<ScopedModSettings<Scope>[N]>
+      }
+
+  type ScopedModSettings<Scope extends SettingScope> = ModSettingsMap &
+    (Scope extends keyof ScopedModSettingsMap ? ScopedModSettingsMap[Scope] : unknown)
+
   /** A version string, in the form "major.minor.patch". */
   export type VersionString = `${bigint}.${bigint}.${bigint}`
 
@@ -101,4 +162,426 @@ declare module "factorio:common" {
    * If none are specified, this is just `string`.
    */
   export type CustomInputName = [keyof CustomInputNames] extends [never] ? string : keyof CustomInputNames
+
+  /**
+   * You can optionally extend this interface to provide type checking and autocompletion for prototype names, like so:
+   * ```ts
+   * declare module "factorio:common" {
+   *    export interface PrototypeNames {
+   *        ItemPrototype: "iron-plate" | "copper-plate" | "my-item"
+   *        RecipePrototype: "my-recipe"
+   *    }
+   * }
+   *
+   * // this enables type checking for the following:
+   * const recipe: RecipePrototype = {
+   *   type: "recipe",
+   *   name: "my-recipe",
+   *   ingredients: [["iron-plate", 1]], // type checked
+   *   result: "my-item", // type checked
+   * }
+   * game.item_prototypes["my-item"] // type checked
+   * ```
+   *
+   * Keys are the prototypes named by `*ID` types, e.g. `ItemPrototype` for `ItemID` (which includes all item
+   * subtypes), `EntityPrototype` for `EntityID`, or `AmmoCategory` for `AmmoCategoryID`.
+   * @see PrototypeName
+   */
+  export interface PrototypeNames {}
+
+  /**
+   * Names of the given prototype, as registered in {@link PrototypeNames}.
+   *
+   * If none are registered for that prototype, this is just `string`.
+   */
+  export type PrototypeName<Prototype extends string> = Prototype extends keyof PrototypeNames
+    ? PrototypeNames[Prototype]
+    : string
+
+  /**
+   * You can optionally extend this interface to provide type checking and autocompletion for custom command names,
+   * like so:
+   * ```ts
+   * declare module "factorio:common" {
+   *    export interface CustomCommandNames {
+   *        "my-command": true
+   *        // the value may also be the parsed parameters of the command, see CustomCommandParameters
+   *        "give-items": [item: string, count: number]
+   *    }
+   * }
+   *
+   * // this enables type checking for the following:
+   * commands.add_command("my-command", "help", (data) => {...})
+   * commands.remove_command("my-command")
+   * commands.commands["my-command"]
+   * ```
+   * @see CustomCommandName
+   */
+  export interface CustomCommandNames {}
+
+  /**
+   * All custom command names. See {@link CustomCommandNames}.
+   *
+   * If none are specified, this is just `string`.
+   */
+  export type CustomCommandName = [keyof CustomCommandNames] extends [never]
+    ? string
+    : keyof CustomCommandNames & string
+
+  /**
+   * The parsed parameters of a command, if specified as a tuple in {@link CustomCommandNames}, else `string[]`.
+   */
+  export type CustomCommandParameters<N extends string> = N extends keyof CustomCommandNames
+    ? CustomCommandNames[N] extends readonly unknown[]
+      ? CustomCommandNames[N]
+      : string[]
+    : string[]
+
+  /**
+   * The type of a function that parses the `parameter` of a custom command (see {@link CustomCommandParameters}).
+   *
+   * Returns `nil` if the parameter is invalid.
+   */
+  export type CustomCommandParameterParser<N extends string> = (
+    this: void,
+    parameter: string | undefined,
+  ) => CustomCommandParameters<N> | undefined
+
+  /**
+   * You can optionally extend this interface to provide type checking for remote interfaces, like so:
+   * ```ts
+   * interface MyModInterface {
+   *   // remote functions are called without a self parameter
+   *   get_data(this: void, id: number): string
+   * }
+   * declare module "factorio:common" {
+   *   export interface RemoteInterfaces {
+   *     "my-mod": MyModInterface
+   *   }
+   * }
+   *
+   * // this enables type checking for the following:
+   * remote.add_interface("my-mod", { get_data: (id) => tostring(id) })
+   * const data = remote.call("my-mod", "get_data", 1) // string
+   * remote.interfaces["my-mod"].get_data
+   * ```
+   *
+   * Interfaces not specified here can still be used without type checking.
+   */
+  export interface RemoteInterfaces {}
+
+  /**
+   * All remote interface names declared in {@link RemoteInterfaces}.
+   */
+  export type RemoteInterfaceName = keyof RemoteInterfaces & string
+
+  /**
+   * `I` if it is not declared in {@link RemoteInterfaces}, else `never`. Used for untyped remote interface overloads.
+   */
+  export type UndeclaredRemoteInterfaceName<I extends string> = I extends RemoteInterfaceName ? never : I
+
+  /**
+   * All function names of a remote interface declared in {@link RemoteInterfaces}.
+   */
+  export type RemoteFunctionName<I extends RemoteInterfaceName> = keyof RemoteInterfaces[I] & string
+
+  /**
+   * The parameters of a remote function declared in {@link RemoteInterfaces}.
+   */
+  export type RemoteFunctionParameters<
+    I extends RemoteInterfaceName,
+    F extends RemoteFunctionName<I>,
+  > = RemoteInterfaces[I][F] extends (...args: infer P) => any ? P : never
+
+  /**
+   * The return type of a remote function declared in {@link RemoteInterfaces}.
+   */
+  export type RemoteFunctionReturnType<
+    I extends RemoteInterfaceName,
+    F extends RemoteFunctionName<I>,
+  > = RemoteInterfaces[I][F] extends (...args: any) => infer R ? R : never
+
+  /**
+   * The type of `remote.interfaces`: remote interface names to function names.
+   */
+  export type RemoteInterfacesMap = {
+    readonly [I in RemoteInterfaceName]: Readonly<Record<RemoteFunctionName<I>, true>>
+  } & Record<string, Record<string, true>>
+
+  /**
+   * You can optionally extend this interface to provide type checking for the `tags` of gui elements, keyed by element
+   * name, like so:
+   * ```ts
+   * declare module "factorio:common" {
+   *   export interface GuiElementTagsMap {
+   *     "my-button": { action: "close" | "open" }
+   *   }
+   * }
+   *
+   * // this enables type checking for the following:
+   * player.gui.screen.add({ type: "button", name: "my-button", tags: { action: "close" } })
+   * script.on_event(defines.events.on_gui_click, (event) => {
+   *   const action = event.element.tags.action // "close" | "open"
+   * })
+   * ```
+   *
+   * Gui elements with a name not declared here have untyped {@link Tags}. Gui elements with an unknown name (such as
+   * `event.element`) have all tags declared here as optional properties, in addition to untyped tags.
+   */
+  export interface GuiElementTagsMap {}
+
+  type TagValue<T, K extends PropertyKey> = T extends { readonly [P in K]?: infer V } ? V : never
+  type AllGuiElementTags = {
+    readonly [K in GuiElementTagsMap[keyof GuiElementTagsMap] extends infer T
+      ? T extends unknown
+        ? keyof T
+        : never
+      : never]?: TagValue<GuiElementTagsMap[keyof GuiElementTagsMap], K>
+  }
+
+  /**
+   * The tags of a gui element with the given name. See {@link GuiElementTagsMap}.
+   *
+   * If none are specified, or the name is not in the map, this is just {@link Tags}.
+   */
+  export type GuiElementTags<Name extends string = string> = [keyof GuiElementTagsMap] extends [never]
+    ? Tags
+    : Name extends keyof GuiElementTagsMap
+      ? GuiElementTagsMap[Name]
+      : string extends Name
+        ? AllGuiElementTags & Tags
+        : Tags
+
+  /**
+   * You can optionally extend this interface to enable strict numeric types, like so:
+   * ```ts
+   * declare module "factorio:common" {
+   *   export interface StrictNumericTypes {
+   *     enabled: true
+   *   }
+   * }
+   * ```
+   *
+   * Integer types (`int`, `uint`, `uint8`, etc.) are then branded with {@link IntegerBrand}, and unsigned integer types
+   * also with {@link UnsignedIntegerBrand}. Only integer literals (of up to 4 digits), other integer types, and the
+   * conversion helpers in `typed-factorio/common/numeric` (such as `toUint(x)`) are assignable to them. Unsigned integer
+   * types are assignable to signed ones, but not the other way around.
+   *
+   * Floating point types (`float`, `double`) are always just `number`.
+   *
+   * If not specified, integer types are also just `number`.
+   */
+  export interface StrictNumericTypes {}
+
+  /**
+   * Marks a number as an integer, if {@link StrictNumericTypes} is enabled.
+   */
+  export interface IntegerBrand {
+    readonly _integerBrand: void
+  }
+
+  /**
+   * Marks a number as a non-negative integer, if {@link StrictNumericTypes} is enabled.
+   */
+  export interface UnsignedIntegerBrand extends IntegerBrand {
+    readonly _unsignedIntegerBrand: void
+  }
+
+  type Digit = "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9"
+  type UnsignedIntegerString =
+    | Digit
+    | `${Digit}${Digit}`
+    | `${Digit}${Digit}${Digit}`
+    | `${Digit}${Digit}${Digit}${Digit}`
+  // "007" is not a valid numeric literal, and infers just `number`
+  type ParseIntegerLiteral<S extends string> = S extends `${infer N extends number}`
+    ? number extends N
+      ? never
+      : N
+    : never
+
+  /** Non-negative integer literals of up to 4 digits. */
+  export type UnsignedIntegerLiteral = ParseIntegerLiteral<UnsignedIntegerString>
+  /** Integer literals of up to 4 digits. */
+  export type SignedIntegerLiteral = UnsignedIntegerLiteral | ParseIntegerLiteral<`-${UnsignedIntegerString}`>
+
+  /**
+   * An integer which is not a literal. This is `number & IntegerBrand` if {@link StrictNumericTypes} is enabled,
+   * otherwise `number`.
+   */
+  export type BrandedInteger = [keyof StrictNumericTypes] extends [never] ? number : number & IntegerBrand
+
+  /**
+   * A non-negative integer which is not a literal. This is `number & UnsignedIntegerBrand` if
+   * {@link StrictNumericTypes} is enabled, otherwise `number`.
+   */
+  export type BrandedUnsignedInteger = [keyof StrictNumericTypes] extends [never]
+    ? number
+    : number & UnsignedIntegerBrand
+
+  /**
+   * The type of unsigned integer types, such as `uint`. See {@link StrictNumericTypes}.
+   */
+  export type UnsignedInteger = [keyof StrictNumericTypes] extends [never]
+    ? number
+    : BrandedUnsignedInteger | UnsignedIntegerLiteral
+
+  /**
+   * The type of signed integer types, such as `int`. See {@link StrictNumericTypes}.
+   */
+  export type SignedInteger = [keyof StrictNumericTypes] extends [never]
+    ? number
+    : BrandedInteger | SignedIntegerLiteral
+
+  /**
+   * You can optionally extend this interface to enable strict energy types, like so:
+   * ```ts
+   * declare module "factorio:common" {
+   *   export interface StrictEnergyTypes {
+   *     enabled: true
+   *   }
+   * }
+   * ```
+   *
+   * Energy values in prototypes (`Energy`, `Power` and `EnergyAmount`) are then checked to be a number, an optional
+   * multiplier, and a unit. `Power` properties only allow watts (`"5MW"`), and `EnergyAmount` properties only joules
+   * (`"5MJ"`).
+   *
+   * The number part is only checked to be a TypeScript `${number}`, so values such as `"-5MW"`, `"1e3kW"` and `"5 kW"`
+   * are also allowed.
+   *
+   * If not specified, energy values are just `string`.
+   */
+  export interface StrictEnergyTypes {}
+
+  /** Multipliers allowed in energy values, from `k` (10^3) to `Y` (10^24). */
+  export type EnergyMultiplier = "" | "k" | "K" | "M" | "G" | "T" | "P" | "E" | "Z" | "Y"
+
+  /**
+   * An energy value in the given unit, such as `"5MW"`. See {@link StrictEnergyTypes}.
+   */
+  export type EnergyString<Unit extends "J" | "W"> = [keyof StrictEnergyTypes] extends [never]
+    ? string
+    : `${number}${EnergyMultiplier}${Unit}`
+
+  /**
+   * You can optionally extend this interface to declare the oldest factorio version your mod supports, like so:
+   * ```ts
+   * declare module "factorio:common" {
+   *    export interface TargetFactorioVersion {
+   *        "1.1.100": true
+   *    }
+   * }
+   * ```
+   *
+   * Api members added after the target version (marked with a `@since` tag) then have the type
+   * {@link NotInTargetFactorioVersion}, so using them is a type error.
+   *
+   * If none is specified, all api members are available.
+   */
+  export interface TargetFactorioVersion {}
+
+  /**
+   * The type of api members that were added after the {@link TargetFactorioVersion}.
+   */
+  export interface NotInTargetFactorioVersion<Since extends string> {
+    readonly _notInTargetFactorioVersion: Since
+  }
+
+  type ParseVersion<V extends string> =
+    V extends `${infer Major extends number}.${infer Minor extends number}.${infer Patch extends number}`
+      ? [Major, Minor, Patch]
+      : V extends `${infer Major extends number}.${infer Minor extends number}`
+        ? [Major, Minor, 0]
+        : never
+  type TupleOfLength<N extends number, T extends unknown[] = []> = T["length"] extends N
+    ? T
+    : TupleOfLength<N, [...T, unknown]>
+  type NumberAtLeast<A extends number, B extends number> =
+    TupleOfLength<A> extends [...TupleOfLength<B>, ...unknown[]] ? true : false
+  type VersionPartsAtLeast<A extends number[], B extends number[]> = A extends [
+    infer A1 extends number,
+    ...infer ARest extends number[],
+  ]
+    ? B extends [infer B1 extends number, ...infer BRest extends number[]]
+      ? A1 extends B1
+        ? VersionPartsAtLeast<ARest, BRest>
+        : NumberAtLeast<A1, B1>
+      : true
+    : true
+
+  /**
+   * `true` if version `A` is the same as or newer than version `B`, in the format "major.minor.patch" or "major.minor".
+   */
+  export type VersionAtLeast<A extends string, B extends string> = VersionPartsAtLeast<ParseVersion<A>, ParseVersion<B>>
+
+  /**
+   * `T` if the api added in version `Since` is available in the {@link TargetFactorioVersion}, else
+   * {@link NotInTargetFactorioVersion}.
+   */
+  export type SinceVersion<Since extends string, T> = [keyof TargetFactorioVersion] extends [never]
+    ? T
+    : VersionAtLeast<keyof TargetFactorioVersion & string, Since> extends true
+      ? T
+      : NotInTargetFactorioVersion<Since>
+
+  /**
+   * Like {@link SinceVersion}, but for method parameters. If not available, the method requires an argument of type
+   * {@link NotInTargetFactorioVersion}, so calling it is a type error.
+   */
+  export type SinceVersionParameters<Since extends string, P extends unknown[]> = [
+    keyof TargetFactorioVersion,
+  ] extends [never]
+    ? P
+    : VersionAtLeast<keyof TargetFactorioVersion & string, Since> extends true
+      ? P
+      : [notInTargetFactorioVersion: NotInTargetFactorioVersion<Since>]
+
+  /**
+   * You can optionally extend this interface to declare which game edition your mod targets, like so:
+   * ```ts
+   * declare module "factorio:common" {
+   *    export interface TargetGameEdition {
+   *        base: true
+   *        // space_age: true
+   *    }
+   * }
+   * ```
+   * Keys are the expansions your mod may use; `base` means no expansions.
+   *
+   * Api members only visible with an expansion not listed (marked with a `@visibility` tag) then have the type
+   * {@link NotInTargetGameEdition}, so using them is a type error.
+   *
+   * If none is specified, all api members are available.
+   */
+  export interface TargetGameEdition {}
+
+  /**
+   * The type of api members that are not visible in the {@link TargetGameEdition}.
+   */
+  export interface NotInTargetGameEdition<Visibility extends string> {
+    readonly _notInTargetGameEdition: Visibility
+  }
+
+  /**
+   * `T` if the api visible with expansions `Visibility` is available in the {@link TargetGameEdition}, else
+   * {@link NotInTargetGameEdition}.
+   */
+  export type WithVisibility<Visibility extends string, T> = [keyof TargetGameEdition] extends [never]
+    ? T
+    : [Extract<Visibility, keyof TargetGameEdition>] extends [never]
+      ? NotInTargetGameEdition<Visibility>
+      : T
+
+  /**
+   * Like {@link WithVisibility}, but for method parameters. If not available, the method requires an argument of type
+   * {@link NotInTargetGameEdition}, so calling it is a type error.
+   */
+  export type WithVisibilityParameters<Visibility extends string, P extends unknown[]> = [
+    keyof TargetGameEdition,
+  ] extends [never]
+    ? P
+    : [Extract<Visibility, keyof TargetGameEdition>] extends [never]
+      ? [notInTargetGameEdition: NotInTargetGameEdition<Visibility>]
+      : P
 }
@@ -24,7 +24,7 @@ export interface PrototypeWithExamples {
 }
 
 export interface Prototype extends BasicMember, PrototypeWithExamples {
-  visibility: Expansions
+  visibility?: Expansions[]
   parent?: string
   abstract: boolean
   typename?: string
@@ -43,6 +43,7 @@ export interface PrototypeConcept extends BasicMember, PrototypeWithExamples {
 }
 
 export interface Property extends BasicMember, PrototypeWithExamples {
+  visibility?: Expansions[]
   alt_name: string
   override: boolean
   type: Type
@@ -4,6 +4,7 @@ import { ModuleType, OutputFile, OutputFileBuilder, OutputFileBuilderImpl } from
 import { checkManualDefinitions, processManualDefinitions } from "./manualDefinitions.js"
 import * as runtime from "./FactorioRuntimeApiJson.js"
 import * as prototype from "./FactorioPrototypeApiJson.js"
+import { ApiHistory } from "./history.js"
 
 export interface AnyApiJson {
   application: "factorio"
@@ -14,6 +15,10 @@ export interface AnyApiJson {
 
 export interface Options {
   readonly noLink: boolean
+  /** Print the members each index type was applied to. */
+  readonly indexTypesReport: boolean
+  /** Split large files into one file per class, concept group or prototype family. */
+  readonly sharded: boolean
 }
 
 export abstract class GenerationContext<A extends AnyApiJson = AnyApiJson> {
@@ -28,6 +33,7 @@ export abstract class GenerationContext<A extends AnyApiJson = AnyApiJson> {
     public readonly manualDefinitionsSource: ts.SourceFile,
     public readonly checker: ts.TypeChecker,
     public readonly options: Options,
+    public readonly history: ApiHistory,
   ) {}
 
   abstract get stageName(): string
@@ -42,11 +48,11 @@ export abstract class GenerationContext<A extends AnyApiJson = AnyApiJson> {
 
   addFile(fileName: string, moduleType: ModuleType, fn: () => void): void {
     if (this._currentFile) throw new Error("Nested addFile")
-    const builder = new OutputFileBuilderImpl(this.manualDefs, fileName, moduleType)
+    const builder = new OutputFileBuilderImpl(this.manualDefs, fileName, moduleType, this.options.sharded)
     this._currentFile = builder
     fn()
     this._currentFile = undefined
-    this.allFiles.push(builder.build())
+    this.allFiles.push(...builder.build())
   }
 
   abstract tryGetTypeOfReference(reference: string): runtime.Type | prototype.Type | undefined
@@ -78,12 +84,6 @@ export abstract class GenerationContext<A extends AnyApiJson = AnyApiJson> {
     this.hasWarnings = true
   }
 
-  warnIfHasVisibility(obj: { visibility?: string[] }): void {
-    if (obj.visibility && obj.visibility.length > 1) {
-      this.warning("Visibility not implemented yet")
-    }
-  }
-
   generate(): OutputFile[] {
     this.checkApiDocs()
     this.preprocessAll()
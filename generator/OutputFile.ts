@@ -7,12 +7,19 @@ export interface OutputFileBuilder {
   moduleType: ModuleType
 
   addImport(fromModule: string, importName: string): void
+  /**
+   * In sharded mode, statements added after this go into a separate file (`<fileName>/<shardName>.d.ts`), referenced by
+   * the main file. Does nothing otherwise.
+   */
+  setShard(shardName: string): void
   add(statement: ts.Statement): void
   addOutsideModule(statement: ts.Statement): void
 }
 
 export interface OutputFile {
   name: string
+  /** Paths of other generated files to reference, relative to this file. */
+  references?: readonly string[]
   statements: readonly ts.Statement[]
 }
 
@@ -22,15 +29,25 @@ export enum ModuleType {
   Global = "global",
 }
 
+/**
+ * Groups names by their first letter, for sharding files with many small declarations.
+ */
+export function getAlphabeticalShard(name: string): string {
+  return name[0].toUpperCase()
+}
+
 export class OutputFileBuilderImpl implements OutputFileBuilder {
   private statements: ts.Statement[] = []
   private endStatements: ts.Statement[] = []
   private imports = new Map<string, Set<string>>()
+  private shards = new Map<string, ts.Statement[]>()
+  private currentShard: ts.Statement[] | undefined
 
   constructor(
     private manualDefs: ManualDefinitions,
     public fileName: string,
     public moduleType: ModuleType,
+    private sharded: boolean,
   ) {}
 
   addImport(fromModule: ModuleType, importName: string): void {
@@ -43,21 +60,32 @@ export class OutputFileBuilderImpl implements OutputFileBuilder {
     imports.add(importName)
   }
 
+  setShard(shardName: string): void {
+    if (!this.sharded) return
+    let shard = this.shards.get(shardName)
+    if (!shard) {
+      shard = []
+      this.shards.set(shardName, shard)
+    }
+    this.currentShard = shard
+  }
+
   add(statement: ts.Statement): void {
+    const statements = this.currentShard ?? this.statements
     const name = OutputFileBuilderImpl.getName(statement)
     if (name) {
       const addBefore = this.manualDefs.addBefore.get(name)
       if (addBefore) {
-        this.statements.push(...addBefore)
+        statements.push(...addBefore)
         this.manualDefs.addBefore.delete(name)
       }
     }
-    this.statements.push(statement)
+    statements.push(statement)
 
     if (name) {
       const addAfter = this.manualDefs.addAfter.get(name)
       if (addAfter) {
-        this.statements.push(...addAfter)
+        statements.push(...addAfter)
         this.manualDefs.addAfter.delete(name)
       }
     }
@@ -81,12 +109,30 @@ export class OutputFileBuilderImpl implements OutputFileBuilder {
     return name
   }
 
-  build(): OutputFile {
+  build(): OutputFile[] {
     const addTo = this.manualDefs.addTo.get(this.fileName)
     if (addTo) {
       this.statements.push(...addTo)
       this.manualDefs.addTo.delete(this.fileName)
     }
+    const result: OutputFile[] = []
+    const references: string[] = []
+    for (const [shardName, statements] of [...this.shards].sort(([a], [b]) => a.localeCompare(b))) {
+      const name = `${this.fileName}/${shardName}`
+      result.push({ name, statements: this.buildStatements(statements) })
+      references.push(`./${name}.d.ts`)
+    }
+    const mainStatements =
+      this.shards.size > 0 && this.statements.length === 0 ? [] : this.buildStatements(this.statements)
+    result.push({
+      name: this.fileName,
+      references,
+      statements: [...mainStatements, ...this.endStatements],
+    })
+    return result
+  }
+
+  private buildStatements(statements: ts.Statement[]): ts.Statement[] {
     const result: ts.Statement[] = []
     result.push(createComment("* @noSelfInFile ", true))
 
@@ -99,15 +145,10 @@ export class OutputFileBuilderImpl implements OutputFileBuilder {
 
     const module =
       this.moduleType === ModuleType.Global
-        ? createDeclareGlobal(this.statements)
-        : createDeclareModule("factorio:" + this.moduleType, this.statements)
+        ? createDeclareGlobal(statements)
+        : createDeclareModule("factorio:" + this.moduleType, statements)
     result.push(module)
 
-    result.push(...this.endStatements)
-
-    return {
-      name: this.fileName,
-      statements: result,
-    }
+    return result
   }
 }
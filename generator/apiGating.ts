@@ -0,0 +1,142 @@
+import ts from "typescript"
+import { GenerationContext } from "./GenerationContext.js"
+import { Types } from "./genUtil.js"
+
+// Members added after the oldest known api version, or only visible with some expansions, are wrapped in gate types
+// from factorio:common (SinceVersion, WithVisibility). These make the member unusable if the user declares an older
+// TargetFactorioVersion, or a TargetGameEdition without the expansion.
+// Prototypes are gated by their type name literals, so they can't be declared at all.
+
+interface Gate {
+  typeName: string
+  parametersTypeName: string
+  argument: ts.TypeNode
+}
+
+function getGates(context: GenerationContext, path: string, visibility: readonly string[] | undefined): Gate[] {
+  const gates: Gate[] = []
+  const since = context.history.getSinceVersion(path)
+  if (since) {
+    gates.push({
+      typeName: "SinceVersion",
+      parametersTypeName: "SinceVersionParameters",
+      argument: Types.stringLiteral(since),
+    })
+  }
+  if (visibility?.length) {
+    gates.push({
+      typeName: "WithVisibility",
+      parametersTypeName: "WithVisibilityParameters",
+      argument: ts.factory.createUnionTypeNode(visibility.map(Types.stringLiteral)),
+    })
+  }
+  return gates
+}
+
+export function gateType(
+  context: GenerationContext,
+  path: string,
+  visibility: readonly string[] | undefined,
+  type: ts.TypeNode,
+): ts.TypeNode {
+  for (const gate of getGates(context, path, visibility)) {
+    context.currentFile.addImport("common", gate.typeName)
+    type = ts.factory.createTypeReferenceNode(gate.typeName, [gate.argument, type])
+  }
+  return type
+}
+
+/**
+ * Replaces the parameters with a single rest parameter of type e.g. `SinceVersionParameters<since, [...parameters]>`.
+ */
+export function gateParameters(
+  context: GenerationContext,
+  path: string,
+  visibility: readonly string[] | undefined,
+  parameters: readonly ts.ParameterDeclaration[],
+): readonly ts.ParameterDeclaration[] {
+  const gates = getGates(context, path, visibility)
+  if (gates.length === 0) return parameters
+  let type: ts.TypeNode = ts.factory.createTupleTypeNode(
+    parameters.map((p) =>
+      ts.factory.createNamedTupleMember(
+        p.dotDotDotToken,
+        ts.factory.createIdentifier((p.name as ts.Identifier).text),
+        p.questionToken,
+        p.type ?? Types.unknown,
+      ),
+    ),
+  )
+  for (const gate of gates) {
+    context.currentFile.addImport("common", gate.parametersTypeName)
+    type = ts.factory.createTypeReferenceNode(gate.parametersTypeName, [gate.argument, type])
+  }
+  return [
+    ts.factory.createParameterDeclaration(
+      undefined,
+      ts.factory.createToken(ts.SyntaxKind.DotDotDotToken),
+      "args",
+      undefined,
+      type,
+    ),
+  ]
+}
+
+export function gateMember<T extends ts.TypeElement>(
+  context: GenerationContext,
+  path: string,
+  visibility: readonly string[] | undefined,
+  member: T,
+): T
+export function gateMember(
+  context: GenerationContext,
+  path: string,
+  visibility: readonly string[] | undefined,
+  member: ts.TypeElement,
+): ts.TypeElement {
+  if (getGates(context, path, visibility).length === 0) return member
+  if (ts.isPropertySignature(member)) {
+    return ts.factory.updatePropertySignature(
+      member,
+      member.modifiers,
+      member.name,
+      member.questionToken,
+      member.type && gateType(context, path, visibility, member.type),
+    )
+  }
+  if (ts.isGetAccessorDeclaration(member)) {
+    return ts.factory.updateGetAccessorDeclaration(
+      member,
+      member.modifiers,
+      member.name,
+      member.parameters,
+      member.type && gateType(context, path, visibility, member.type),
+      member.body,
+    )
+  }
+  if (ts.isSetAccessorDeclaration(member)) {
+    const [value] = member.parameters
+    const gatedValue = ts.factory.updateParameterDeclaration(
+      value,
+      value.modifiers,
+      value.dotDotDotToken,
+      value.name,
+      value.questionToken,
+      value.type && gateType(context, path, visibility, value.type),
+      value.initializer,
+    )
+    return ts.factory.updateSetAccessorDeclaration(member, member.modifiers, member.name, [gatedValue], member.body)
+  }
+  if (ts.isMethodSignature(member)) {
+    return ts.factory.updateMethodSignature(
+      member,
+      member.modifiers,
+      member.name,
+      member.questionToken,
+      member.typeParameters,
+      ts.factory.createNodeArray(gateParameters(context, path, visibility, member.parameters)),
+      member.type,
+    )
+  }
+  return member
+}
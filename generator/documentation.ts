@@ -15,6 +15,7 @@ export interface Documentable extends PrototypeWithExamples {
   instance_limit?: number
   default?: string | LiteralType
   deprecated?: boolean
+  visibility?: string[]
 }
 const pageLinks = new Set([
   "global",
@@ -82,25 +83,49 @@ export function processDescription(
   context: GenerationContext,
   description: string | undefined,
   normalizeNewlines = true,
+): string | undefined {
+  return replaceLinks(description, normalizeNewlines, (name, origLink) => {
+    if (name === "string" || name === "number" || name === "boolean") {
+      return `\`${name}\``
+    }
+    let link = mapLink(context, origLink)
+    if (!link) link = origLink
+    const isWebLink = link.startsWith("http")
+    const tag = isWebLink ? "linkplain" : "link"
+    if (link === name) {
+      return `{@${tag} ${link}}`
+    } else {
+      return `{@${tag} ${link} ${name}}`
+    }
+  })
+}
+
+/**
+ * Like {@link processDescription}, but keeps the description as markdown, for output other than declarations (e.g.
+ * JSON schemas): web links stay markdown links, and api references become their plain names.
+ */
+export function processMarkdownDescription(
+  context: GenerationContext,
+  description: string | undefined,
+): string | undefined {
+  return replaceLinks(description, false, (name, origLink) => {
+    const link = mapLink(context, origLink)
+    return link?.startsWith("http") ? `[${name}](${link})` : name
+  })
+}
+
+function replaceLinks(
+  description: string | undefined,
+  normalizeNewlines: boolean,
+  mapLinkText: (name: string, origLink: string) => string,
 ): string | undefined {
   if (!description) return undefined
   let result = ""
 
   for (const [, text, codeBlock] of description.matchAll(/((?:(?!```).)*)(?:$|```((?:(?!```).)*)```)/gs)) {
-    let withLinks = text.replace(/\[(?!\[)(.+?)]\((.+?)\)/g, (_, name: string, origLink: string) => {
-      if (name === "string" || name === "number" || name === "boolean") {
-        return `\`${name}\``
-      }
-      let link = mapLink(context, origLink)
-      if (!link) link = origLink
-      const isWebLink = link.startsWith("http")
-      const tag = isWebLink ? "linkplain" : "link"
-      if (link === name) {
-        return `{@${tag} ${link}}`
-      } else {
-        return `{@${tag} ${link} ${name}}`
-      }
-    })
+    let withLinks = text.replace(/\[(?!\[)(.+?)]\((.+?)\)/g, (_, name: string, origLink: string) =>
+      mapLinkText(name, origLink),
+    )
     // .replace("__1__\n   ", "__1__") // fix for LocalisedString description
     if (normalizeNewlines) {
       withLinks = withLinks.replace(/\n(?!([\n-]))/g, "\n\n")
@@ -182,6 +207,14 @@ export function createTag(tag: string, comment?: string): ts.JSDocUnknownTag {
   return ts.factory.createJSDocUnknownTag(ts.factory.createIdentifier(tag), comment)
 }
 
+/**
+ * Gets a `@since` tag if the given member was added after the oldest known api version.
+ */
+export function getSinceTags(context: GenerationContext, path: string): ts.JSDocTag[] {
+  const since = context.history.getSinceVersion(path)
+  return since ? [createTag("since", since)] : []
+}
+
 export function addJsDoc<T extends ts.Node>(
   context: GenerationContext,
   node: T,
@@ -212,7 +245,14 @@ export function addJsDoc<T extends ts.Node>(
   const tags = additions.tags ?? []
 
   if (element.deprecated) {
-    tags.push(createTag("deprecated"))
+    const deprecatedSince = onlineReferenceName && context.history.getDeprecatedSinceVersion(onlineReferenceName)
+    tags.push(createTag("deprecated", deprecatedSince ? `Since ${deprecatedSince}` : undefined))
+  }
+  if (onlineReferenceName) {
+    tags.push(...getSinceTags(context, onlineReferenceName))
+  }
+  if (element.visibility?.length) {
+    tags.push(createTag("visibility", element.visibility.join(", ")))
   }
   if (element.examples) {
     tags.push(...element.examples.map((e) => createTag("example", processExample(context, e))))
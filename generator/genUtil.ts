@@ -14,6 +14,7 @@ export const Modifiers = {
   declare: ts.factory.createModifier(ts.SyntaxKind.DeclareKeyword),
   readonly: ts.factory.createModifier(ts.SyntaxKind.ReadonlyKeyword),
   export: ts.factory.createModifier(ts.SyntaxKind.ExportKeyword),
+  const: ts.factory.createModifier(ts.SyntaxKind.ConstKeyword),
 }
 
 export const Types = {
@@ -21,6 +22,7 @@ export const Types = {
   undefined: ts.factory.createKeywordTypeNode(ts.SyntaxKind.UndefinedKeyword),
   nil: ts.factory.createTypeReferenceNode("nil"),
   unknown: ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword),
+  any: ts.factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword),
   object: ts.factory.createKeywordTypeNode(ts.SyntaxKind.ObjectKeyword),
   number: ts.factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword),
   symbol: ts.factory.createKeywordTypeNode(ts.SyntaxKind.SymbolKeyword),
@@ -0,0 +1,90 @@
+import { FactorioRuntimeApiJson } from "./FactorioRuntimeApiJson.js"
+import { FactorioPrototypeApiJson } from "./FactorioPrototypeApiJson.js"
+import { compareVersions } from "./util.js"
+
+type AnyStageApiJson = FactorioRuntimeApiJson | FactorioPrototypeApiJson
+
+interface Snapshot {
+  version: string
+  /** All documentation reference paths, e.g. `LuaEntity.health`, `on_tick`, `defines.events.on_tick`. */
+  paths: Set<string>
+  deprecatedPaths: Set<string>
+}
+
+/**
+ * Records which api members exist in which versions, given several api json snapshots of the same stage.
+ *
+ * Members are identified by the same paths used for online documentation references.
+ */
+export class ApiHistory {
+  private readonly snapshots: Snapshot[]
+
+  constructor(apiJsons: readonly AnyStageApiJson[]) {
+    this.snapshots = apiJsons
+      .map((json) => ({ version: json.application_version, ...collectPaths(json) }))
+      .sort((a, b) => compareVersions(a.version, b.version))
+  }
+
+  get versions(): string[] {
+    return this.snapshots.map((s) => s.version)
+  }
+
+  /**
+   * Gets the earliest version the given member exists in.
+   *
+   * Returns undefined if the member already exists in the oldest known version, as it may be older than that.
+   */
+  getSinceVersion(path: string): string | undefined {
+    const index = this.snapshots.findIndex((s) => s.paths.has(path))
+    if (index <= 0) return undefined
+    return this.snapshots[index].version
+  }
+
+  /**
+   * Gets the earliest version the given member is deprecated in, if it was not deprecated in the oldest known version.
+   */
+  getDeprecatedSinceVersion(path: string): string | undefined {
+    const index = this.snapshots.findIndex((s) => s.deprecatedPaths.has(path))
+    if (index <= 0 || !this.snapshots[index - 1].paths.has(path)) return undefined
+    return this.snapshots[index].version
+  }
+}
+
+function collectPaths(apiJson: AnyStageApiJson): Omit<Snapshot, "version"> {
+  const paths = new Set<string>()
+  const deprecatedPaths = new Set<string>()
+  function add(path: string, member: { name: string; deprecated?: boolean }) {
+    paths.add(path)
+    if (member.deprecated) deprecatedPaths.add(path)
+  }
+
+  if (apiJson.stage === "runtime") {
+    for (const clazz of apiJson.classes) {
+      add(clazz.name, clazz)
+      for (const member of [...clazz.attributes, ...clazz.methods]) {
+        add(clazz.name + "." + member.name, member)
+      }
+    }
+    for (const event of apiJson.events) add(event.name, event)
+    for (const concept of apiJson.concepts) add(concept.name, concept)
+    for (const globalObject of apiJson.global_objects) add(globalObject.name, globalObject)
+    for (const globalFunction of apiJson.global_functions) add(globalFunction.name, globalFunction)
+    const addDefines = (defines: FactorioRuntimeApiJson["defines"], parent: string) => {
+      for (const define of defines) {
+        const path = parent + "." + define.name
+        add(path, define)
+        for (const value of define.values ?? []) add(path + "." + value.name, value)
+        if (define.subkeys) addDefines(define.subkeys, path)
+      }
+    }
+    addDefines(apiJson.defines, "defines")
+  } else {
+    for (const prototype of [...apiJson.prototypes, ...apiJson.types]) {
+      add(prototype.name, prototype)
+      for (const property of prototype.properties ?? []) {
+        add(prototype.name + "." + property.name, property)
+      }
+    }
+  }
+  return { paths, deprecatedPaths }
+}
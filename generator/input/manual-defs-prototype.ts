@@ -1,15 +1,16 @@
-import { AnyPrototype, CustomInputName } from "factorio:common"
+import { AnyPrototype, CustomInputName, NotInTargetFactorioVersion, NotInTargetGameEdition } from "factorio:common"
 
 export type bool = boolean
 export type double = number
 export type float = number
-export type int8 = number
-export type int16 = number
-export type int32 = number
-export type uint8 = number
-export type uint16 = number
-export type uint32 = number
-export type uint64 = number
+// types.d.ts declares the factorio:prototype module, so it can't have top-level imports
+export type int8 = import("factorio:common").SignedInteger
+export type int16 = import("factorio:common").SignedInteger
+export type int32 = import("factorio:common").SignedInteger
+export type uint8 = import("factorio:common").UnsignedInteger
+export type uint16 = import("factorio:common").UnsignedInteger
+export type uint32 = import("factorio:common").UnsignedInteger
+export type uint64 = import("factorio:common").UnsignedInteger
 
 /** @omit */
 export type DataExtendMethod = unknown
@@ -30,13 +31,33 @@ export interface Data {
 /** @unionAdd */
 export type CollisionMaskLayer = `layer-${bigint}`
 
+/** @replace */
+export type Energy = import("factorio:common").EnergyString<"J" | "W">
+
+/** @addAfter Energy */
+/**
+ * An {@link Energy} in watts, for power (energy per time), e.g. `"5MW"`.
+ *
+ * If {@link import("factorio:common").StrictEnergyTypes StrictEnergyTypes} is enabled, only watts are allowed; otherwise this is just `string`.
+ */
+export type Power = import("factorio:common").EnergyString<"W">
+
+/** @addAfter Energy */
+/**
+ * An {@link Energy} in joules, for an amount of energy, e.g. `"5MJ"`.
+ *
+ * If {@link import("factorio:common").StrictEnergyTypes StrictEnergyTypes} is enabled, only joules are allowed; otherwise this is just `string`.
+ */
+export type EnergyAmount = import("factorio:common").EnergyString<"J">
+
 /** @replace */
 export type LocalisedString = string | number | boolean | undefined | readonly [string, ...LocalisedString[]]
 
 interface PrototypeMap {}
 
 interface PrototypeBase {
-  type: keyof PrototypeMap
+  // type names of prototypes not in the target version or game edition are gated, see getTypeNamesType
+  type: keyof PrototypeMap | NotInTargetFactorioVersion<string> | NotInTargetGameEdition<string>
 }
 
 interface FluidBox {}
@@ -56,3 +77,8 @@ interface CraftingMachinePrototype {
 interface CustomInputPrototype {
   name: CustomInputName
 }
+
+interface AmmoType {
+  // per shot, e.g. "8MJ"
+  energy_consumption?: EnergyAmount
+}
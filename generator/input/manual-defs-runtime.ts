@@ -3,7 +3,25 @@
 /// <reference path="../../settings/types.d.ts" />
 // noinspection JSUnusedGlobalSymbols
 
-import { ActiveMods, CustomInputName, VersionString } from "factorio:common"
+import {
+  ActiveMods,
+  BrandedUnsignedInteger,
+  CustomCommandName,
+  CustomCommandNames,
+  CustomInputName,
+  GuiElementTags,
+  ModSettingsTable,
+  RemoteFunctionName,
+  RemoteFunctionParameters,
+  RemoteFunctionReturnType,
+  RemoteInterfaceName,
+  RemoteInterfaces,
+  RemoteInterfacesMap,
+  SignedInteger,
+  UndeclaredRemoteInterfaceName,
+  UnsignedInteger,
+  VersionString,
+} from "factorio:common"
 import { PrototypeMap } from "factorio:prototype"
 import { SettingsPrototypeMap } from "factorio:settings"
 
@@ -14,12 +32,12 @@ export interface LuaObject {
 export type double = number
 export type float = number
 export type table = object
-export type int = number
-export type int8 = number
-export type uint = number
-export type uint8 = number
-export type uint16 = number
-export type uint64 = number
+export type int = SignedInteger
+export type int8 = SignedInteger
+export type uint = UnsignedInteger
+export type uint8 = UnsignedInteger
+export type uint16 = UnsignedInteger
+export type uint64 = UnsignedInteger
 export type nil = undefined
 
 declare namespace defines {
@@ -138,8 +156,9 @@ export interface LuaStyle {
 
 export interface GuiElementType {}
 
-export interface BaseGuiSpec {
+export interface BaseGuiSpec<T extends object = GuiElementTags> {
   readonly type: GuiElementType
+  readonly tags?: T
 }
 
 export interface FlowGuiSpec {
@@ -204,7 +223,7 @@ export interface ChooseElemButtonFilters {
 }
 
 /** @addBefore ChooseElemButtonGuiSpec */
-export interface BaseChooseElemButtonSpec extends BaseGuiSpec {
+export interface BaseChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
   readonly type: "choose-elem-button"
   /** The type of the button - one of the following values. */
   readonly elem_type: ChooseElemButtonType
@@ -213,108 +232,175 @@ export interface BaseChooseElemButtonSpec extends BaseGuiSpec {
 }
 
 /** @addBefore ChooseElemButtonGuiSpec */
-export interface ItemChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+export interface ItemChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
   readonly elem_type: "item"
   /** If type is `"item"` - the default value for the button. */
   readonly item?: string
 }
 
 /** @addBefore ChooseElemButtonGuiSpec */
-export interface TileChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+export interface TileChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
   readonly elem_type: "tile"
   /** If type is `"tile"` - the default value for the button. */
   readonly tile?: string
 }
 
 /** @addBefore ChooseElemButtonGuiSpec */
-export interface EntityChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+export interface EntityChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
   readonly elem_type: "entity"
   /** If type is `"entity"` - the default value for the button. */
   readonly entity?: string
 }
 
 /** @addBefore ChooseElemButtonGuiSpec */
-export interface SignalChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+export interface SignalChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
   readonly elem_type: "signal"
   /** If type is `"signal"` - the default value for the button. */
   readonly signal?: SignalID
 }
 
 /** @addBefore ChooseElemButtonGuiSpec */
-export interface FluidChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+export interface FluidChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
   readonly elem_type: "fluid"
   /** If type is `"fluid"` - the default value for the button. */
   readonly fluid?: string
 }
 
 /** @addBefore ChooseElemButtonGuiSpec */
-export interface RecipeChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+export interface RecipeChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
   readonly elem_type: "recipe"
   /** If type is `"recipe"` - the default value for the button. */
   readonly recipe?: string
 }
 
 /** @addBefore ChooseElemButtonGuiSpec */
-export interface DecorativeChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+export interface DecorativeChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
   readonly elem_type: "decorative"
   /** If type is `"decorative"` - the default value for the button. */
   readonly decorative?: string
 }
 
 /** @addBefore ChooseElemButtonGuiSpec */
-export interface ItemGroupChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+export interface ItemGroupChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
   readonly elem_type: "item-group"
   /** If type is `"item-group"` - the default value for the button. */
   readonly "item-group"?: string
 }
 
 /** @addBefore ChooseElemButtonGuiSpec */
-export interface AchievementChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+export interface AchievementChooseElemButtonSpec<T extends object = GuiElementTags>
+  extends BaseChooseElemButtonSpec<T> {
   readonly elem_type: "achievement"
   /** If type is `"achievement"` - the default value for the button. */
   readonly achievement?: string
 }
 
 /** @addBefore ChooseElemButtonGuiSpec */
-export interface EquipmentChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+export interface EquipmentChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
   readonly elem_type: "equipment"
   /** If type is `"equipment"` - the default value for the button. */
   readonly equipment?: string
 }
 
 /** @addBefore ChooseElemButtonGuiSpec */
-export interface TechnologyChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+export interface TechnologyChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
   readonly elem_type: "technology"
   /** If type is `"technology"` - the default value for the button. */
   readonly technology?: string
 }
 
-export type ChooseElemButtonGuiSpec =
-  | ItemChooseElemButtonSpec
-  | TileChooseElemButtonSpec
-  | EntityChooseElemButtonSpec
-  | SignalChooseElemButtonSpec
-  | FluidChooseElemButtonSpec
-  | RecipeChooseElemButtonSpec
-  | DecorativeChooseElemButtonSpec
-  | ItemGroupChooseElemButtonSpec
-  | AchievementChooseElemButtonSpec
-  | EquipmentChooseElemButtonSpec
-  | TechnologyChooseElemButtonSpec
+export type ChooseElemButtonGuiSpec<T extends object = GuiElementTags> =
+  | ItemChooseElemButtonSpec<T>
+  | TileChooseElemButtonSpec<T>
+  | EntityChooseElemButtonSpec<T>
+  | SignalChooseElemButtonSpec<T>
+  | FluidChooseElemButtonSpec<T>
+  | RecipeChooseElemButtonSpec<T>
+  | DecorativeChooseElemButtonSpec<T>
+  | ItemGroupChooseElemButtonSpec<T>
+  | AchievementChooseElemButtonSpec<T>
+  | EquipmentChooseElemButtonSpec<T>
+  | TechnologyChooseElemButtonSpec<T>
 
 // stub only
 export interface GuiSpec {
   type
 }
 
+/** @addAfter GuiSpec */
+/**
+ * A {@link GuiSpec} for a whole tree of gui elements, e.g. for a gui building library.
+ *
+ * In addition to the gui spec, each element may have:
+ * - `children`: child elements to add.
+ * - `style_mods`: modifications to the element's {@link LuaStyle style}.
+ * - `ref`: a name or path of names for the created element, which can then be found in {@link GuiRefs}.
+ */
+export type GuiTreeSpec = GuiSpec & {
+  readonly children?: readonly GuiTreeSpec[]
+  readonly style_mods?: GuiStyleMods
+  readonly ref?: string | readonly string[]
+}
+
+/** @addAfter GuiSpec */
+/**
+ * The elements created from a {@link GuiTreeSpec}, as a map of `ref` name -> gui element type.
+ * A ref path (e.g. `["titlebar", "close_button"]`) gives nested maps.
+ *
+ * Refs should be unique within a tree; elements with the same ref give a union of their element types.
+ *
+ * For ref names and element types to be inferred, the spec should be declared `as const`.
+ * @example
+ * const spec = {
+ *   type: "frame",
+ *   children: [
+ *     { type: "button", ref: "close_button" },
+ *     { type: "label", ref: ["titlebar", "caption"] },
+ *   ],
+ * } as const satisfies GuiTreeSpec
+ * type Refs = GuiRefs<typeof spec> // { close_button: ButtonGuiElement, titlebar: { caption: LabelGuiElement } }
+ */
+export type GuiRefs<Spec extends GuiTreeSpec> = GuiRefTree<GuiRefEntry<Spec>>
+
+/** @addAfter GuiSpec */
+/** A [ref path, gui element type] pair for each element with a `ref` in a {@link GuiTreeSpec}. */
+export type GuiRefEntry<Spec> =
+  | (Spec extends { readonly ref: infer R extends string | readonly string[]; readonly type: infer T }
+      ? [R extends string ? [R] : R, Extract<LuaGuiElement, { readonly type: T }>]
+      : never)
+  | (Spec extends { readonly children: readonly (infer C)[] } ? GuiRefEntry<C> : never)
+
+/** @addAfter GuiSpec */
+/** Nested maps of ref names to gui element types, from {@link GuiRefEntry} pairs. */
+export type GuiRefTree<Entry extends [readonly string[], unknown]> = {
+  [K in Entry[0][0]]: [GuiRefTreeChildren<Entry, K>] extends [never]
+    ? Entry extends [readonly [K], infer E]
+      ? E
+      : never
+    : GuiRefTree<GuiRefTreeChildren<Entry, K>>
+}
+
+/** @addAfter GuiSpec */
+/** The {@link GuiRefEntry} pairs under the ref name `K`, with `K` removed from their paths. */
+export type GuiRefTreeChildren<Entry, K> = Entry extends [
+  readonly [K, infer Next extends string, ...infer Rest extends string[]],
+  infer E,
+]
+  ? [[Next, ...Rest], E]
+  : never
+
 /** @discriminatedUnion type */
-export type LuaGuiElement = {
+export type LuaGuiElement<T extends object = GuiElementTags> = {
   readonly [name: string]: LuaGuiElement | nil
 } & {
   readonly type: GuiElementType
 
   /** @variantsName GuiSpec */
-  add<Type extends GuiElementType>(element: GuiSpec & { type: Type }): Extract<LuaGuiElement, { type: Type }>
+  add<Type extends GuiElementType, Name extends string = string>(
+    element: GuiSpec<GuiElementTags<Name>> & { type: Type; name?: Name },
+  ): Extract<LuaGuiElement<GuiElementTags<Name>>, { type: Type }>
+
+  tags: T
 
   readonly elem_type: ChooseElemButtonType
   // @ts-ignore
@@ -411,16 +497,85 @@ export interface LuaPlayer {
 
 export interface Any {}
 
+export interface LuaCommandProcessor {
+  add_command<N extends CustomCommandName>(
+    name: N,
+    help: LocalisedString,
+    _function: (data: CustomCommandData<N>) => void,
+  ): void
+
+  remove_command(name: CustomCommandName): boolean
+
+  // all script commands, including other mods' ones; registered names are suggested, but may be absent
+  readonly commands: [keyof CustomCommandNames] extends [never]
+    ? Record<string, LocalisedString>
+    : Partial<Record<CustomCommandName | (string & {}), LocalisedString>>
+}
+
+export interface CustomCommandData<N extends string = string> {
+  readonly name: N
+}
+
 export interface LuaRemote {
-  add_interface(name: string, functions: Record<string, (...args: any) => void>): void
+  add_interface<I extends RemoteInterfaceName>(name: I, functions: RemoteInterfaces[I]): void
 
-  call<T extends (...args: any) => any>(_interface: string, _function: string, ...args: Parameters<T>): ReturnType<T>
+  add_interface<I extends string>(
+    name: UndeclaredRemoteInterfaceName<I>,
+    functions: Record<string, (...args: any) => void>,
+  ): void
 
-  call(_interface: string, _function: string, ...args: readonly Any[]): Any | nil
+  call<I extends RemoteInterfaceName, F extends RemoteFunctionName<I>>(
+    _interface: I,
+    _function: F,
+    ...args: RemoteFunctionParameters<I, F>
+  ): RemoteFunctionReturnType<I, F>
+
+  call<T extends (...args: any) => any, I extends string = string>(
+    _interface: UndeclaredRemoteInterfaceName<I>,
+    _function: string,
+    ...args: Parameters<T>
+  ): ReturnType<T>
+
+  call<I extends string>(
+    _interface: UndeclaredRemoteInterfaceName<I>,
+    _function: string,
+    ...args: readonly Any[]
+  ): Any | nil
+
+  readonly interfaces: RemoteInterfacesMap
 }
 
 // events
 
+/** @addTo concepts */
+/**
+ * The type of the `global` table, which is persisted in the save file.
+ *
+ * Mods can extend this interface to declare their global table schema:
+ * ```ts
+ * declare module "factorio:runtime" {
+ *   export interface GlobalTable {
+ *     players: Record<PlayerIndex, PlayerData>
+ *   }
+ * }
+ * ```
+ * To declare the `global` variable with this type, add `"typed-factorio/runtime/global-table"` to your tsconfig types, or
+ * add `declare const global: GlobalTable` to a `.d.ts` file.
+ */
+export interface GlobalTable {}
+
+/** @addTo concepts */
+/**
+ * Migrations for the {@link GlobalTable}: a map of mod version -> a function that migrates the global table from an
+ * older version to that version.
+ *
+ * These can be run in {@link LuaBootstrap#on_configuration_changed LuaBootstrap::on_configuration_changed}, for each
+ * version newer than the `old_version` of this mod's {@link ModChangeData}.
+ */
+export type GlobalMigrations = {
+  readonly [version: VersionString]: (global: GlobalTable, data: ConfigurationChangedData) => void
+}
+
 /** @addTo concepts */
 export type RaiseableEvents =
   | typeof defines.events.on_console_chat
@@ -440,11 +595,38 @@ export interface EventData {
 
 export interface CustomInputEvent {}
 
-export interface ModChangeData {
-  readonly old_version: VersionString | nil
-  readonly new_version: VersionString | nil
+/** @addBefore ModChangeData */
+/** A {@link ModChangeData} for a mod that was just added. */
+export interface ModAddedChangeData {
+  /** `nil`, as the mod wasn't previously present. */
+  readonly old_version: nil
+  /** New version of the mod. */
+  readonly new_version: VersionString
+}
+
+/** @addBefore ModChangeData */
+/** A {@link ModChangeData} for a mod that was just removed. */
+export interface ModRemovedChangeData {
+  /** Old version of the mod. */
+  readonly old_version: VersionString
+  /** `nil`, as the mod is no longer present. */
+  readonly new_version: nil
+}
+
+/** @addBefore ModChangeData */
+/** A {@link ModChangeData} for a mod that was updated (or downgraded) to a different version. */
+export interface ModUpdatedChangeData {
+  /** Old version of the mod. */
+  readonly old_version: VersionString
+  /** New version of the mod. */
+  readonly new_version: VersionString
 }
 
+/**
+ * @replace
+ */
+export type ModChangeData = ModAddedChangeData | ModRemovedChangeData | ModUpdatedChangeData
+
 export interface ConfigurationChangedData {
   readonly old_version?: VersionString
   readonly new_version?: VersionString
@@ -452,7 +634,7 @@ export interface ConfigurationChangedData {
 
 /** @addTo concepts */
 /** An event id. */
-export type EventId<T extends object, F = unknown> = uint & {
+export type EventId<T extends object, F = unknown> = BrandedUnsignedInteger & {
   readonly _eventData: T
   readonly _filter: F
 }
@@ -495,6 +677,8 @@ export interface LuaBootstrap {
   readonly active_mods: ActiveMods
 
   get_prototype_history(type: keyof PrototypeMap, name: string)
+
+  on_configuration_changed(handler: ((data: ConfigurationChangedData) => void) | nil): void
 }
 
 export interface LuaSurface {}
@@ -513,17 +697,28 @@ export interface LuaGameScript {
   readonly active_mods: ActiveMods
 }
 
-export interface ModSetting {
+export interface ModSetting<T = int | double | boolean | string | Color | ColorArray> {
   /**
    * The value of the mod setting. The type depends on the kind of setting.
    */
-  readonly value: int | double | boolean | string | Color | ColorArray
+  readonly value: T
 }
 
 export interface LuaSettings {
-  readonly startup: {
-    readonly [name: string]: ModSetting
-  }
+  get_player_settings(
+    player: PlayerIdentification,
+  ): ModSettingsTable<"runtime-per-user", LuaCustomTable<string, ModSetting>>
+
+  readonly startup: ModSettingsTable<
+    "startup",
+    {
+      readonly [name: string]: ModSetting
+    }
+  >
+
+  readonly global: ModSettingsTable<"runtime-global", LuaCustomTable<string, ModSetting>>
+
+  readonly player: ModSettingsTable<"runtime-per-user", LuaCustomTable<string, ModSetting>>
 }
 
 //  -- Concepts --
@@ -8,36 +8,55 @@ import { AnyApiJson, GenerationContext, Options } from "./GenerationContext.js"
 import { PrototypeGenerationContext } from "./prototype"
 import { RuntimeGenerationContext } from "./runtime"
 import { printer } from "./genUtil.js"
+import { compareVersions } from "./util.js"
+import { ApiHistory } from "./history.js"
+import { FactorioRuntimeApiJson } from "./FactorioRuntimeApiJson.js"
+import { FactorioPrototypeApiJson } from "./FactorioPrototypeApiJson.js"
+import { DefinesDump } from "./runtime/defines.js"
+import { generateReference } from "./reference.js"
+import { generateJsonSchemas } from "./prototype/jsonSchema.js"
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 const srcDir = path.resolve(__dirname, "./input")
+const rootDir = path.resolve(__dirname, "..")
 
 const noFormat = process.argv.includes("--no-format")
 const noLink = process.argv.includes("--no-link")
+const indexTypesReport = process.argv.includes("--index-types-report")
+const sharded = process.argv.includes("--sharded")
+// also write a markdown reference of the generated declarations to <outDir>/reference
+const reference = process.argv.includes("--reference")
+// also write JSON schemas of all prototypes and types to <outDir>/json-schema
+const jsonSchema = process.argv.includes("--json-schema")
+// --versions=1.1.110,2.0.0 or --versions=all: generate side-by-side output trees in <outDir>/versions/<version>
+const versionsArg = process.argv.find((arg) => arg.startsWith("--versions="))?.substring("--versions=".length)
+// --out-dir=<dir>: write the output tree to <dir> instead of the repository root, e.g. a copy of the package
+const outDirArg = process.argv.find((arg) => arg.startsWith("--out-dir="))?.substring("--out-dir=".length)
 
 const srcFiles = await fs.readdir(srcDir)
-function getApiJsonFileName(stage: string) {
-  let version: string | undefined
-  let jsonFile: string | undefined
+function getApiJsonVersions(stage: string): string[] {
+  const versions: string[] = []
   for (const file of srcFiles) {
-    const match = file.match(new RegExp(`${stage}-api-([0-9-.]+)\\.json`))
-    if (!match) continue
-    const thisVersion = match[1]
-    // noinspection JSUnusedAssignment
-    if (version === undefined || thisVersion > version) {
-      version = thisVersion
-      jsonFile = match[0]
-    }
+    const match = file.match(new RegExp(`^${stage}-api-([0-9-.]+)\\.json$`))
+    if (match) versions.push(match[1])
   }
-  if (!jsonFile) {
+  return versions.sort(compareVersions)
+}
+
+function getLatestVersion(stage: string): string {
+  const versions = getApiJsonVersions(stage)
+  if (versions.length === 0) {
     throw new Error(`Could not find ${stage} api json file in ${srcDir}`)
   }
-  return jsonFile
+  return versions[versions.length - 1]
 }
 
-async function getApiJson<C extends AnyApiJson>(stage: string) {
-  const json = getApiJsonFileName(stage)
+async function getApiJson<C extends AnyApiJson>(stage: string, version: string) {
+  const json = `${stage}-api-${version}.json`
+  if (!srcFiles.includes(json)) {
+    throw new Error(`Could not find ${json} in ${srcDir}`)
+  }
 
   const apiJson = JSON.parse(await fs.readFile(path.join(srcDir, json), "utf-8")) as C
   const jsonVersion = apiJson.application_version
@@ -49,7 +68,21 @@ async function getApiJson<C extends AnyApiJson>(stage: string) {
   return apiJson
 }
 
-function getManualDefsFile(manualDefsFile: string) {
+/**
+ * Builds the history of all api json snapshots up to (and including) the given version, used for `@since` tags.
+ */
+async function getApiHistory(stage: string, version: string) {
+  const versions = getApiJsonVersions(stage).filter((v) => compareVersions(v, version) <= 0)
+  const apiJsons = versions.map((v) => getApiJson<FactorioRuntimeApiJson | FactorioPrototypeApiJson>(stage, v))
+  return new ApiHistory(await Promise.all(apiJsons))
+}
+
+/**
+ * Uses a version specific manual definitions file (e.g. `manual-defs-runtime-1.1.110.ts`) if one exists.
+ */
+function getManualDefsFile(stage: string, version: string) {
+  const versionedFile = `manual-defs-${stage}-${version}.ts`
+  const manualDefsFile = srcFiles.includes(versionedFile) ? versionedFile : `manual-defs-${stage}.ts`
   if (!srcFiles.some((x) => x === manualDefsFile)) {
     throw new Error(`Could not find ${manualDefsFile} in ${srcDir}`)
   }
@@ -66,21 +99,37 @@ function getManualDefsFile(manualDefsFile: string) {
   return { typeChecker, manualDefines }
 }
 
-function generateFiles(context: GenerationContext) {
+/**
+ * Reads the dumped `defines` table for a version (`defines-1.1.110.json`), if one exists.
+ */
+async function getDefinesDump(version: string): Promise<DefinesDump | undefined> {
+  const file = `defines-${version}.json`
+  if (!srcFiles.includes(file)) return undefined
+  console.log(`runtime: using ${file}`)
+  return JSON.parse(await fs.readFile(path.join(srcDir, file), "utf-8")) as DefinesDump
+}
+
+function generateFiles(context: GenerationContext, outDir: string) {
   const files = context.generate()
   const fileResults: Map<string, string> = new Map()
-  for (const { name, statements } of files) {
+  for (const { name, references, statements } of files) {
     let content = "// This is an auto-generated file. Do not edit directly!\n\n"
+    if (references?.length) {
+      content += references.map((ref) => `/// <reference path="${ref}" />\n`).join("") + "\n"
+    }
     for (const statement of statements) {
       content += printer.printNode(ts.EmitHint.Unspecified, statement, context.manualDefinitionsSource) + "\n\n"
     }
-    fileResults.set(`${context.stageName}/generated/${name}.d.ts`, content)
+    fileResults.set(path.join(outDir, context.stageName, "generated", `${name}.d.ts`), content)
   }
   return fileResults
 }
 
+/**
+ * Formats and writes files; returns the written contents.
+ */
 async function writeFiles(fileResults: Map<string, string>) {
-  const outDir = path.resolve(__dirname, "..")
+  const written = new Map<string, string>()
   for (const [name, content] of fileResults) {
     let printContent = content
     if (!noFormat) {
@@ -91,42 +140,142 @@ async function writeFiles(fileResults: Map<string, string>) {
         printWidth: 120,
       })
     }
-    const fileName = path.join(outDir, name)
+    const fileName = path.resolve(rootDir, name)
     // make sure the directory exists
     await fs.mkdir(path.dirname(fileName), { recursive: true })
     await fs.writeFile(fileName, printContent)
+    written.set(name, printContent)
+  }
+  return written
+}
+/**
+ * Removes the shard directories of a generated directory, so ones from a previous sharded run don't linger.
+ */
+async function removeShards(generatedDir: string) {
+  const entries = await fs.readdir(generatedDir, { withFileTypes: true }).catch(() => [])
+  for (const entry of entries) {
+    if (entry.isDirectory()) await fs.rm(path.join(generatedDir, entry.name), { recursive: true })
   }
 }
+
 const options: Options = {
   noLink,
+  indexTypesReport,
+  sharded,
 }
-async function doGeneration<C extends AnyApiJson>(
+async function doGeneration<C extends AnyApiJson, G extends GenerationContext<C>>(
   stage: C["stage"],
-  manualDefsFile: string,
+  version: string,
+  outDir: string,
   cls: new (
     apiDocs: C,
     manualDefinitionsSource: ts.SourceFile,
     typeChecker: ts.TypeChecker,
     option: Options,
-  ) => GenerationContext<C>,
+    history: ApiHistory,
+  ) => G,
+  setup?: (context: G) => Promise<void>,
 ) {
   console.log(`${stage}: reading files`)
-  const apiJson = await getApiJson<C>(stage)
-  const { typeChecker, manualDefines } = getManualDefsFile(manualDefsFile)
+  const apiJson = await getApiJson<C>(stage, version)
+  const { typeChecker, manualDefines } = getManualDefsFile(stage, version)
+  const history = await getApiHistory(stage, version)
 
   console.log(`${stage}: generating files`)
-  const genContext = new cls(apiJson, manualDefines, typeChecker, options)
-  const files = generateFiles(genContext)
+  const genContext = new cls(apiJson, manualDefines, typeChecker, options, history)
+  await setup?.(genContext)
+  const files = generateFiles(genContext, outDir)
 
   console.log(`${stage}: writing files`)
-  await writeFiles(files)
-  return genContext.hasWarnings
+  await removeShards(path.resolve(rootDir, outDir, stage, "generated"))
+  const writtenFiles = await writeFiles(files)
+  return { context: genContext, files: writtenFiles }
 }
 
-const runtimeHasWarnings = doGeneration("runtime", "manual-defs-runtime.ts", RuntimeGenerationContext)
-const prototypesHasWarnings = doGeneration("prototype", "manual-defs-prototype.ts", PrototypeGenerationContext)
+async function writeJsonSchemas(outDir: string, context: PrototypeGenerationContext) {
+  console.log("writing json schemas")
+  const dir = path.resolve(rootDir, outDir, "json-schema")
+  await fs.mkdir(dir, { recursive: true })
+  for (const [name, schema] of generateJsonSchemas(context)) {
+    await fs.writeFile(path.join(dir, name), JSON.stringify(schema, null, 2) + "\n")
+  }
+}
+
+async function writeReference(outDir: string, version: string, generatedFiles: Map<string, Map<string, string>>) {
+  console.log("writing reference")
+  for (const [name, content] of generateReference(generatedFiles, version)) {
+    const fileName = path.resolve(rootDir, outDir, "reference", name)
+    await fs.mkdir(path.dirname(fileName), { recursive: true })
+    await fs.writeFile(fileName, content)
+  }
+}
+
+// Entrypoints copied into each versioned output tree. References to generated files and other entrypoints are kept
+// relative (pointing into the versioned tree); all other references are redirected to the shared hand-written files.
+const entrypointFiles = [
+  "index.d.ts",
+  "settings/index.d.ts",
+  "prototype/index.d.ts",
+  "runtime/index.d.ts",
+  "jsx/index.d.ts",
+]
+
+// baseDir is the package tree the version tree is in, which non-generated references resolve to
+async function writeVersionEntrypoints(baseDir: string, outDir: string) {
+  for (const entrypoint of entrypointFiles) {
+    const content = await fs.readFile(path.join(rootDir, entrypoint), "utf-8")
+    const entrypointDir = path.dirname(entrypoint)
+    const newContent = content.replace(/(\/\/\/ <reference path=")(.+?)(" \/>)/g, (match, pre, ref: string, post) => {
+      const target = path.posix.join(entrypointDir, ref)
+      if (target.split("/").includes("generated") || entrypointFiles.includes(target)) return match
+      const newRef = path
+        .relative(path.resolve(rootDir, outDir, entrypointDir), path.resolve(rootDir, baseDir, target))
+        .split(path.sep)
+        .join("/")
+      return pre + newRef + post
+    })
+    const fileName = path.resolve(rootDir, outDir, entrypoint)
+    console.log(`  writing ${path.join(outDir, entrypoint)}`)
+    await fs.mkdir(path.dirname(fileName), { recursive: true })
+    await fs.writeFile(fileName, newContent)
+  }
+}
+
+async function generateVersion(runtimeVersion: string, prototypeVersion: string, outDir: string) {
+  const runtime = doGeneration("runtime", runtimeVersion, outDir, RuntimeGenerationContext, async (context) => {
+    // the prototype hierarchy is used to relate entity types to LuaEntity subclasses
+    context.prototypeApiDocs = await getApiJson<FactorioPrototypeApiJson>("prototype", prototypeVersion)
+    context.definesDump = await getDefinesDump(runtimeVersion)
+  })
+  const prototypes = doGeneration("prototype", prototypeVersion, outDir, PrototypeGenerationContext)
+  const [runtimeResult, prototypeResult] = await Promise.all([runtime, prototypes])
+  if (reference) {
+    const generatedFiles = new Map([
+      ["runtime", runtimeResult.files],
+      ["prototype", prototypeResult.files],
+    ])
+    await writeReference(outDir, runtimeVersion, generatedFiles)
+  }
+  if (jsonSchema) {
+    await writeJsonSchemas(outDir, prototypeResult.context)
+  }
+  return runtimeResult.context.hasWarnings || prototypeResult.context.hasWarnings
+}
+
+let hasWarnings = false
+if (versionsArg === undefined) {
+  hasWarnings = await generateVersion(getLatestVersion("runtime"), getLatestVersion("prototype"), outDirArg ?? "")
+} else {
+  const baseDir = outDirArg ?? ""
+  const versions = versionsArg === "all" ? getApiJsonVersions("runtime") : versionsArg.split(",")
+  for (const version of versions) {
+    console.log(`generating version ${version}`)
+    const outDir = path.join(baseDir, "versions", version)
+    hasWarnings = (await generateVersion(version, version, outDir)) || hasWarnings
+    await writeVersionEntrypoints(baseDir, outDir)
+  }
+}
 
-const hasWarnings = (await runtimeHasWarnings) || (await prototypesHasWarnings)
 if (hasWarnings) {
   process.exit(1)
 }
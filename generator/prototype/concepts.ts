@@ -1,11 +1,12 @@
 import { PrototypeGenerationContext } from "./index.js"
-import { ModuleType } from "../OutputFile.js"
+import { getAlphabeticalShard, ModuleType } from "../OutputFile.js"
 import { Property, PrototypeConcept, Type } from "../FactorioPrototypeApiJson.js"
 import { addJsDoc, createTag } from "../documentation.js"
 import { mapPrototypeConcept, typeToDeclaration } from "../types.js"
 import { getHeritageClauses, getOverridenAttributes, mapProperty } from "./properties.js"
 import { assertNever, byOrder } from "../util.js"
 import ts from "typescript"
+import { Modifiers } from "../genUtil.js"
 import { copyExistingDeclaration, InterfaceDef, TypeAliasDef } from "../manualDefinitions.js"
 
 export function maybeRecordInlineConceptReference(
@@ -64,6 +65,7 @@ export function preprocessTypes(context: PrototypeGenerationContext): void {
 export function generateTypes(context: PrototypeGenerationContext): void {
   context.addFile("types", ModuleType.Prototype, () => {
     for (const type of context.apiDocs.types.sort(byOrder)) {
+      context.currentFile.setShard(getAlphabeticalShard(type.name))
       generateType(context, type)
     }
   })
@@ -92,8 +94,11 @@ function generateType(context: PrototypeGenerationContext, concept: PrototypeCon
 
   let declaration: ts.InterfaceDeclaration | ts.TypeAliasDeclaration
   let description: string | undefined
+  const namedPrototype = context.idTypePrototypes.get(concept.name)
   if (existing?.annotations.replace) {
     declaration = copyExistingDeclaration(existing.node)
+  } else if (namedPrototype) {
+    ;({ declaration, description } = generatePrototypeIdDeclaration(concept, namedPrototype))
   } else {
     ;({ declaration, description } = generateTypeDeclaration(concept, context, existing))
   }
@@ -119,6 +124,20 @@ function generateType(context: PrototypeGenerationContext, concept: PrototypeCon
   context.currentFile.add(declaration)
 }
 
+function generatePrototypeIdDeclaration(concept: PrototypeConcept, prototype: string) {
+  // type ItemID = import("factorio:common").PrototypeName<"ItemPrototype">
+  // inline import, as this file has no top-level imports
+  const type = ts.factory.createImportTypeNode(
+    ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral("factorio:common")),
+    undefined,
+    ts.factory.createIdentifier("PrototypeName"),
+    [ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral(prototype))],
+  )
+  const declaration = ts.factory.createTypeAliasDeclaration([Modifiers.export], concept.name, undefined, type)
+  const description = `If \`${prototype}\` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just \`string\`.`
+  return { declaration, description }
+}
+
 function generateBuiltinType(context: PrototypeGenerationContext, concept: PrototypeConcept) {
   const name = concept.name
   if (name === "string" || name === "number" || name === "boolean") return
@@ -0,0 +1,83 @@
+import { Property, Type } from "../FactorioPrototypeApiJson.js"
+
+// See Power and EnergyAmount in manual-defs-prototype.ts.
+type EnergyUnitType = "Power" | "EnergyAmount"
+
+const unitTypes: Record<string, EnergyUnitType> = {
+  W: "Power",
+  J: "EnergyAmount",
+}
+
+// matched against property descriptions; a description matching both is left as Energy
+const powerDescription = /\b(power|watts?|per second|rate|uses|used|consumption|consume|produce|production)\b/i
+const amountDescription = /\b(joules?|buffer|stored|hold|cost|single|minimum amount)\b/i
+
+// for properties with no telling description. In 1.1.110, these decide the unit of:
+// Power: BoilerPrototype.energy_consumption, CarPrototype.consumption, LocomotivePrototype.max_power,
+//   MovementBonusEquipmentPrototype.energy_consumption, NightVisionEquipmentPrototype.energy_input,
+//   ProgrammableSpeakerPrototype.energy_usage_per_tick, SpiderVehiclePrototype.movement_energy_consumption,
+//   HeatBuffer.max_transfer, HeatEnergySource.max_transfer
+// EnergyAmount: EnergyShieldEquipmentPrototype.energy_per_shield, InserterPrototype.energy_per_movement,
+//   InserterPrototype.energy_per_rotation, HeatBuffer.specific_heat, HeatEnergySource.specific_heat
+const powerName = /usage|consumption|power|production|_input$|transfer|drain|flow_limit/
+const amountName = /^energy_per_|_capacity$|^fuel_value$|specific_heat|^max_energy$|_minimum$/
+
+function getUnitFromValues(property: Property): EnergyUnitType | undefined {
+  // e.g. energy_usage = "90kW", or a default of "0J"
+  const values = [...(property.examples ?? [])]
+  if (typeof property.default === "object" && typeof property.default.value === "string") {
+    values.push(`"${property.default.value}"`)
+  }
+  for (const value of values) {
+    const unit = value.match(/"\d[\d.]*\s*[kKMGTPEZY]?([JW])"/)?.[1]
+    if (unit) return unitTypes[unit]
+  }
+  return undefined
+}
+
+function getUnitFromDescriptionOrName(property: Property): EnergyUnitType | undefined {
+  const isPower = powerDescription.test(property.description)
+  const isAmount = amountDescription.test(property.description)
+  if (isPower && isAmount) return undefined
+  if (isPower) return "Power"
+  if (isAmount) return "EnergyAmount"
+  if (amountName.test(property.name)) return "EnergyAmount"
+  if (powerName.test(property.name)) return "Power"
+  return undefined
+}
+
+function hasEnergyType(type: Type): boolean {
+  if (typeof type === "string") return type === "Energy"
+  switch (type.complex_type) {
+    case "type":
+    case "array":
+      return hasEnergyType(type.value)
+    case "union":
+      return type.options.some(hasEnergyType)
+    default:
+      return false
+  }
+}
+
+function replaceEnergyType(type: Type, replacement: EnergyUnitType): Type {
+  if (typeof type === "string") return type === "Energy" ? replacement : type
+  switch (type.complex_type) {
+    case "type":
+    case "array":
+      return { ...type, value: replaceEnergyType(type.value, replacement) }
+    case "union":
+      return { ...type, options: type.options.map((option) => replaceEnergyType(option, replacement)) }
+    default:
+      return type
+  }
+}
+
+/**
+ * Gets the type of a property, with `Energy` replaced by `Power` or `EnergyAmount` if the unit the property expects can
+ * be told from its examples, default value, description or name.
+ */
+export function getTypeWithEnergyUnit(property: Property): Type {
+  if (!hasEnergyType(property.type)) return property.type
+  const unitType = getUnitFromValues(property) ?? getUnitFromDescriptionOrName(property)
+  return unitType ? replaceEnergyType(property.type, unitType) : property.type
+}
@@ -2,6 +2,7 @@ import { FactorioPrototypeApiJson, Property, Prototype, PrototypeConcept, Type }
 import { GenerationContext } from "../GenerationContext.js"
 import { generatePrototypes, preprocessPrototypes } from "./prototypes.js"
 import { generateTypes, preprocessTypes } from "./concepts.js"
+import { getPrototypeIdTypes } from "../prototypeNames.js"
 
 export class PrototypeGenerationContext extends GenerationContext<FactorioPrototypeApiJson> {
   stageName = "prototype"
@@ -18,6 +19,11 @@ export class PrototypeGenerationContext extends GenerationContext<FactorioProtot
 
   inlineConceptReferences = new Map<string, string>()
 
+  /** `*ID` type -> prototype it names, which is its key in the PrototypeNames registry. */
+  idTypePrototypes = new Map<string, string>(
+    Array.from(getPrototypeIdTypes(this.apiDocs), ([prototype, idType]) => [idType, prototype]),
+  )
+
   tryGetTypeOfReference(reference: string): Type | undefined {
     return this.types.get(reference)?.type
   }
@@ -0,0 +1,211 @@
+import { PrototypeGenerationContext } from "./index.js"
+import { Property, Prototype, PrototypeConcept, Type } from "../FactorioPrototypeApiJson.js"
+import { processMarkdownDescription } from "../documentation.js"
+import { assertNever, byOrder } from "../util.js"
+
+type JsonSchema = Record<string, unknown>
+
+const schemaDialect = "https://json-schema.org/draft/2020-12/schema"
+
+const integerRanges: Record<string, [minimum: number, maximum: number]> = {
+  int8: [-(2 ** 7), 2 ** 7 - 1],
+  int16: [-(2 ** 15), 2 ** 15 - 1],
+  int32: [-(2 ** 31), 2 ** 31 - 1],
+  uint8: [0, 2 ** 8 - 1],
+  uint16: [0, 2 ** 16 - 1],
+  uint32: [0, 2 ** 32 - 1],
+  uint64: [0, 2 ** 64 - 1],
+}
+
+export function getSchemaFileName(name: string): string {
+  return `${name}.schema.json`
+}
+
+function ref(name: string): JsonSchema {
+  return { $ref: getSchemaFileName(name) }
+}
+
+/**
+ * Generates a JSON Schema (draft 2020-12) document for every prototype and type, referencing each other by file name,
+ * and a `data-raw` document for a whole `data.raw` table.
+ *
+ * Returns file name -> schema.
+ */
+export function generateJsonSchemas(context: PrototypeGenerationContext): Map<string, JsonSchema> {
+  const result = new Map<string, JsonSchema>()
+  const add = (member: Prototype | PrototypeConcept, schema: JsonSchema) => {
+    result.set(getSchemaFileName(member.name), {
+      $schema: schemaDialect,
+      title: member.name,
+      description: processMarkdownDescription(context, member.description),
+      ...schema,
+    })
+  }
+  for (const prototype of context.apiDocs.prototypes) {
+    add(prototype, { deprecated: prototype.deprecated || undefined, ...getPrototypeSchema(context, prototype) })
+  }
+  for (const concept of context.apiDocs.types) {
+    add(concept, getConceptSchema(context, concept))
+  }
+  result.set(getSchemaFileName("data-raw"), getDataRawSchema(context))
+  return result
+}
+
+function getPrototypeSchema(context: PrototypeGenerationContext, prototype: Prototype): JsonSchema {
+  const schema = getStructSchema(context, prototype, context.prototypes, prototype.custom_properties?.value_type)
+  if (prototype.typename && !prototype.abstract) {
+    const properties = schema.properties as Record<string, JsonSchema>
+    properties.type = { ...properties.type, const: prototype.typename }
+  }
+  return schema
+}
+
+function getConceptSchema(context: PrototypeGenerationContext, concept: PrototypeConcept): JsonSchema {
+  if (concept.type !== "builtin") return mapType(context, concept.type, concept)
+  const range = integerRanges[concept.name]
+  if (range) return { type: "integer", minimum: range[0], maximum: range[1] }
+  switch (concept.name) {
+    case "bool":
+      return { type: "boolean" }
+    case "string":
+      return { type: "string" }
+    case "float":
+    case "double":
+      return { type: "number" }
+  }
+  // functions, such as DataExtendMethod, do not appear in json
+  return {}
+}
+
+/**
+ * Properties are flattened from the whole parent chain, instead of referencing the parent's schema, as children may
+ * make inherited properties optional.
+ */
+function getStructSchema<T extends Prototype | PrototypeConcept>(
+  context: PrototypeGenerationContext,
+  owner: T,
+  owners: ReadonlyMap<string, T>,
+  additionalProperties?: Type,
+): JsonSchema {
+  const chain: T[] = []
+  for (let current: T | undefined = owner; current; current = current.parent ? owners.get(current.parent) : undefined) {
+    chain.unshift(current)
+  }
+  // overridden properties replace inherited ones
+  const allProperties = new Map<string, Property>()
+  for (const member of chain) {
+    for (const property of [...(member.properties ?? [])].sort(byOrder)) {
+      allProperties.set(property.name, property)
+    }
+  }
+
+  const properties: Record<string, JsonSchema> = {}
+  const required: string[] = []
+  const requiredEither: JsonSchema[] = []
+  for (const property of allProperties.values()) {
+    const schema = mapProperty(context, property)
+    properties[property.name] = schema
+    if (property.alt_name) properties[property.alt_name] = schema
+    if (property.optional) continue
+    if (property.alt_name) {
+      requiredEither.push({ anyOf: [{ required: [property.name] }, { required: [property.alt_name] }] })
+    } else {
+      required.push(property.name)
+    }
+  }
+
+  return {
+    type: "object",
+    properties,
+    required: required.length ? required : undefined,
+    allOf: requiredEither.length ? requiredEither : undefined,
+    additionalProperties: additionalProperties ? mapType(context, additionalProperties) : false,
+  }
+}
+
+function mapProperty(context: PrototypeGenerationContext, property: Property): JsonSchema {
+  return {
+    ...mapType(context, property.type),
+    description: processMarkdownDescription(context, property.description),
+    // a string default is a description of the default, not a value
+    default: typeof property.default === "object" ? property.default.value : undefined,
+  }
+}
+
+/**
+ * @param owner The type a `struct` type gets its properties from.
+ */
+function mapType(context: PrototypeGenerationContext, type: Type, owner?: PrototypeConcept): JsonSchema {
+  if (typeof type === "string") return ref(type)
+  switch (type.complex_type) {
+    case "type":
+      return {
+        ...mapType(context, type.value, owner),
+        description: processMarkdownDescription(context, type.description),
+      }
+    case "literal":
+      return { const: type.value, description: processMarkdownDescription(context, type.description) }
+    case "struct":
+      if (!owner) {
+        context.warning("Struct type without owning type")
+        return { type: "object" }
+      }
+      return getStructSchema(context, owner, context.types)
+    case "union":
+      return { anyOf: type.options.map((option) => mapType(context, option, owner)) }
+    case "array":
+      // empty lua tables may be exported as {}
+      return { type: ["array", "object"], items: mapType(context, type.value, owner), maxProperties: 0 }
+    case "tuple":
+      return {
+        type: ["array", "object"],
+        prefixItems: type.values.map((value) => mapType(context, value, owner)),
+        minItems: type.values.length,
+        maxItems: type.values.length,
+        maxProperties: 0,
+      }
+    case "dictionary":
+      return {
+        type: "object",
+        // json keys are always strings; number keys are not checked
+        propertyNames: isStringType(context, type.key) ? mapType(context, type.key) : undefined,
+        additionalProperties: mapType(context, type.value, owner),
+      }
+    default:
+      assertNever(type)
+  }
+}
+
+function isStringType(context: PrototypeGenerationContext, type: Type): boolean {
+  if (typeof type === "string") {
+    if (type === "string") return true
+    const concept = context.types.get(type)
+    return concept !== undefined && concept.type !== "builtin" && isStringType(context, concept.type)
+  }
+  switch (type.complex_type) {
+    case "literal":
+      return typeof type.value === "string"
+    case "type":
+      return isStringType(context, type.value)
+    case "union":
+      return type.options.every((option) => isStringType(context, option))
+    default:
+      return false
+  }
+}
+
+function getDataRawSchema(context: PrototypeGenerationContext): JsonSchema {
+  const properties: Record<string, JsonSchema> = {}
+  for (const prototype of context.apiDocs.prototypes) {
+    if (!prototype.typename || prototype.abstract) continue
+    properties[prototype.typename] = { type: "object", additionalProperties: ref(prototype.name) }
+  }
+  return {
+    $schema: schemaDialect,
+    title: "data.raw",
+    description: "All prototypes, by type and name, as dumped with `--dump-data`.",
+    type: "object",
+    properties,
+    additionalProperties: false,
+  }
+}
@@ -7,6 +7,8 @@ import { addJsDoc } from "../documentation.js"
 import { maybeRecordInlineConceptReference } from "./concepts.js"
 import { InterfaceDef, TypeAliasDef } from "../manualDefinitions.js"
 import assert from "assert"
+import { gateMember, gateType } from "../apiGating.js"
+import { getTypeWithEnergyUnit } from "./energy.js"
 
 export function mapProperty(
   context: PrototypeGenerationContext,
@@ -14,7 +16,7 @@ export function mapProperty(
   parentName: string,
   existingContainer: InterfaceDef | TypeAliasDef | undefined,
 ): ts.TypeElement[] {
-  const { type, description } = mapPrototypeType(context, property.type)
+  const { type, description } = mapPrototypeType(context, getTypeWithEnergyUnit(property))
 
   let mainProperty: ts.TypeElement
 
@@ -44,8 +46,13 @@ export function mapProperty(
     )
   }
 
+  const thisPath = parentName + "." + property.name
+  // a prototype's own visibility gates its type name instead, see getTypeNamesType
+  const visibility = property.visibility
+  mainProperty = gateMember(context, thisPath, visibility, mainProperty)
+
   const isInline = maybeRecordInlineConceptReference(context, parentName, property, false)
-  addJsDoc(context, mainProperty, property, parentName + "." + property.name, {
+  addJsDoc(context, mainProperty, property, thisPath, {
     post: description,
     allowEmpty: isInline,
   })
@@ -58,7 +65,7 @@ export function mapProperty(
         undefined,
         property.alt_name,
         property.optional ? Tokens.question : undefined,
-        type,
+        gateType(context, thisPath, visibility, type),
       ),
     )
   }
@@ -11,6 +11,7 @@ import { mapPrototypeType } from "../types.js"
 import assert from "assert"
 import { InterfaceDef } from "../manualDefinitions.js"
 import { nameToToPrototypeType } from "../prototypeSubclassTypes.js"
+import { gateType } from "../apiGating.js"
 
 export function preprocessPrototypes(context: PrototypeGenerationContext): void {
   for (const prototype of context.apiDocs.prototypes.sort(byOrder)) {
@@ -25,26 +26,47 @@ export function preprocessPrototypes(context: PrototypeGenerationContext): void
 
 export function generatePrototypes(context: PrototypeGenerationContext): void {
   context.addFile("prototypes", ModuleType.Prototype, () => {
-    const { subclassMap, rootPrototypes } = getSubclassMap(context)
+    const { subclassMap, rootPrototypes } = getSubclassMap(context.apiDocs.prototypes)
+    const prototypesByName = new Map(context.apiDocs.prototypes.map((p) => [p.name, p]))
     for (const prototype of context.apiDocs.prototypes.sort(byOrder)) {
+      context.currentFile.setShard(getPrototypeFamily(prototype, prototypesByName))
       generatePrototype(context, prototype, subclassMap)
     }
+    context.currentFile.setShard("PrototypeMap")
     addPrototypeMap(context, subclassMap, rootPrototypes)
     // manually added imports for now
     context.currentFile.addImport("common", "CustomInputName")
+    context.currentFile.addImport("common", "NotInTargetFactorioVersion")
+    context.currentFile.addImport("common", "NotInTargetGameEdition")
   })
 }
 
-function getSubclassMap(context: PrototypeGenerationContext): {
+/**
+ * Gets the root prototype (one directly extending PrototypeBase) a prototype descends from.
+ */
+function getPrototypeFamily(prototype: Prototype, prototypesByName: Map<string, Prototype>): string {
+  let current = prototype
+  while (current.parent && current.parent !== "PrototypeBase") {
+    current = prototypesByName.get(current.parent)!
+  }
+  return current.name
+}
+
+/**
+ * Maps each prototype name to the typenames of itself and all its descendants.
+ */
+export function getSubclassMap(prototypes: Prototype[]): {
   subclassMap: Map<string, string[]>
   rootPrototypes: string[]
 } {
   const subclassMap = new Map<string, string[]>()
   const rootPrototypes: string[] = []
-  for (const prototype of context.apiDocs.prototypes) {
+  const parents = new Map<string, string | undefined>()
+  for (const prototype of prototypes) {
     subclassMap.set(prototype.name, [])
+    parents.set(prototype.name, prototype.parent)
   }
-  for (const prototype of context.apiDocs.prototypes.sort(byOrder)) {
+  for (const prototype of prototypes.sort(byOrder)) {
     if (
       prototype.name !== "PrototypeBase" &&
       (prototype.parent === undefined || prototype.parent === "PrototypeBase")
@@ -56,7 +78,7 @@ function getSubclassMap(context: PrototypeGenerationContext): {
     let current: string | undefined = prototype.name
     while (current) {
       subclassMap.get(current)!.push(thisType)
-      current = context.prototypes.get(current)?.parent
+      current = parents.get(current)
     }
   }
   return { subclassMap, rootPrototypes }
@@ -67,10 +89,6 @@ function generatePrototype(
   prototype: Prototype,
   subclassMap: Map<string, string[]>,
 ): void {
-  if (prototype.visibility) {
-    context.warning("Visibility not yet implemented")
-  }
-
   const existing = context.manualDefs.getInterface(prototype.name)
   const members = getMembers(context, prototype, existing, subclassMap)
   const heritageClauses = getPrototypeHeritageClauses(prototype, context)
@@ -130,7 +148,7 @@ function getMembers(
         undefined,
         "type",
         undefined,
-        Types.stringUnion(typeNames),
+        getTypeNamesType(context, typeNames),
       )
       properties.unshift(typeProperty)
     } else if (prototype.name !== "PrototypeBase" && (typeNames.length !== 1 || typeNames[0] !== prototype.typename)) {
@@ -153,6 +171,20 @@ function getMembers(
   return properties
 }
 
+/**
+ * Each type name is gated by its own prototype, so e.g. a prototype only visible with an expansion can't be declared
+ * under a TargetGameEdition without it.
+ */
+function getTypeNamesType(context: PrototypeGenerationContext, typeNames: string[]): ts.TypeNode {
+  if (typeNames.length === 0) return Types.never
+  const prototypes = Array.from(context.prototypes.values())
+  const types = typeNames.map((typeName) => {
+    const prototype = prototypes.find((p) => p.typename === typeName)!
+    return gateType(context, prototype.name, prototype.visibility, Types.stringLiteral(typeName))
+  })
+  return types.length === 1 ? types[0] : ts.factory.createUnionTypeNode(types)
+}
+
 function getPrototypeHeritageClauses(prototype: Prototype, context: PrototypeGenerationContext) {
   if (!prototype.parent) return undefined
   return getHeritageClauses(prototype.parent, getPrototypeOverridenAttributes(context, prototype))
@@ -0,0 +1,27 @@
+import { FactorioPrototypeApiJson } from "./FactorioPrototypeApiJson.js"
+
+/**
+ * Maps prototypes to the `*ID` type naming them (e.g. ItemPrototype -> ItemID), from the descriptions of the `*ID` types.
+ *
+ * These prototypes are the keys of the `PrototypeNames` registry in `factorio:common`.
+ */
+export function getPrototypeIdTypes(apiDocs: FactorioPrototypeApiJson): Map<string, string> {
+  const result = new Map<string, string>()
+  for (const type of apiDocs.types) {
+    if (!type.name.endsWith("ID") || type.type !== "string") continue
+    // The name of an [ItemPrototype](prototype:ItemPrototype).
+    const prototype = type.description.match(/^The name of an? \[(\w+)]\(prototype:\1\)/)?.[1]
+    if (prototype) result.set(prototype, type.name)
+  }
+  return result
+}
+
+/**
+ * Gets the prototype a runtime class corresponds to, if it has an `*ID` type.
+ * E.g. LuaItemPrototype -> ItemPrototype, LuaRecipe -> RecipePrototype, LuaAmmoCategoryPrototype -> AmmoCategory.
+ */
+export function getPrototypeOfRuntimeClass(className: string, idTypes: Map<string, string>): string | undefined {
+  if (!className.startsWith("Lua")) return undefined
+  const name = className.substring("Lua".length)
+  return [name, name + "Prototype", name.replace(/Prototype$/, "")].find((prototype) => idTypes.has(prototype))
+}
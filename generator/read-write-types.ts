@@ -119,7 +119,14 @@ export function analyzeConcept(context: RuntimeGenerationContext, concept: Conce
   function preprocessBuiltin(): void {
     if (concept.name === "boolean" || concept.name === "string" || concept.name === "number") return
     const existing = context.manualDefs.getDeclaration(concept.name)
-    if (existing?.kind === "type" && existing.node.type.kind === ts.SyntaxKind.NumberKeyword)
+    if (existing?.kind !== "type") return
+    const type = existing.node.type
+    if (
+      type.kind === ts.SyntaxKind.NumberKeyword ||
+      (ts.isTypeReferenceNode(type) &&
+        ts.isIdentifier(type.typeName) &&
+        (type.typeName.text === "SignedInteger" || type.typeName.text === "UnsignedInteger"))
+    )
       context.numericTypes.add(concept.name)
   }
 }
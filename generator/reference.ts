@@ -0,0 +1,318 @@
+import ts from "typescript"
+
+// Renders a markdown reference of the generated declarations, for browsing the api as typed-factorio declares it.
+
+interface Entry {
+  /** Qualified name. */
+  id: string
+  /** Unique within the page; the id, unless it is a duplicate. */
+  anchor: string
+  node: ts.Node
+  sourceFile: ts.SourceFile
+  header: string
+  /** Names of extended types, for interfaces. */
+  heritage: string[]
+  members: Member[]
+}
+
+interface Member {
+  anchor: string
+  name: string
+  /** Declarations with this name, e.g. a get and set accessor pair, or method overloads. */
+  nodes: ts.Node[]
+}
+
+interface Page {
+  stage: string
+  name: string
+  entries: Entry[]
+}
+
+// TypeScriptToLua annotations, which are not useful in the reference
+const ignoredTags = new Set(["noSelf", "noSelfInFile", "noResolution"])
+
+/**
+ * Gets the page of a generated file from its path; shards of a sharded file are on the same page.
+ */
+function getPageName(fileName: string): string {
+  const match = fileName.match(/generated\/([^/]+?)(?:\/|\.d\.ts$)/)
+  if (!match) throw new Error(`Not a generated file: ${fileName}`)
+  return match[1]
+}
+
+function withoutModifiers(text: string): string {
+  return text.replace(/^(export )?(declare )?/, "")
+}
+
+function getMemberName(member: ts.Node, sourceFile: ts.SourceFile): string {
+  if (ts.isIndexSignatureDeclaration(member)) return "[index]"
+  if (ts.isCallSignatureDeclaration(member)) return "(call)"
+  if (ts.isConstructSignatureDeclaration(member)) return "new"
+  const name = (member as ts.NamedDeclaration).name
+  if (!name) return "(unknown)"
+  return ts.isStringLiteral(name) ? name.text : name.getText(sourceFile)
+}
+
+function getMembers(members: readonly ts.Node[], sourceFile: ts.SourceFile): Member[] {
+  const byName = new Map<string, Member>()
+  for (const member of members) {
+    const name = getMemberName(member, sourceFile)
+    const existing = byName.get(name)
+    if (existing) existing.nodes.push(member)
+    else byName.set(name, { anchor: "", name, nodes: [member] })
+  }
+  return [...byName.values()]
+}
+
+/**
+ * Gets the text of a node, with indentation relative to the node.
+ */
+function getNodeText(node: ts.Node, sourceFile: ts.SourceFile): string {
+  const indent = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).character
+  return node.getText(sourceFile).replace(new RegExp(`\n {0,${indent}}`, "g"), "\n")
+}
+
+function getHeader(node: ts.Node, bodyStart: number, sourceFile: ts.SourceFile): string {
+  return withoutModifiers(sourceFile.text.slice(node.getStart(sourceFile), bodyStart).replace(/\s*[{=]\s*$/, ""))
+}
+
+function collectEntries(statements: readonly ts.Statement[], prefix: string, sourceFile: ts.SourceFile): Entry[] {
+  const entries: Entry[] = []
+  for (const statement of statements) {
+    const entry = (id: string, header: string, members: Member[] = [], heritage: string[] = []) =>
+      entries.push({ id, anchor: "", node: statement, sourceFile, header, heritage, members })
+
+    if (ts.isModuleDeclaration(statement) && statement.body && ts.isModuleBlock(statement.body)) {
+      if (ts.isStringLiteral(statement.name) || statement.name.text === "global") {
+        // declare module "factorio:runtime", declare global
+        entries.push(...collectEntries(statement.body.statements, prefix, sourceFile))
+      } else {
+        const id = prefix + statement.name.text
+        entry(id, `namespace ${id}`)
+        entries.push(...collectEntries(statement.body.statements, id + ".", sourceFile))
+      }
+    } else if (ts.isInterfaceDeclaration(statement)) {
+      const id = prefix + statement.name.text
+      const heritage = (statement.heritageClauses ?? []).flatMap((clause) =>
+        clause.types.map((type) => type.expression.getText(sourceFile)),
+      )
+      const header = getHeader(statement, statement.members.pos, sourceFile)
+      entry(id, header, getMembers(statement.members, sourceFile), heritage)
+    } else if (ts.isTypeAliasDeclaration(statement)) {
+      const id = prefix + statement.name.text
+      if (ts.isTypeLiteralNode(statement.type)) {
+        const header = getHeader(statement, statement.type.members.pos, sourceFile) + " ="
+        entry(id, header, getMembers(statement.type.members, sourceFile))
+      } else {
+        entry(id, withoutModifiers(getNodeText(statement, sourceFile)))
+      }
+    } else if (ts.isEnumDeclaration(statement)) {
+      const id = prefix + statement.name.text
+      entry(id, getHeader(statement, statement.members.pos, sourceFile), getMembers(statement.members, sourceFile))
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        entry(prefix + declaration.name.getText(sourceFile), withoutModifiers(getNodeText(statement, sourceFile)))
+      }
+    } else if (ts.isFunctionDeclaration(statement) && statement.name) {
+      entry(prefix + statement.name.text, withoutModifiers(getNodeText(statement, sourceFile)))
+    }
+  }
+  return entries
+}
+
+interface Documentation {
+  description: string
+  tags: { name: string; text: string }[]
+}
+
+function getDocumentation(node: ts.Node, sourceFile: ts.SourceFile): Documentation | undefined {
+  const jsDoc = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc).at(-1)
+  if (!jsDoc) return undefined
+  const lines = jsDoc
+    .getText(sourceFile)
+    .replace(/^\/\*\*\s*|\s*\*\/$/g, "")
+    .split("\n")
+    .map((line) => line.replace(/^\s*\* ?/, ""))
+
+  const description: string[] = []
+  const tags: Documentation["tags"] = []
+  let inCodeBlock = false
+  for (const line of lines) {
+    if (line.startsWith("```")) inCodeBlock = !inCodeBlock
+    const tag = !inCodeBlock && line.match(/^@(\w+)\s?(.*)$/)
+    if (tag) {
+      tags.push({ name: tag[1], text: tag[2] })
+    } else if (tags.length > 0) {
+      tags[tags.length - 1].text += "\n" + line
+    } else {
+      description.push(line)
+    }
+  }
+  return {
+    description: description.join("\n").trim(),
+    tags: tags.filter((tag) => !ignoredTags.has(tag.name)).map((tag) => ({ name: tag.name, text: tag.text.trim() })),
+  }
+}
+
+/**
+ * Assigns anchors unique within the page, suffixing duplicate ids; e.g. a namespace and a type can have the same name.
+ */
+function assignAnchors(page: Page): void {
+  const used = new Set<string>()
+  function unique(id: string): string {
+    let anchor = id
+    for (let i = 2; used.has(anchor); i++) anchor = `${id}-${i}`
+    used.add(anchor)
+    return anchor
+  }
+  for (const entry of page.entries) {
+    entry.anchor = unique(entry.id)
+    for (const member of entry.members) member.anchor = unique(`${entry.anchor}.${member.name}`)
+  }
+}
+
+interface Anchor {
+  page: string
+  anchor: string
+}
+
+class ReferenceRenderer {
+  // stage -> id -> first anchor with that id
+  private anchors = new Map<string, Map<string, Anchor>>()
+
+  constructor(pages: Page[]) {
+    for (const page of pages) {
+      let stageAnchors = this.anchors.get(page.stage)
+      if (!stageAnchors) {
+        stageAnchors = new Map()
+        this.anchors.set(page.stage, stageAnchors)
+      }
+      for (const entry of page.entries) {
+        if (!stageAnchors.has(entry.id)) stageAnchors.set(entry.id, { page: page.name, anchor: entry.anchor })
+        for (const member of entry.members) {
+          const id = `${entry.id}.${member.name}`
+          if (!stageAnchors.has(id)) stageAnchors.set(id, { page: page.name, anchor: member.anchor })
+        }
+      }
+    }
+  }
+
+  private resolveLink(fromStage: string, target: string): string | undefined {
+    // import("factorio:prototype").ItemPrototype#name
+    const [, importStage, name, member] = target.match(/^(?:import\("factorio:(\w+)"\)\.)?([^#]+)(?:#(.+))?$/) ?? []
+    if (!name) return undefined
+    const stages = importStage ? [importStage] : [fromStage, ...[...this.anchors.keys()].filter((s) => s !== fromStage)]
+    for (const stage of stages) {
+      const stageAnchors = this.anchors.get(stage)
+      const id = member && stageAnchors?.has(`${name}.${member}`) ? `${name}.${member}` : name
+      const anchor = stageAnchors?.get(id)
+      if (anchor) {
+        const file = stage === fromStage ? `${anchor.page}.md` : `../${stage}/${anchor.page}.md`
+        return `${file}#${anchor.anchor}`
+      }
+    }
+    return undefined
+  }
+
+  private renderText(stage: string, text: string): string {
+    return text.replace(
+      /\{@(?:link|linkplain|linkcode) ([^\s}|]+)(?:\s*\|?\s*([^}]*))?}/g,
+      (_, target: string, label) => {
+        const text = (label as string | undefined)?.trim() || target
+        if (target.match(/^https?:\/\//)) return `[${text}](${target})`
+        const link = this.resolveLink(stage, target)
+        return link ? `[${text}](${link})` : `\`${text}\``
+      },
+    )
+  }
+
+  private renderDocumentation(stage: string, node: ts.Node, sourceFile: ts.SourceFile): string[] {
+    const documentation = getDocumentation(node, sourceFile)
+    if (!documentation) return []
+    const result: string[] = []
+    if (documentation.description) result.push(this.renderText(stage, documentation.description))
+    for (const { name, text } of documentation.tags) {
+      if (name === "example") {
+        result.push(text.includes("```") ? `**Example**\n\n${text}` : `**Example**\n\n\`\`\`\n${text}\n\`\`\``)
+      } else {
+        result.push(`**@${name}** ${this.renderText(stage, text)}`.trim())
+      }
+    }
+    return result
+  }
+
+  private renderEntry(stage: string, entry: Entry): string[] {
+    const result = [
+      `<a id="${entry.anchor}"></a>\n\n## ${entry.id}`,
+      "```ts\n" + entry.header + "\n```",
+      ...this.renderDocumentation(stage, entry.node, entry.sourceFile),
+    ]
+    if (entry.heritage.length > 0) {
+      result.push("Extends " + this.renderText(stage, entry.heritage.map((name) => `{@link ${name}}`).join(", ")))
+    }
+    for (const member of entry.members) {
+      const code = member.nodes.map((node) => getNodeText(node, entry.sourceFile)).join("\n")
+      // accessor pairs usually have the same documentation
+      const documentation = new Set(
+        member.nodes.flatMap((node) => this.renderDocumentation(stage, node, entry.sourceFile)),
+      )
+      result.push(`<a id="${member.anchor}"></a>\n\n### ${member.name}`, "```ts\n" + code + "\n```", ...documentation)
+    }
+    return result
+  }
+
+  renderPage(page: Page): string {
+    const contents = page.entries.map((entry) => `- [${entry.id}](#${entry.anchor})`).join("\n")
+    const sections = [
+      `# ${page.stage}: ${page.name}`,
+      contents,
+      ...page.entries.flatMap((e) => this.renderEntry(page.stage, e)),
+    ]
+    return sections.join("\n\n") + "\n"
+  }
+}
+
+/**
+ * Renders markdown reference pages of generated declarations.
+ * @param generatedFiles Contents of the generated files of each stage, by file name.
+ * @param version The factorio version, shown on the index page.
+ * @return Page contents, by path relative to the reference directory.
+ */
+export function generateReference(
+  generatedFiles: ReadonlyMap<string, ReadonlyMap<string, string>>,
+  version: string,
+): Map<string, string> {
+  const pages = new Map<string, Page>()
+  for (const [stage, files] of generatedFiles) {
+    for (const [fileName, content] of files) {
+      const name = getPageName(fileName)
+      const key = `${stage}/${name}`
+      let page = pages.get(key)
+      if (!page) {
+        page = { stage, name, entries: [] }
+        pages.set(key, page)
+      }
+      const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true)
+      page.entries.push(...collectEntries(sourceFile.statements, "", sourceFile))
+    }
+  }
+  for (const page of pages.values()) {
+    page.entries.sort((a, b) => a.id.localeCompare(b.id))
+    assignAnchors(page)
+  }
+
+  const renderer = new ReferenceRenderer([...pages.values()])
+  const result = new Map<string, string>()
+  const pageLinks: string[] = []
+  for (const [key, page] of [...pages].sort(([a], [b]) => a.localeCompare(b))) {
+    result.set(`${key}.md`, renderer.renderPage(page))
+    pageLinks.push(`- [${key}](${key}.md)`)
+  }
+  const index = [
+    "# typed-factorio API reference",
+    `Declarations for Factorio ${version}, as declared by typed-factorio.`,
+    pageLinks.join("\n"),
+  ]
+  result.set("index.md", index.join("\n\n") + "\n")
+  return result
+}
@@ -10,6 +10,8 @@ import { analyzeType, RWUsage } from "../read-write-types.js"
 import { tryGetStringEnumType } from "../variantParameterGroups.js"
 import { ModuleType } from "../OutputFile.js"
 import { RuntimeGenerationContext } from "./index.js"
+import { generateEntityTypeToClass } from "./entity-types.js"
+import { generateGuiStyleMods } from "./gui.js"
 
 export function preprocessClasses(context: RuntimeGenerationContext): void {
   for (const clazz of context.apiDocs.classes) {
@@ -38,17 +40,85 @@ function analyzeAttribute(context: RuntimeGenerationContext, attribute: Attribut
 export function generateClasses(context: RuntimeGenerationContext): void {
   context.addFile("classes", ModuleType.Runtime, () => {
     for (const clazz of context.apiDocs.classes.sort(byOrder)) {
+      context.currentFile.setShard(clazz.name)
       const existing = context.manualDefs.getDeclaration(clazz.name)
-      generateClass(context, clazz, existing)
+      const { members, subclassTypeNames } = generateClass(context, clazz, existing)
+      if (clazz.name === "LuaEntity") generateEntityTypeToClass(context, subclassTypeNames)
+      if (clazz.name === "LuaStyle") generateGuiStyleMods(context, members)
     }
+    context.currentFile.setShard("LuaObjectMap")
+    generateLuaObjectMap(context)
     // manually added imports for now
     context.currentFile.addImport("common", "ActiveMods")
+    context.currentFile.addImport("common", "CustomCommandName")
+    context.currentFile.addImport("common", "CustomCommandNames")
     context.currentFile.addImport("common", "CustomInputName")
+    context.currentFile.addImport("common", "GuiElementTags")
+    context.currentFile.addImport("common", "ModSettingsTable")
+    context.currentFile.addImport("common", "RemoteFunctionName")
+    context.currentFile.addImport("common", "RemoteFunctionParameters")
+    context.currentFile.addImport("common", "RemoteFunctionReturnType")
+    context.currentFile.addImport("common", "RemoteInterfaceName")
+    context.currentFile.addImport("common", "RemoteInterfaces")
+    context.currentFile.addImport("common", "RemoteInterfacesMap")
+    context.currentFile.addImport("common", "UndeclaredRemoteInterfaceName")
     context.currentFile.addImport("prototype", "PrototypeMap")
     context.currentFile.addImport("settings", "SettingsPrototypeMap")
   })
 }
 
+function hasKnownObjectName(clazz: Class): boolean {
+  return clazz.attributes.some((a) => a.name === "object_name") && !clazz.description.match(/abstract/i)
+}
+
+function generateLuaObjectMap(context: RuntimeGenerationContext) {
+  // interface LuaObjectMap { LuaEntity: LuaEntity, ... }
+  const members = context.apiDocs.classes.filter(hasKnownObjectName).map((clazz) => {
+    const typeParameters = context.manualDefs.getDeclaration(clazz.name)?.node.typeParameters
+    return ts.factory.createPropertySignature(
+      undefined,
+      clazz.name,
+      undefined,
+      ts.factory.createTypeReferenceNode(
+        clazz.name,
+        typeParameters?.map(() => Types.any),
+      ),
+    )
+  })
+  const luaObjectMap = ts.factory.createInterfaceDeclaration(
+    [Modifiers.export],
+    "LuaObjectMap",
+    undefined,
+    undefined,
+    members,
+  )
+  addFakeJSDoc(
+    luaObjectMap,
+    ts.factory.createJSDocComment("Maps the `object_name` of each LuaObject class to its type.", []),
+  )
+  // type AnyLuaObject = LuaObjectMap[keyof LuaObjectMap]
+  const anyLuaObject = ts.factory.createTypeAliasDeclaration(
+    [Modifiers.export],
+    "AnyLuaObject",
+    undefined,
+    ts.factory.createIndexedAccessTypeNode(
+      ts.factory.createTypeReferenceNode("LuaObjectMap"),
+      ts.factory.createTypeOperatorNode(ts.SyntaxKind.KeyOfKeyword, ts.factory.createTypeReferenceNode("LuaObjectMap")),
+    ),
+  )
+  addFakeJSDoc(
+    anyLuaObject,
+    ts.factory.createJSDocComment(
+      "A union of all LuaObject classes, which can be narrowed by checking `object_name`.",
+      [],
+    ),
+  )
+  context.currentFile.add(luaObjectMap)
+  context.currentFile.add(anyLuaObject)
+  context.references.set("LuaObjectMap", "LuaObjectMap")
+  context.references.set("AnyLuaObject", "AnyLuaObject")
+}
+
 interface MemberAndOriginal {
   original: Method | Attribute
   member: ts.TypeElement | ts.TypeElement[]
@@ -59,20 +129,25 @@ function generateClass(
   clazz: Class,
   existing: InterfaceDef | TypeAliasDef | undefined,
 ) {
-  context.warnIfHasVisibility(clazz)
-
   const superTypes = getSupertypes()
   const arrayType = getArrayType()
 
   const members: MemberAndOriginal[] = []
   fillMethodsAndOperators()
   const indexType = fillIndexType()
+  const typeParameters = existing?.node.typeParameters
+  const typeArguments = typeParameters?.map((p) => ts.factory.createTypeReferenceNode(p.name))
+  // only a mapped type indexer (a type alias) uses the type parameters
+  const indexTypeArguments = indexType && ts.isTypeAliasDeclaration(indexType) ? typeArguments : undefined
   fillAttributes()
   checkManuallyDefined()
   shiftLuaObjectMembers()
   let discriminantProperty: string | undefined, membersBySubclass: Map<string, MemberAndOriginal[]>
+  // original subclass name (as in the api docs) -> generated subclass type name
+  const subclassTypeNames = new Map<string, string>()
   processSubclasses()
   generateDeclarations()
+  return { members: members.flatMap((m) => m.member), subclassTypeNames }
 
   function getSupertypes() {
     const supertypes: ts.ExpressionWithTypeArguments[] = []
@@ -256,7 +331,7 @@ function generateClass(
       const attribute = standardMembers.object_name
       const member = attribute.member
       setNoRefJsDoc(attribute)
-      if (!clazz.description.match(/abstract/i)) {
+      if (hasKnownObjectName(clazz)) {
         attribute.member = ts.factory.updatePropertySignature(
           member,
           member.modifiers,
@@ -346,9 +421,13 @@ function generateClass(
             useNames.set(mapName, useName)
             mapMembersBySubclass.set(mapName, [])
           }
+          subclassTypeNames.set(subclass, toPascalCase(useName) + removeLuaPrefix(clazz.name))
         }
       }
-      if (mapMembersBySubclass.size <= 1) return {}
+      if (mapMembersBySubclass.size <= 1) {
+        subclassTypeNames.clear()
+        return {}
+      }
     }
 
     mapMembersBySubclass.set("" as MapName, [])
@@ -397,15 +476,21 @@ function generateClass(
     thisMembers: MemberAndOriginal[],
     indexTypeName: string | undefined,
     classForDocs: Class | undefined,
+    isSubclass = false,
   ) {
-    const baseSupertypes: ts.ExpressionWithTypeArguments[] = thisSupertypes.filter((x) => !x.typeArguments)
-    const declarationSupertypes: ts.ExpressionWithTypeArguments[] = thisSupertypes.filter((x) => x.typeArguments)
+    // subclass members extend the base type, which may have type arguments
+    const baseSupertypes: ts.ExpressionWithTypeArguments[] = thisSupertypes.filter(
+      (x) => isSubclass || !x.typeArguments,
+    )
+    const declarationSupertypes: ts.ExpressionWithTypeArguments[] = thisSupertypes.filter(
+      (x) => !isSubclass && x.typeArguments,
+    )
     if (!indexTypeName) baseSupertypes.push(...declarationSupertypes)
 
     const baseDeclaration = ts.factory.createInterfaceDeclaration(
       [Modifiers.export],
       indexTypeName ? name + "Members" : name,
-      indexTypeName ? undefined : existing?.node.typeParameters,
+      indexTypeName && !isSubclass ? undefined : typeParameters,
       baseSupertypes.length !== 0
         ? [ts.factory.createHeritageClause(ts.SyntaxKind.ExtendsKeyword, baseSupertypes)]
         : undefined,
@@ -424,14 +509,13 @@ function generateClass(
       }
     } else {
       addNoSelfAnnotationOnly(baseDeclaration)
-      const typeArguments = existing?.node.typeParameters?.map((p) => ts.factory.createTypeReferenceNode(p.name))
       const declaration = ts.factory.createTypeAliasDeclaration(
         [Modifiers.export],
         name,
-        existing?.node.typeParameters,
+        typeParameters,
         ts.factory.createIntersectionTypeNode([
-          ts.factory.createTypeReferenceNode(name + "Members"),
-          ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(indexTypeName), typeArguments),
+          ts.factory.createTypeReferenceNode(name + "Members", isSubclass ? typeArguments : undefined),
+          ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(indexTypeName), indexTypeArguments),
           ...declarationSupertypes,
         ]),
       )
@@ -456,11 +540,18 @@ function generateClass(
     const baseName = "Base" + shortName
     createDeclaration(baseName, superTypes, membersBySubclass.get("")!, undefined, undefined)
     const groupSupertypes = [
-      ts.factory.createExpressionWithTypeArguments(ts.factory.createIdentifier(baseName), undefined),
+      ts.factory.createExpressionWithTypeArguments(ts.factory.createIdentifier(baseName), typeArguments),
     ]
     for (const [groupName, subclassMembers] of membersBySubclass) {
       if (groupName === "") continue
-      createDeclaration(toPascalCase(groupName) + shortName, groupSupertypes, subclassMembers, indexTypeName, undefined)
+      createDeclaration(
+        toPascalCase(groupName) + shortName,
+        groupSupertypes,
+        subclassMembers,
+        indexTypeName,
+        undefined,
+        true,
+      )
     }
 
     const allSubclassTypes = Array.from(membersBySubclass.keys())
@@ -471,8 +562,10 @@ function generateClass(
       const unionDeclaration = ts.factory.createTypeAliasDeclaration(
         undefined,
         indexTypeName ? shortName + "Members" : clazz.name,
-        undefined,
-        ts.factory.createUnionTypeNode(allSubclassTypes.map((x) => ts.factory.createTypeReferenceNode(x))),
+        typeParameters,
+        ts.factory.createUnionTypeNode(
+          allSubclassTypes.map((x) => ts.factory.createTypeReferenceNode(x, typeArguments)),
+        ),
       )
       if (!indexTypeName) addJsDoc(context, unionDeclaration, clazz, clazz.name, undefined)
       context.currentFile.add(unionDeclaration)
@@ -499,10 +592,10 @@ function generateClass(
       const declaration = ts.factory.createTypeAliasDeclaration(
         undefined,
         clazz.name,
-        existing?.node.typeParameters,
+        typeParameters,
         ts.factory.createIntersectionTypeNode([
-          ts.factory.createTypeReferenceNode(shortName + "Members"),
-          ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(indexTypeName)),
+          ts.factory.createTypeReferenceNode(shortName + "Members", typeArguments),
+          ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(indexTypeName), indexTypeArguments),
         ]),
       )
       addJsDoc(context, declaration, clazz, clazz.name, undefined)
@@ -7,7 +7,7 @@ import { analyzeConcept, finalizeConceptUsageAnalysis, RWUsage, setReadWriteType
 import { mapConceptType, mapRuntimeType, typeToDeclaration } from "../types.js"
 import { byOrder } from "../util.js"
 import { createVariantParameterTypes } from "../variantParameterGroups.js"
-import { ModuleType } from "../OutputFile.js"
+import { getAlphabeticalShard, ModuleType } from "../OutputFile.js"
 import { RuntimeGenerationContext } from "./index.js"
 import { copyExistingDeclaration } from "../manualDefinitions.js"
 
@@ -87,9 +87,13 @@ function tryGetTableOrArrayConcept(
 export function generateConcepts(context: RuntimeGenerationContext): void {
   context.addFile("concepts", ModuleType.Runtime, () => {
     for (const concept of context.apiDocs.concepts.sort(byOrder)) {
+      context.currentFile.setShard(getAlphabeticalShard(concept.name))
       generateConcept(context, concept)
     }
     // manually added imports for now
+    context.currentFile.addImport("common", "BrandedUnsignedInteger")
+    context.currentFile.addImport("common", "SignedInteger")
+    context.currentFile.addImport("common", "UnsignedInteger")
     context.currentFile.addImport("common", "VersionString")
   })
 }
@@ -155,7 +159,7 @@ function generateConcept(context: RuntimeGenerationContext, concept: Concept): v
     context.currentFile.add(node)
   } else {
     const { mainType, description, altWriteType } = conceptType
-    const mainResult = typeToDeclaration(mainType, concept.name)
+    const mainResult = typeToDeclaration(mainType, concept.name, undefined, existing?.node.typeParameters)
 
     const writeName = `${concept.name}Write`
     let tags: ts.JSDocTag[] | undefined
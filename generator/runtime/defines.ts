@@ -1,12 +1,31 @@
 import ts from "typescript"
-import { addJsDoc } from "../documentation.js"
+import { addJsDoc, getSinceTags } from "../documentation.js"
 import { Define } from "../FactorioRuntimeApiJson.js"
-import { createConst, createNamespace, escapePropertyName, Types } from "../genUtil.js"
+import { createConst, createNamespace, escapePropertyName, Modifiers, Types } from "../genUtil.js"
 import { AnyDef } from "../manualDefinitions.js"
 import { byOrder } from "../util.js"
 import { getMappedEventName } from "./events.js"
 import { ModuleType } from "../OutputFile.js"
 import { RuntimeGenerationContext } from "./index.js"
+import { gateType } from "../apiGating.js"
+
+/**
+ * The `defines` table dumped from the game, e.g. with `game.write_file("defines.json", game.table_to_json(defines))`.
+ */
+export interface DefinesDump {
+  readonly [name: string]: number | DefinesDump
+}
+
+function getDumpedValues(context: RuntimeGenerationContext, path: string): DefinesDump | undefined {
+  let values: number | DefinesDump | undefined = context.definesDump
+  // path starts with "defines."
+  for (const key of path.split(".").slice(1)) {
+    if (values === undefined || typeof values === "number") return undefined
+    values = values[key]
+  }
+  if (typeof values === "number") return undefined
+  return values
+}
 
 export function preprocessDefines(context: RuntimeGenerationContext): void {
   function addDefine(define: Define, parent: string) {
@@ -64,14 +83,14 @@ function generateEventsDefine(context: RuntimeGenerationContext, define: Define)
       context.currentFile.addImport("runtime", typeArg)
     }
 
-    const statement = createConst(
-      m.name,
-      ts.factory.createTypeReferenceNode(
-        "EventId",
-        typeArguments.map((t) => ts.factory.createTypeReferenceNode(t)),
-      ),
+    const eventIdType = ts.factory.createTypeReferenceNode(
+      "EventId",
+      typeArguments.map((t) => ts.factory.createTypeReferenceNode(t)),
     )
-    return addJsDoc(context, statement, { description }, undefined, undefined)
+    const statement = createConst(m.name, gateType(context, "defines.events." + m.name, undefined, eventIdType))
+    return addJsDoc(context, statement, { description }, undefined, {
+      tags: getSinceTags(context, "defines.events." + m.name),
+    })
   })
   const namespace = createNamespace(undefined, define.name, members)
 
@@ -81,12 +100,16 @@ function generateEventsDefine(context: RuntimeGenerationContext, define: Define)
     undefined,
   )
   const keyofTypeof = ts.factory.createTypeOperatorNode(ts.SyntaxKind.KeyOfKeyword, typeofExp)
-  const type = ts.factory.createTypeAliasDeclaration(
-    undefined,
-    "events",
-    undefined,
-    ts.factory.createIndexedAccessTypeNode(typeofExp, keyofTypeof),
-  )
+  let eventIdType: ts.TypeNode = ts.factory.createIndexedAccessTypeNode(typeofExp, keyofTypeof)
+  if (define.values!.some((m) => context.history.getSinceVersion("defines.events." + m.name))) {
+    // exclude version gated events
+    context.currentFile.addImport("common", "NotInTargetFactorioVersion")
+    eventIdType = ts.factory.createTypeReferenceNode("Exclude", [
+      eventIdType,
+      ts.factory.createTypeReferenceNode("NotInTargetFactorioVersion", [Types.string]),
+    ])
+  }
+  const type = ts.factory.createTypeAliasDeclaration(undefined, "events", undefined, eventIdType)
   return [namespace, type]
 }
 
@@ -107,21 +130,32 @@ function generateDefinesDeclaration(
     if (existing && existing.kind !== "enum") {
       throw new Error(`Manual definition for ${thisPath} should be a enum, got ${ts.SyntaxKind[existing.node.kind]}`)
     }
-    const members = define.values
-      .sort(byOrder)
-      .map((m, i) =>
-        addJsDoc(
-          context,
-          ts.factory.createEnumMember(
-            ts.factory.createStringLiteral(m.name),
-            existing?.annotations.numericEnum ? ts.factory.createNumericLiteral(i) : undefined,
-          ),
-          m,
-          thisPath + "." + m.name,
-          undefined,
+    // with real values, a const enum can be inlined by TypeScriptToLua
+    const dumpedValues = context.definesDump && getDumpedValues(context, thisPath)
+    if (context.definesDump && !dumpedValues) context.warning(`No values for ${thisPath} in defines dump`)
+    const members = define.values.sort(byOrder).map((m, i) => {
+      let value: number | undefined
+      if (dumpedValues) {
+        const dumpedValue = dumpedValues[m.name]
+        if (typeof dumpedValue === "number") value = dumpedValue
+        else context.warning(`No value for ${thisPath}.${m.name} in defines dump`)
+      } else if (existing?.annotations.numericEnum) {
+        value = i
+      }
+      return addJsDoc(
+        context,
+        ts.factory.createEnumMember(
+          ts.factory.createStringLiteral(m.name),
+          value !== undefined ? createNumber(value) : undefined,
         ),
+        m,
+        thisPath + "." + m.name,
+        undefined,
       )
-    declarations = [ts.factory.createEnumDeclaration(undefined, define.name, members)]
+    })
+    declarations = [
+      ts.factory.createEnumDeclaration(dumpedValues ? [Modifiers.const] : undefined, define.name, members),
+    ]
   } else if (define.subkeys) {
     if (existing && existing.kind !== "namespace") {
       throw new Error(
@@ -144,6 +178,12 @@ function generateDefinesDeclaration(
   return declarations
 }
 
+function createNumber(value: number): ts.Expression {
+  return value < 0
+    ? ts.factory.createPrefixUnaryExpression(ts.SyntaxKind.MinusToken, ts.factory.createNumericLiteral(-value))
+    : ts.factory.createNumericLiteral(value)
+}
+
 function createRootDefine(context: RuntimeGenerationContext): Define {
   return {
     order: 0,
@@ -0,0 +1,117 @@
+import ts from "typescript"
+import { addFakeJSDoc, escapePropertyName, Modifiers, Types } from "../genUtil.js"
+import { getSubclassMap } from "../prototype/prototypes.js"
+import { byOrder } from "../util.js"
+import { RuntimeGenerationContext } from "./index.js"
+
+// LuaEntity subclasses that don't follow the "<subclass>Prototype" or "<subclass>EntityPrototype" naming
+const subclassPrototypes: Record<string, string[]> = {
+  Ghost: ["EntityGhostPrototype", "TileGhostPrototype"],
+  Spawner: ["EnemySpawnerPrototype"],
+}
+
+function getEntityTypes(context: RuntimeGenerationContext): string[] {
+  const prototypesDefine = context.apiDocs.defines.find((d) => d.name === "prototypes")
+  const entityDefine = prototypesDefine?.subkeys?.find((d) => d.name === "entity")
+  if (!entityDefine?.values) throw new Error("Could not find defines.prototypes.entity")
+  return entityDefine.values.sort(byOrder).map((v) => v.name)
+}
+
+/**
+ * Generates `EntityTypeToClass` and `EntityOfType`, using the prototype hierarchy to find which LuaEntity subclasses
+ * apply to each entity type.
+ */
+export function generateEntityTypeToClass(
+  context: RuntimeGenerationContext,
+  subclassTypeNames: Map<string, string>,
+): void {
+  const prototypeApiDocs = context.prototypeApiDocs
+  if (!prototypeApiDocs) {
+    context.warning("No prototype api docs given, cannot generate EntityTypeToClass")
+    return
+  }
+  const { subclassMap } = getSubclassMap(prototypeApiDocs.prototypes)
+
+  const subclassesByEntityType = new Map<string, { typeName: string; numTypes: number }[]>()
+  for (const [subclass, typeName] of subclassTypeNames) {
+    const prototypeNames = subclassPrototypes[subclass] ?? [subclass + "Prototype", subclass + "EntityPrototype"]
+    const entityTypes = prototypeNames.flatMap((name) => subclassMap.get(name) ?? [])
+    if (entityTypes.length === 0) {
+      context.warning(`Could not find prototype for LuaEntity subclass ${subclass}`)
+      continue
+    }
+    for (const entityType of entityTypes) {
+      let subclasses = subclassesByEntityType.get(entityType)
+      if (!subclasses) subclassesByEntityType.set(entityType, (subclasses = []))
+      subclasses.push({ typeName, numTypes: entityTypes.length })
+    }
+  }
+
+  const members = getEntityTypes(context).map((entityType) => {
+    // most specific subclass first
+    const subclasses = (subclassesByEntityType.get(entityType) ?? []).sort(
+      (a, b) => a.numTypes - b.numTypes || a.typeName.localeCompare(b.typeName),
+    )
+    const types = subclasses.length > 0 ? subclasses.map((s) => s.typeName) : ["BaseEntity"]
+    return ts.factory.createPropertySignature(
+      undefined,
+      escapePropertyName(entityType),
+      undefined,
+      ts.factory.createIntersectionTypeNode(types.map((t) => ts.factory.createTypeReferenceNode(t))),
+    )
+  })
+  const entityTypeToClass = ts.factory.createInterfaceDeclaration(
+    [Modifiers.export],
+    "EntityTypeToClass",
+    undefined,
+    undefined,
+    members,
+  )
+  addFakeJSDoc(
+    entityTypeToClass,
+    ts.factory.createJSDocComment(
+      "Maps each entity type to the intersection of LuaEntity subclass types that apply to it.",
+      [],
+    ),
+  )
+
+  context.currentFile.addImport("prototype", "EntityType")
+  // type EntityOfType<T extends EntityType = EntityType> = T extends EntityType ? EntityTypeToClass[T] & { readonly type: T } : never
+  const typeParameter = ts.factory.createTypeParameterDeclaration(
+    undefined,
+    "T",
+    ts.factory.createTypeReferenceNode("EntityType"),
+    ts.factory.createTypeReferenceNode("EntityType"),
+  )
+  const T = ts.factory.createTypeReferenceNode("T")
+  const entityOfType = ts.factory.createTypeAliasDeclaration(
+    [Modifiers.export],
+    "EntityOfType",
+    [typeParameter],
+    ts.factory.createConditionalTypeNode(
+      T,
+      ts.factory.createTypeReferenceNode("EntityType"),
+      ts.factory.createIntersectionTypeNode([
+        ts.factory.createIndexedAccessTypeNode(ts.factory.createTypeReferenceNode("EntityTypeToClass"), T),
+        ts.factory.createTypeLiteralNode([
+          ts.factory.createPropertySignature([Modifiers.readonly], "type", undefined, T),
+        ]),
+      ]),
+      Types.never,
+    ),
+  )
+  addFakeJSDoc(
+    entityOfType,
+    ts.factory.createJSDocComment(
+      "A LuaEntity of the given entity type(s), with only the members usable for that type.\n\n" +
+        "Without a type argument, this is a union of all entity types, which can be narrowed by checking `type`.\n\n" +
+        "`isEntityType` from `typed-factorio/runtime/entity-types` narrows any entity to this type.",
+      [],
+    ),
+  )
+
+  context.currentFile.add(entityTypeToClass)
+  context.currentFile.add(entityOfType)
+  context.references.set("EntityTypeToClass", "EntityTypeToClass")
+  context.references.set("EntityOfType", "EntityOfType")
+}
@@ -33,7 +33,13 @@ export function generateEvents(context: RuntimeGenerationContext): void {
         heritageClause,
         event.data.sort(byOrder).map((p) => {
           if (p.name === "name" && event.name !== "CustomInputEvent") {
-            p.type = `typeof ${p.type as string}.${event.name}`
+            const eventIdPath = `${p.type as string}.${event.name}`
+            p.type = `typeof ${eventIdPath}`
+            if (context.history.getSinceVersion(eventIdPath)) {
+              // the event id is version gated, but EventData.name must still be an event id
+              context.currentFile.addImport("common", "NotInTargetFactorioVersion")
+              p.type = `Exclude<${p.type}, NotInTargetFactorioVersion<string>>`
+            }
           }
           return mapParameterToProperty(context, p, name, RWUsage.Read, existing).mainProperty
         }),
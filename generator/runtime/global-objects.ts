@@ -5,6 +5,7 @@ import { byOrder } from "../util.js"
 import { createComment, createConst } from "../genUtil.js"
 import { mapRuntimeType } from "../types.js"
 import { addJsDoc } from "../documentation.js"
+import { gateType } from "../apiGating.js"
 import assert from "assert"
 import { Parameter } from "../FactorioRuntimeApiJson"
 
@@ -23,7 +24,12 @@ export function generateGlobalObjects(context: RuntimeGenerationContext): void {
       }
       const definition = createConst(
         globalObject.name,
-        mapRuntimeType(context, globalObject.type, globalObject.name, RWUsage.Read).mainType,
+        gateType(
+          context,
+          globalObject.name,
+          undefined,
+          mapRuntimeType(context, globalObject.type, globalObject.name, RWUsage.Read).mainType,
+        ),
       )
       addJsDoc(context, definition, globalObject, globalObject.name, undefined)
       context.currentFile.add(definition)
@@ -0,0 +1,35 @@
+import ts from "typescript"
+import { addFakeJSDoc, Modifiers, Tokens } from "../genUtil.js"
+import { RuntimeGenerationContext } from "./index.js"
+
+function getWriteType(member: ts.TypeElement): ts.TypeNode | undefined {
+  if (ts.isSetAccessorDeclaration(member)) return member.parameters[0].type
+  if (ts.isPropertySignature(member) && !member.modifiers?.some((m) => m.kind === ts.SyntaxKind.ReadonlyKeyword)) {
+    return member.type
+  }
+  return undefined
+}
+
+/**
+ * Generates `GuiStyleMods`: all writable attributes of LuaStyle, as optional properties.
+ */
+export function generateGuiStyleMods(context: RuntimeGenerationContext, styleMembers: ts.TypeElement[]): void {
+  const properties = styleMembers.flatMap((member) => {
+    const type = getWriteType(member)
+    if (!type || !member.name || !ts.isIdentifier(member.name)) return []
+    return ts.factory.createPropertySignature([Modifiers.readonly], member.name.text, Tokens.question, type)
+  })
+  const declaration = ts.factory.createInterfaceDeclaration(
+    [Modifiers.export],
+    "GuiStyleMods",
+    undefined,
+    undefined,
+    properties,
+  )
+  addFakeJSDoc(
+    declaration,
+    ts.factory.createJSDocComment("Modifications to a {@link LuaStyle}: any of its writable attributes.", []),
+  )
+  context.currentFile.add(declaration)
+  context.references.set("GuiStyleMods", "GuiStyleMods")
+}
@@ -1,7 +1,8 @@
 import ts from "typescript"
 import { addJsDoc } from "../documentation.js"
-import { decapitalize } from "../genUtil.js"
+import { decapitalize, removeLuaPrefix, toPascalCase } from "../genUtil.js"
 import { ModuleType } from "../OutputFile.js"
+import { Type } from "../FactorioRuntimeApiJson.js"
 import { RuntimeGenerationContext } from "./index.js"
 
 export interface IndexType {
@@ -12,6 +13,8 @@ export interface IndexType {
   }
   identificationConcept?: string
   attributePattern?: RegExp
+  // if set, attributePattern only matches members of this class (including method parameters)
+  patternParent?: string
   expectedTypes?: string[] // default uint
 }
 
@@ -70,18 +73,142 @@ export const IndexTypes: IndexType[] = [
   },
 ]
 
+// Attributes that identify an object, in addition to the above, e.g. LuaTrain.id
+const idAttributePattern = /^(id|unique_id|[a-z_]+_number)$/
+
+function isIdType(type: Type): type is "uint" | "uint64" {
+  return type === "uint" || type === "uint64"
+}
+
+/**
+ * Finds identifier families not in {@link IndexTypes}:
+ * - read-only attributes described as unique, e.g. `LuaTrain.id` (`TrainId`) or `LuaItemStack.item_number` (`ItemNumber`).
+ *   References elsewhere are matched by name (`train_id`, `old_train_id_1`).
+ * - ids returned by methods of a class, e.g. `LuaRendering.draw_line` ("Id of the render object": `RenderObjectId`).
+ *   The `id` parameters of methods of the class, and methods returning a list of ids, are matched.
+ */
+function discoverIndexTypes(context: RuntimeGenerationContext): IndexType[] {
+  const known = new Set(IndexTypes.map((t) => t.mainAttributePath.parent + "." + t.mainAttributePath.name))
+  const result: IndexType[] = []
+  for (const clazz of context.apiDocs.classes) {
+    for (const attribute of clazz.attributes) {
+      if (
+        !isIdType(attribute.type) ||
+        attribute.write ||
+        !attribute.name.match(idAttributePattern) ||
+        !attribute.description.match(/\bunique\b/i) ||
+        known.has(clazz.name + "." + attribute.name)
+      )
+        continue
+      const shortName = removeLuaPrefix(clazz.name)
+      const isNumber = attribute.name.endsWith("_number")
+      const referenceName = isNumber
+        ? attribute.name
+        : decapitalize(shortName).replace(/[A-Z]/g, "_$&").toLowerCase() + "_id"
+      result.push({
+        name: isNumber ? toPascalCase(attribute.name) : shortName + "Id",
+        mainAttributePath: { parent: clazz.name, name: attribute.name },
+        attributePattern: new RegExp(`^([a-z]+_)?${referenceName}(_\\d+)?$`),
+        expectedTypes: [attribute.type],
+      })
+    }
+
+    const idMethods = new Map<string, { methods: string[]; type: "uint" | "uint64" }>()
+    for (const method of clazz.methods) {
+      const returnValue = method.return_values.length === 1 ? method.return_values[0] : undefined
+      const match = returnValue?.description.match(/^Id of the ([a-z ]+?)\.?$/i)
+      if (!returnValue || !match || !isIdType(returnValue.type)) continue
+      const name = toPascalCase(match[1]) + "Id"
+      const entry = idMethods.get(name) ?? { methods: [], type: returnValue.type }
+      entry.methods.push(method.name)
+      idMethods.set(name, entry)
+    }
+    for (const [name, { methods, type }] of idMethods) {
+      // e.g. LuaRendering.get_all_ids
+      const listMethods = clazz.methods.filter(
+        (method) =>
+          idMethods.size === 1 &&
+          method.description.match(/\bids\b/) &&
+          method.return_values.some(
+            (r) => typeof r.type === "object" && r.type.complex_type === "array" && r.type.value === type,
+          ),
+      )
+      methods.push(...listMethods.map((method) => method.name))
+      result.push({
+        name,
+        mainAttributePath: { parent: clazz.name, name: methods[0] },
+        attributePattern: new RegExp(`^(id|${methods.join("|")})$`),
+        patternParent: clazz.name,
+        expectedTypes: [type],
+      })
+    }
+  }
+  return result
+}
+
 export function preprocessIndexTypes(context: RuntimeGenerationContext): void {
-  for (const indexType of IndexTypes) {
+  context.indexTypes = [...IndexTypes, ...discoverIndexTypes(context)]
+  for (const indexType of context.indexTypes) {
     context.references.set(indexType.name, indexType.name)
+    context.indexTypeUsages.set(indexType.name, new Set())
+  }
+}
+
+/**
+ * Gets the index type for an attribute, parameter, or return value (with the method name as the member name).
+ * `parent` is the class, event, or concept name, or `Class.method` for method parameters.
+ */
+export function getIndexTypeOfMember(
+  context: RuntimeGenerationContext,
+  member: {
+    name?: string
+    description?: string
+  },
+  parent: string,
+  type: string,
+): IndexType | undefined {
+  for (const indexType of context.indexTypes) {
+    const expectedType = indexType.expectedTypes ?? ["uint"]
+    if (!expectedType.includes(type)) continue
+    const { parent: mainParent, name: mainName } = indexType.mainAttributePath
+    if (
+      (mainParent === parent && member.name === mainName) ||
+      parent === mainParent + "." + mainName ||
+      (indexType.attributePattern &&
+        member.name?.match(indexType.attributePattern) &&
+        (!indexType.patternParent ||
+          parent === indexType.patternParent ||
+          parent.startsWith(indexType.patternParent + "."))) ||
+      // e.g. "The [unit_number](runtime:LuaEntity::unit_number) of the entity contained in this ghost."
+      member.description?.includes(`(runtime:${mainParent}::${mainName})`)
+    ) {
+      context.indexTypeUsages.get(indexType.name)!.add(member.name ? parent + "." + member.name : parent)
+      return indexType
+    }
+  }
+  return undefined
+}
+
+function printIndexTypesReport(context: RuntimeGenerationContext) {
+  console.log("index types:")
+  for (const indexType of context.indexTypes) {
+    const { parent, name } = indexType.mainAttributePath
+    const discovered = IndexTypes.includes(indexType) ? "" : ", discovered"
+    console.log(`  ${indexType.name} (${parent}.${name}${discovered})`)
+    for (const usage of [...context.indexTypeUsages.get(indexType.name)!].sort()) {
+      console.log(`    ${usage}`)
+    }
   }
 }
 
 export function generateIndexTypesFile(context: RuntimeGenerationContext): void {
   context.addFile("index-types", ModuleType.Runtime, () => {
-    for (const indexType of IndexTypes) {
-      // type ${name} = uint & { _${name}Brand: void }
+    context.currentFile.addImport("common", "BrandedUnsignedInteger")
+    for (const indexType of context.indexTypes) {
+      // type ${name} = BrandedUnsignedInteger & { _${name}Brand: void }
+      // not uint, which also includes integer literals with StrictNumericTypes
       const typeNode = ts.factory.createIntersectionTypeNode([
-        ts.factory.createTypeReferenceNode(indexType.expectedTypes?.[0] ?? "uint"),
+        ts.factory.createTypeReferenceNode("BrandedUnsignedInteger"),
         ts.factory.createTypeLiteralNode([
           ts.factory.createPropertySignature(
             undefined,
@@ -98,4 +225,5 @@ export function generateIndexTypesFile(context: RuntimeGenerationContext): void
       context.currentFile.add(statement)
     }
   })
+  if (context.options.indexTypesReport) printIndexTypesReport(context)
 }
@@ -9,15 +9,18 @@ import {
   Type,
 } from "../FactorioRuntimeApiJson.js"
 import { RWUsage } from "../read-write-types.js"
+import { getPrototypeIdTypes } from "../prototypeNames.js"
 import ts from "typescript"
 import { GenerationContext } from "../GenerationContext.js"
 import { generateGlobalFunctions, preprocessGlobalFunctions } from "./others.js"
-import { generateDefines, preprocessDefines } from "./defines.js"
+import { DefinesDump, generateDefines, preprocessDefines } from "./defines.js"
 import { generateEvents, preprocessEvents } from "./events.js"
 import { generateClasses, preprocessClasses } from "./classes.js"
 import { generateConcepts, preprocessConcepts } from "./concepts.js"
-import { generateIndexTypesFile, preprocessIndexTypes } from "./index-types.js"
+import { generateIndexTypesFile, IndexType, preprocessIndexTypes } from "./index-types.js"
 import { generateGlobalObjects, preprocessGlobalObjects } from "./global-objects.js"
+import { generateJsx } from "./jsx.js"
+import { FactorioPrototypeApiJson } from "../FactorioPrototypeApiJson.js"
 
 export class RuntimeGenerationContext extends GenerationContext<FactorioRuntimeApiJson> {
   stageName = "runtime"
@@ -31,6 +34,18 @@ export class RuntimeGenerationContext extends GenerationContext<FactorioRuntimeA
 
   numericTypes = new Set<string>()
 
+  /** Hard-coded and discovered index types, set in preprocessing. */
+  indexTypes: IndexType[] = []
+  /** Index type name -> members it was applied to. */
+  indexTypeUsages = new Map<string, Set<string>>()
+
+  /** Set before generation; used to relate entity types to LuaEntity subclasses. */
+  prototypeApiDocs: FactorioPrototypeApiJson | undefined
+  /** Prototype -> `*ID` type naming it, from prototypeApiDocs; set in preprocessing. */
+  prototypeIdTypes = new Map<string, string>()
+  /** Set before generation, if there is a defines dump for this version; gives values for defines. */
+  definesDump: DefinesDump | undefined
+
   conceptUsageAnalysis = new ConceptUsageAnalysis(this.apiDocs.concepts)
 
   tryGetTypeOfReference(reference: string): Type | undefined {
@@ -71,6 +86,7 @@ export class RuntimeGenerationContext extends GenerationContext<FactorioRuntimeA
   }
 
   preprocessAll(): void {
+    if (this.prototypeApiDocs) this.prototypeIdTypes = getPrototypeIdTypes(this.prototypeApiDocs)
     preprocessGlobalObjects(this)
     preprocessGlobalFunctions(this)
     preprocessDefines(this)
@@ -87,6 +103,7 @@ export class RuntimeGenerationContext extends GenerationContext<FactorioRuntimeA
     generateClasses(this)
     generateConcepts(this)
     generateIndexTypesFile(this)
+    generateJsx(this)
   }
 }
 
@@ -0,0 +1,78 @@
+import ts from "typescript"
+import { addFakeJSDoc, createNamespace, escapePropertyName, toPascalCase, Tokens, Types } from "../genUtil.js"
+import { ModuleType } from "../OutputFile.js"
+import { tryGetStringEnumType } from "../variantParameterGroups.js"
+import { RuntimeGenerationContext } from "./index.js"
+
+// Generates JSX intrinsic elements for gui elements; included by the "typed-factorio/jsx" entrypoint.
+export function generateJsx(context: RuntimeGenerationContext): void {
+  context.addFile("jsx", ModuleType.Global, () => {
+    context.currentFile.add(createNamespace(undefined, "JSX", [createGuiEventHandlers(), createIntrinsicElements()]))
+  })
+
+  function createGuiEventHandlers() {
+    // on_gui_click?: (event: OnGuiClickEvent) => void
+    const members = context.apiDocs.events
+      .filter((event) => event.name.startsWith("on_gui_") && event.data.some((p) => p.name === "element"))
+      .map((event) => {
+        const eventType = context.references.get(event.name)!
+        context.currentFile.addImport("runtime", eventType)
+        const handlerType = ts.factory.createFunctionTypeNode(
+          undefined,
+          [
+            ts.factory.createParameterDeclaration(
+              undefined,
+              undefined,
+              "event",
+              undefined,
+              ts.factory.createTypeReferenceNode(eventType),
+            ),
+          ],
+          Types.void,
+        )
+        return ts.factory.createPropertySignature(undefined, event.name, Tokens.question, handlerType)
+      })
+    const declaration = ts.factory.createInterfaceDeclaration(
+      undefined,
+      "GuiEventHandlers",
+      undefined,
+      undefined,
+      members,
+    )
+    addFakeJSDoc(declaration, ts.factory.createJSDocComment("Handlers for gui events of an element.", []))
+    return declaration
+  }
+
+  function createIntrinsicElements() {
+    // button: GuiIntrinsicProps<ButtonGuiSpec>
+    const elementTypes = tryGetStringEnumType(
+      context,
+      "GuiElementType",
+      ts.factory.createTypeReferenceNode("GuiElementType"),
+    )
+    if (!elementTypes) throw new Error("Could not get values of GuiElementType")
+    const members = elementTypes.map((type) => {
+      const variantSpec = toPascalCase(type) + "GuiSpec"
+      const specType = context.references.has(variantSpec) ? variantSpec : "OtherGuiSpec"
+      context.currentFile.addImport("runtime", specType)
+      return ts.factory.createPropertySignature(
+        undefined,
+        escapePropertyName(type),
+        undefined,
+        ts.factory.createTypeReferenceNode("GuiIntrinsicProps", [ts.factory.createTypeReferenceNode(specType)]),
+      )
+    })
+    const declaration = ts.factory.createInterfaceDeclaration(
+      undefined,
+      "IntrinsicElements",
+      undefined,
+      undefined,
+      members,
+    )
+    addFakeJSDoc(
+      declaration,
+      ts.factory.createJSDocComment("Gui elements, with props from their {@link GuiSpec} type.", []),
+    )
+    return declaration
+  }
+}
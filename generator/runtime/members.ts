@@ -8,6 +8,7 @@ import { analyzeType, getUsage, RWUsage } from "../read-write-types.js"
 import { makeNullable, mapMemberType, mapRuntimeType, RWType } from "../types.js"
 import { byOrder, getFirst } from "../util.js"
 import { createVariantParameterTypes } from "../variantParameterGroups.js"
+import { gateMember, gateParameters } from "../apiGating.js"
 import { RuntimeGenerationContext } from "./index.js"
 
 export function analyzeMethod(context: RuntimeGenerationContext, method: Method): void {
@@ -33,8 +34,6 @@ export function mapAttribute(
   parent: string,
   existingContainer: InterfaceDef | TypeAliasDef | undefined,
 ): ts.TypeElement | ts.TypeElement[] {
-  context.warnIfHasVisibility(attribute)
-
   let member: ts.TypeElement | ts.TypeElement[]
   const existing = existingContainer?.members[attribute.name]
   const type = mapMemberType(
@@ -85,8 +84,13 @@ export function mapAttribute(
       type.mainType,
     )
   }
+  const thisPath = parent + "." + attribute.name
+  const visibility = attribute.visibility ?? context.classes.get(parent)?.visibility
+  member = Array.isArray(member)
+    ? member.map((m) => gateMember(context, thisPath, visibility, m))
+    : gateMember(context, thisPath, visibility, member)
   const first = Array.isArray(member) ? member[0] : member
-  addJsDoc(context, first, attribute, parent + "." + attribute.name)
+  addJsDoc(context, first, attribute, thisPath)
   return member
 }
 
@@ -210,8 +214,6 @@ export function mapMethod(
   parent: string,
   existingContainer: InterfaceDef | TypeAliasDef | undefined,
 ): ts.MethodSignature[] {
-  context.warnIfHasVisibility(method)
-
   const existingMethods = existingContainer?.members[method.name]
   const firstExistingMethod = existingMethods?.[0]
   const thisPath = parent ? parent + "." + method.name : method.name
@@ -268,9 +270,10 @@ export function mapMethod(
       }),
     )
   }
-  const firstSignature = getFirst(signatures)
-  addMethodJSDoc(context, firstSignature, method, thisPath, additionalDescription)
-  return signatures
+  const visibility = method.visibility ?? context.classes.get(parent)?.visibility
+  const gatedSignatures = signatures.map((s) => gateMember(context, thisPath, visibility, s))
+  addMethodJSDoc(context, getFirst(gatedSignatures), method, thisPath, additionalDescription)
+  return gatedSignatures
 }
 
 export function mapFunction(context: RuntimeGenerationContext, method: Method): ts.FunctionDeclaration {
@@ -281,7 +284,7 @@ export function mapFunction(context: RuntimeGenerationContext, method: Method):
     undefined,
     method.name,
     undefined,
-    parameters,
+    gateParameters(context, method.name, undefined, parameters),
     returnType,
     undefined,
   )
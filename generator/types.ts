@@ -4,7 +4,7 @@ import { addJsDoc } from "./documentation.js"
 
 import type * as prototype from "./FactorioPrototypeApiJson.js"
 import type * as runtime from "./FactorioRuntimeApiJson.js"
-import { IndexTypes } from "./runtime/index-types.js"
+import { getIndexTypeOfMember } from "./runtime/index-types.js"
 import { escapePropertyName, indent, Modifiers, printNode, Tokens, Types } from "./genUtil.js"
 import { InterfaceDef, TypeAliasDef } from "./manualDefinitions.js"
 import { mapAttribute, mapParameterToProperty } from "./runtime/members.js"
@@ -14,6 +14,7 @@ import { RuntimeGenerationContext } from "./runtime"
 import { GenerationContext } from "./GenerationContext.js"
 import { PrototypeGenerationContext } from "./prototype"
 import { getTypeAsPrototypeSubtypes } from "./prototypeSubclassTypes.js"
+import { getPrototypeOfRuntimeClass } from "./prototypeNames.js"
 
 export interface TypeContext {
   contextName?: string
@@ -279,11 +280,13 @@ function tryUseIndexTypeFromBasicType(
   type: string,
   typeContext: TypeContext | undefined,
 ): IntermediateType | undefined {
-  if (!typeContext || !type.startsWith("uint")) return undefined
-  for (const indexType of IndexTypes) {
+  const conceptName = typeContext?.contextName
+  if (!conceptName || !type.startsWith("uint")) return undefined
+  for (const indexType of context.indexTypes) {
     const expectedType = indexType.expectedTypes ?? ["uint"]
     if (!expectedType.includes(type)) continue
-    if (typeContext.contextName === indexType.identificationConcept) {
+    if (conceptName === indexType.identificationConcept) {
+      context.indexTypeUsages.get(indexType.name)!.add(conceptName)
       return {
         mainType: createTypeNode(context, indexType.name),
         asString: indexType.name,
@@ -613,7 +616,7 @@ function mapLuaCustomTableType(
   usage: RWUsage,
 ): IntermediateType {
   assertIsRuntimeGenerationContext(context)
-  const keyType = mapTypeInternal(context, type.key, undefined, usage)
+  const keyType = tryUsePrototypeIdKey(context, type) ?? mapTypeInternal(context, type.key, undefined, usage)
   const valueType = mapTypeInternal(context, type.value, undefined, usage)
   if (keyType.description || valueType.description) {
     context.warning("LuaCustomTable type has element with description: " + JSON.stringify(type))
@@ -627,6 +630,22 @@ function mapLuaCustomTableType(
   }
 }
 
+// e.g. LuaCustomTable<ItemID, LuaItemPrototype>
+function tryUsePrototypeIdKey(
+  context: RuntimeGenerationContext,
+  type: runtime.DictionaryType,
+): IntermediateType | undefined {
+  if (type.key !== "string" || typeof type.value !== "string") return
+  const prototype = getPrototypeOfRuntimeClass(type.value, context.prototypeIdTypes)
+  if (!prototype) return
+  const idType = context.prototypeIdTypes.get(prototype)!
+  context.currentFile.addImport("prototype", idType)
+  return {
+    mainType: ts.factory.createTypeReferenceNode(idType),
+    asString: undefined,
+  }
+}
+
 function mapFunctionType(context: GenerationContext, type: runtime.FunctionType): IntermediateType {
   assertIsRuntimeGenerationContext(context)
   const parameters = type.parameters.map((value, index) => {
@@ -789,22 +808,19 @@ function tryUseIndexType(
   context: RuntimeGenerationContext,
   member: {
     name?: string
+    description?: string
   },
   parent: string,
   type: runtime.Type,
 ): RWType | undefined {
-  if (!(typeof type === "string" && type.startsWith("uint"))) return
-  for (const indexType of IndexTypes) {
-    const expectedType = indexType.expectedTypes ?? ["uint"]
-    if (!expectedType.includes(type)) continue
-    if (
-      (indexType.mainAttributePath.parent === parent && member.name === indexType.mainAttributePath.name) ||
-      parent === indexType.mainAttributePath.parent + "." + indexType.mainAttributePath.name ||
-      (indexType.attributePattern && member.name?.match(indexType.attributePattern))
-    ) {
-      return mapBasicType(context, indexType.name, undefined, RWUsage.Read)
-    }
+  // e.g. LuaRendering.get_all_ids
+  if (typeof type === "object" && type.complex_type === "array") {
+    const elementType = tryUseIndexType(context, member, parent, type.value)
+    return elementType && { mainType: ts.factory.createArrayTypeNode(elementType.mainType) }
   }
+  if (!(typeof type === "string" && type.startsWith("uint"))) return
+  const indexType = getIndexTypeOfMember(context, member, parent, type)
+  if (indexType) return mapBasicType(context, indexType.name, undefined, RWUsage.Read)
 }
 
 function tryUseStringUnion(
@@ -922,13 +938,20 @@ export function typeToDeclaration(
   type: ts.TypeNode,
   name: string,
   heritageClauses?: ts.HeritageClause[],
+  typeParameters?: readonly ts.TypeParameterDeclaration[],
 ): ts.InterfaceDeclaration | ts.TypeAliasDeclaration {
   if (ts.isTypeLiteralNode(type)) {
-    return ts.factory.createInterfaceDeclaration([Modifiers.export], name, undefined, heritageClauses, type.members)
+    return ts.factory.createInterfaceDeclaration(
+      [Modifiers.export],
+      name,
+      typeParameters,
+      heritageClauses,
+      type.members,
+    )
   } else {
     if (heritageClauses) {
       throw new Error("Cannot have heritage clauses on non-interface")
     }
-    return ts.factory.createTypeAliasDeclaration([Modifiers.export], name, undefined, type)
+    return ts.factory.createTypeAliasDeclaration([Modifiers.export], name, typeParameters, type)
   }
 }
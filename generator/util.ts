@@ -10,3 +10,14 @@ export function getFirst<T>(elemOrArray: T | T[]): T {
   if (Array.isArray(elemOrArray)) return elemOrArray[0]
   return elemOrArray
 }
+
+/** Compares "major.minor.patch" version strings numerically. */
+export function compareVersions(a: string, b: string): number {
+  const aParts = a.split(".").map(Number)
+  const bParts = b.split(".").map(Number)
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] ?? 0) - (bParts[i] ?? 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
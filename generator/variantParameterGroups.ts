@@ -2,7 +2,7 @@ import assert from "assert"
 import ts from "typescript"
 import { addJsDoc, processDescription } from "./documentation.js"
 import { LiteralType, Parameter, ParameterGroup, Type, WithVariantParameterGroups } from "./FactorioRuntimeApiJson.js"
-import { createExtendsClause, Modifiers, removeLuaPrefix, toPascalCase, Types } from "./genUtil.js"
+import { Modifiers, removeLuaPrefix, toPascalCase, Types } from "./genUtil.js"
 import { mapParameterToProperty } from "./runtime/members.js"
 import { RWUsage } from "./read-write-types.js"
 import { byOrder } from "./util.js"
@@ -23,6 +23,14 @@ export function createVariantParameterTypes(
   const baseName = "Base" + shortName
   context.references.set(baseName, name)
   const existingBase = context.manualDefs.getDeclaration(baseName)
+  // type parameters of a manually defined base type are added to all variants
+  const typeParameters = existingBase?.node.typeParameters
+  const typeArguments = typeParameters?.map((p) => ts.factory.createTypeReferenceNode(p.name))
+  const variantHeritageClause = [
+    ts.factory.createHeritageClause(ts.SyntaxKind.ExtendsKeyword, [
+      ts.factory.createExpressionWithTypeArguments(ts.factory.createIdentifier(baseName), typeArguments),
+    ]),
+  ]
 
   value.variant_parameter_groups!.sort(byOrder)
 
@@ -39,7 +47,7 @@ export function createVariantParameterTypes(
     const baseDeclaration = ts.factory.createInterfaceDeclaration(
       [Modifiers.export],
       baseName,
-      undefined,
+      typeParameters,
       undefined,
       baseProperties.map((g) => g.member.mainProperty),
     )
@@ -98,8 +106,8 @@ export function createVariantParameterTypes(
         ts.factory.createInterfaceDeclaration(
           [Modifiers.export],
           variantName,
-          undefined,
-          createExtendsClause(baseName),
+          typeParameters,
+          variantHeritageClause,
           readMembers,
         ),
       )
@@ -112,8 +120,8 @@ export function createVariantParameterTypes(
           ts.factory.createInterfaceDeclaration(
             [Modifiers.export],
             variantName + "Write",
-            undefined,
-            createExtendsClause(baseName),
+            typeParameters,
+            variantHeritageClause,
             writeMembers,
           ),
         )
@@ -135,11 +143,11 @@ export function createVariantParameterTypes(
   const unionDeclaration: ts.TypeAliasDeclaration = ts.factory.createTypeAliasDeclaration(
     [Modifiers.export],
     name,
-    undefined,
+    typeParameters,
     ts.factory.createUnionTypeNode(
       value
         .variant_parameter_groups!.map((x) => variantToTypeName(x.name))
-        .map((x) => ts.factory.createTypeReferenceNode(x)),
+        .map((x) => ts.factory.createTypeReferenceNode(x, typeArguments)),
     ),
   )
   resultDeclarations.push(unionDeclaration)
@@ -149,8 +157,8 @@ export function createVariantParameterTypes(
     writeUnionDeclaration = ts.factory.createTypeAliasDeclaration(
       [Modifiers.export],
       name + "Write",
-      undefined,
-      ts.factory.createUnionTypeNode(writeTypeNames.map((x) => ts.factory.createTypeReferenceNode(x))),
+      typeParameters,
+      ts.factory.createUnionTypeNode(writeTypeNames.map((x) => ts.factory.createTypeReferenceNode(x, typeArguments))),
     )
     resultDeclarations.push(writeUnionDeclaration)
   }
@@ -0,0 +1,29 @@
+// Optionally include this file (as "typed-factorio/jsx") to declare JSX intrinsic elements for gui elements.
+// The JSX factory function should create an Element from the element type, props, and children.
+
+/// <reference path="../runtime/generated/jsx.d.ts" />
+
+declare namespace JSX {
+  /**
+   * A gui element created with JSX, as a {@link GuiTreeSpec}.
+   */
+  type Element = import("factorio:runtime").GuiTreeSpec
+
+  interface ElementChildrenAttribute {
+    children: {}
+  }
+
+  /**
+   * Props common to all gui elements.
+   */
+  interface GuiElementProps extends GuiEventHandlers {
+    children?: Element | Element[]
+    style_mods?: import("factorio:runtime").GuiStyleMods
+    ref?: string | readonly string[]
+  }
+
+  /**
+   * Props of a gui element with the given {@link GuiSpec} type.
+   */
+  type GuiIntrinsicProps<Spec> = Spec extends unknown ? Omit<Spec, "type"> & GuiElementProps : never
+}
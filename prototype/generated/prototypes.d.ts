@@ -2,7 +2,7 @@
 
 /** @noSelfInFile */
 
-import type { CustomInputName } from "factorio:common"
+import type { CustomInputName, NotInTargetFactorioVersion, NotInTargetGameEdition } from "factorio:common"
 
 /**
  * @noResolution
@@ -1055,7 +1055,7 @@ declare module "factorio:prototype" {
      * energy_usage = "480kW"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/BeaconPrototype.html#energy_usage Online documentation}
      */
-    energy_usage: Energy
+    energy_usage: Power
     energy_source: ElectricEnergySource | VoidEnergySource
     /**
      * The maximum distance that this beacon can supply its neighbors with its module's effects. Max distance is 64.
@@ -1198,7 +1198,7 @@ declare module "factorio:prototype" {
      * The continuous power consumption of the belt immunity equipment.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/BeltImmunityEquipmentPrototype.html#energy_consumption Online documentation}
      */
-    energy_consumption: Energy
+    energy_consumption: Power
   }
   /**
    * A {@linkplain https://wiki.factorio.com/Blueprint_book blueprint book}.
@@ -1342,7 +1342,7 @@ declare module "factorio:prototype" {
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/BoilerPrototype.html#output_fluid_box Online documentation}
      */
     output_fluid_box: FluidBox
-    energy_consumption: Energy
+    energy_consumption: Power
     /**
      * Controls for how many ticks the boiler will show the fire and fire_glow after the energy source runs out of energy.
      *
@@ -1466,7 +1466,7 @@ declare module "factorio:prototype" {
      * How much energy this generator can produce.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/BurnerGeneratorPrototype.html#max_power_output Online documentation}
      */
-    max_power_output: Energy
+    max_power_output: Power
     /**
      * Plays when the generator is inactive. Idle animation must have the same frame count as `animation`.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/BurnerGeneratorPrototype.html#idle_animation Online documentation}
@@ -1521,7 +1521,7 @@ declare module "factorio:prototype" {
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/CarPrototype.html#effectivity Online documentation}
      */
     effectivity: double
-    consumption: Energy
+    consumption: Power
     rotation_speed: double
     /**
      * Must be a burner energy source when using `"burner"`, otherwise it can also be a void energy source.
@@ -1899,7 +1899,7 @@ declare module "factorio:prototype" {
      * active_energy_usage = "1KW"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/CombinatorPrototype.html#active_energy_usage Online documentation}
      */
-    active_energy_usage: Energy
+    active_energy_usage: Power
     sprites?: Sprite4Way
     activity_led_sprites?: Sprite4Way
     input_connection_bounding_box: BoundingBox
@@ -2314,7 +2314,7 @@ declare module "factorio:prototype" {
      * energy_usage = "90kW"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/CraftingMachinePrototype.html#energy_usage Online documentation}
      */
-    energy_usage: Energy
+    energy_usage: Power
     /**
      * How fast this crafting machine can craft. 1 means that for example a 1 second long recipe take 1 second to craft. 0.5 means it takes 2 seconds, and 2 means it takes 0.5 seconds.
      *
@@ -2918,7 +2918,7 @@ declare module "factorio:prototype" {
      * **Default:** `"0J"`
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/DontUseEntityInEnergyProductionAchievementPrototype.html#minimum_energy_produced Online documentation}
      */
-    minimum_energy_produced?: Energy
+    minimum_energy_produced?: EnergyAmount
   }
   /**
    * Properties of the editor controller.
@@ -2974,14 +2974,14 @@ declare module "factorio:prototype" {
      * energy_production = "500GW"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/ElectricEnergyInterfacePrototype.html#energy_production Online documentation}
      */
-    energy_production?: Energy
+    energy_production?: Power
     /**
      * **Default:** `0`
      * @example
      * energy_usage = "10kW"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/ElectricEnergyInterfacePrototype.html#energy_usage Online documentation}
      */
-    energy_usage?: Energy
+    energy_usage?: Power
     /**
      * **Default:** `"none"`
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/ElectricEnergyInterfacePrototype.html#gui_mode Online documentation}
@@ -3186,7 +3186,7 @@ declare module "factorio:prototype" {
   export interface EnergyShieldEquipmentPrototype extends EquipmentPrototype {
     type: "energy-shield-equipment"
     max_shield_value: float
-    energy_per_shield: Energy
+    energy_per_shield: EnergyAmount
   }
   /**
    * The entity used for ghosts of entities. In-game, the inner entity (the entity this is a ghost of) is rendered with a {@link UtilityConstants#ghost_tint UtilityConstants::ghost_tint}.
@@ -4577,14 +4577,14 @@ declare module "factorio:prototype" {
      * heat_capacity = "0.2KJ"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/FluidPrototype.html#heat_capacity Online documentation}
      */
-    heat_capacity?: Energy
+    heat_capacity?: EnergyAmount
     /**
      * **Default:** `"0J"`
      * @example
      * fuel_value = "3MJ"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/FluidPrototype.html#fuel_value Online documentation}
      */
-    fuel_value?: Energy
+    fuel_value?: EnergyAmount
     /**
      * **Default:** `1`
      *
@@ -4844,7 +4844,7 @@ declare module "factorio:prototype" {
      * max_energy = "1.5MJ"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/FlyingRobotPrototype.html#max_energy Online documentation}
      */
-    max_energy?: Energy
+    max_energy?: EnergyAmount
     /**
      * **Default:** `0`
      *
@@ -4855,7 +4855,7 @@ declare module "factorio:prototype" {
      * energy_per_move = "5kJ"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/FlyingRobotPrototype.html#energy_per_move Online documentation}
      */
-    energy_per_move?: Energy
+    energy_per_move?: EnergyAmount
     /**
      * **Default:** `0`
      *
@@ -4866,7 +4866,7 @@ declare module "factorio:prototype" {
      * energy_per_tick = "0.05kJ"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/FlyingRobotPrototype.html#energy_per_tick Online documentation}
      */
-    energy_per_tick?: Energy
+    energy_per_tick?: EnergyAmount
     /**
      * **Default:** `0.2`
      *
@@ -5096,7 +5096,7 @@ declare module "factorio:prototype" {
      * power = "750kW"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/GeneratorEquipmentPrototype.html#power Online documentation}
      */
-    power: Energy
+    power: Power
     /**
      * If not defined, this equipment produces power for free.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/GeneratorEquipmentPrototype.html#burner Online documentation}
@@ -5184,7 +5184,7 @@ declare module "factorio:prototype" {
      * `fluid_box` must have a filter if this is not defined.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/GeneratorPrototype.html#max_power_output Online documentation}
      */
-    max_power_output?: Energy
+    max_power_output?: Power
   }
   /**
    * Properties of the god controller.
@@ -5408,12 +5408,12 @@ declare module "factorio:prototype" {
      * **Default:** `0`
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/InserterPrototype.html#energy_per_movement Online documentation}
      */
-    energy_per_movement?: Energy
+    energy_per_movement?: EnergyAmount
     /**
      * **Default:** `0`
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/InserterPrototype.html#energy_per_rotation Online documentation}
      */
-    energy_per_rotation?: Energy
+    energy_per_rotation?: EnergyAmount
     /**
      * **Default:** `false`
      *
@@ -5770,7 +5770,7 @@ declare module "factorio:prototype" {
      * fuel_value = "12MJ"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/ItemPrototype.html#fuel_value Online documentation}
      */
-    fuel_value?: Energy
+    fuel_value?: EnergyAmount
     /**
      * **Default:** `1`
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/ItemPrototype.html#fuel_acceleration_multiplier Online documentation}
@@ -6062,7 +6062,7 @@ declare module "factorio:prototype" {
      * The amount of energy this lab uses.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/LabPrototype.html#energy_usage Online documentation}
      */
-    energy_usage: Energy
+    energy_usage: Power
     /**
      * Defines how this lab gets energy.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/LabPrototype.html#energy_source Online documentation}
@@ -6219,7 +6219,7 @@ declare module "factorio:prototype" {
      * The amount of energy the lamp uses. Must be greater than > 0.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/LampPrototype.html#energy_usage_per_tick Online documentation}
      */
-    energy_usage_per_tick: Energy
+    energy_usage_per_tick: Power
     /**
      * The emissions set on the energy source are ignored so lamps cannot produce pollution.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/LampPrototype.html#energy_source Online documentation}
@@ -6553,7 +6553,7 @@ declare module "factorio:prototype" {
      * Energy in Joules. Can't be negative.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/LoaderPrototype.html#energy_per_item Online documentation}
      */
-    energy_per_item?: Energy
+    energy_per_item?: EnergyAmount
     /**
      * **Default:** ``{"object-layer", "item-layer", "transport-belt-layer", "water-tile"}``
      *
@@ -6568,7 +6568,7 @@ declare module "factorio:prototype" {
    */
   export interface LocomotivePrototype extends RollingStockPrototype {
     type: "locomotive"
-    max_power: Energy
+    max_power: Power
     reversing_power_modifier: double
     /**
      * Must be a burner energy source when using "burner", otherwise it can also be a void energy source.
@@ -6817,7 +6817,7 @@ declare module "factorio:prototype" {
      * energy_usage = "150kW"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/MiningDrillPrototype.html#energy_usage Online documentation}
      */
-    energy_usage: Energy
+    energy_usage: Power
     /**
      * The speed of this drill.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/MiningDrillPrototype.html#mining_speed Online documentation}
@@ -7043,7 +7043,7 @@ declare module "factorio:prototype" {
    */
   export interface MovementBonusEquipmentPrototype extends EquipmentPrototype {
     type: "movement-bonus-equipment"
-    energy_consumption: Energy
+    energy_consumption: Power
     /**
      * Multiplier of the character speed/vehicle acceleration.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/MovementBonusEquipmentPrototype.html#movement_bonus Online documentation}
@@ -7138,7 +7138,7 @@ declare module "factorio:prototype" {
    */
   export interface NightVisionEquipmentPrototype extends EquipmentPrototype {
     type: "night-vision-equipment"
-    energy_input: Energy
+    energy_input: Power
     color_lookup: DaytimeColorLookupTable
     /**
      * **Default:** `0.5`
@@ -7606,7 +7606,7 @@ declare module "factorio:prototype" {
   export interface ProgrammableSpeakerPrototype extends EntityWithOwnerPrototype {
     type: "programmable-speaker"
     energy_source: ElectricEnergySource | VoidEnergySource
-    energy_usage_per_tick: Energy
+    energy_usage_per_tick: Power
     sprite: Sprite
     maximum_polyphony: uint32
     /**
@@ -7752,7 +7752,7 @@ declare module "factorio:prototype" {
      * For a list of all possible types, see the {@linkplain https://lua-api.factorio.com/1.1.110/prototypes.html prototype overview}.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/PrototypeBase.html#type Online documentation}
      */
-    type: keyof PrototypeMap
+    type: keyof PrototypeMap | NotInTargetFactorioVersion<string> | NotInTargetGameEdition<string>
     /**
      * Unique textual identification of the prototype. May not contain a dot, nor exceed a length of 200 characters.
      *
@@ -7798,7 +7798,7 @@ declare module "factorio:prototype" {
      * The amount of energy the pump uses.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/PumpPrototype.html#energy_usage Online documentation}
      */
-    energy_usage: Energy
+    energy_usage: Power
     /**
      * The amount of fluid this pump transfers per tick.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/PumpPrototype.html#pumping_speed Online documentation}
@@ -7878,14 +7878,14 @@ declare module "factorio:prototype" {
      * energy_usage = "300kW"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RadarPrototype.html#energy_usage Online documentation}
      */
-    energy_usage: Energy
+    energy_usage: Power
     /**
      * The amount of energy it takes to scan a sector. This value doesn't have any effect on nearby scanning.
      * @example
      * energy_per_sector = "10MJ"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RadarPrototype.html#energy_per_sector Online documentation}
      */
-    energy_per_sector: Energy
+    energy_per_sector: EnergyAmount
     /**
      * The amount of energy the radar has to consume for nearby scan to be performed. This value doesn't have any effect on sector scanning.
      *
@@ -7894,7 +7894,7 @@ declare module "factorio:prototype" {
      * energy_per_nearby_scan = "250kJ"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RadarPrototype.html#energy_per_nearby_scan Online documentation}
      */
-    energy_per_nearby_scan: Energy
+    energy_per_nearby_scan: EnergyAmount
     /**
      * The energy source for this radar.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RadarPrototype.html#energy_source Online documentation}
@@ -8116,7 +8116,7 @@ declare module "factorio:prototype" {
      * How much energy this reactor can consume (from the input energy source) and then output as heat.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/ReactorPrototype.html#consumption Online documentation}
      */
-    consumption: Energy
+    consumption: Power
     /**
      * If defined, number of variations must be at least equal to count of {@link HeatBuffer#connections connections} defined in `heat_buffer`. Each variation represents connected heat buffer connection of corresponding index.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/ReactorPrototype.html#connection_patches_connected Online documentation}
@@ -8857,7 +8857,7 @@ declare module "factorio:prototype" {
      * charging_energy = "1000kW"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RoboportEquipmentPrototype.html#charging_energy Online documentation}
      */
-    charging_energy: Energy
+    charging_energy: Power
     /**
      * **Default:** `0`
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RoboportEquipmentPrototype.html#spawn_and_station_shadow_height_offset Online documentation}
@@ -8933,7 +8933,7 @@ declare module "factorio:prototype" {
      * Minimum amount of energy that needs to available inside the roboport's buffer so that robots can be spawned.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RoboportEquipmentPrototype.html#spawn_minimum Online documentation}
      */
-    spawn_minimum?: Energy
+    spawn_minimum?: EnergyAmount
     /**
      * Add this is if the roboport should be fueled directly instead of using power from the equipment grid.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RoboportEquipmentPrototype.html#burner Online documentation}
@@ -8964,7 +8964,7 @@ declare module "factorio:prototype" {
      * energy_usage = "50kW"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RoboportPrototype.html#energy_usage Online documentation}
      */
-    energy_usage: Energy
+    energy_usage: Power
     /**
      * Minimum charge that the roboport has to have after a blackout (0 charge/buffered energy) to begin working again. Additionally, freshly placed roboports will have their energy buffer filled with `0.25 × recharge_minimum` energy.
      *
@@ -8973,7 +8973,7 @@ declare module "factorio:prototype" {
      * recharge_minimum = "40MJ"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RoboportPrototype.html#recharge_minimum Online documentation}
      */
-    recharge_minimum: Energy
+    recharge_minimum: EnergyAmount
     /**
      * The number of robot slots in the roboport.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RoboportPrototype.html#robot_slots_count Online documentation}
@@ -9025,7 +9025,7 @@ declare module "factorio:prototype" {
      * charging_energy = "1000kW"
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RoboportPrototype.html#charging_energy Online documentation}
      */
-    charging_energy: Energy
+    charging_energy: Power
     open_door_trigger_effect?: TriggerEffect
     close_door_trigger_effect?: TriggerEffect
     default_available_logistic_output_signal?: SignalIDConnector
@@ -9179,14 +9179,14 @@ declare module "factorio:prototype" {
      * Additional energy used during the following parts of the {@link defines.rocket_silo_status launch sequence}: doors_opening, rocket_rising, arms_advance, engine_starting, arms_retract, doors_closing.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RocketSiloPrototype.html#active_energy_usage Online documentation}
      */
-    active_energy_usage: Energy
+    active_energy_usage: Power
     /**
      * May be 0.
      *
      * Additional energy used during the night, that is when {@link import("factorio:runtime").LuaSurface#darkness LuaSurface::darkness} is larger than 0.3.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RocketSiloPrototype.html#lamp_energy_usage Online documentation}
      */
-    lamp_energy_usage: Energy
+    lamp_energy_usage: Power
     /**
      * Name of a {@link RocketSiloRocketPrototype}.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/RocketSiloPrototype.html#rocket_entity Online documentation}
@@ -10046,7 +10046,7 @@ declare module "factorio:prototype" {
      * How much power should be provided.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/SolarPanelEquipmentPrototype.html#power Online documentation}
      */
-    power: Energy
+    power: Power
   }
   /**
    * A {@linkplain https://wiki.factorio.com/Solar_panel solar panel}.
@@ -10068,7 +10068,7 @@ declare module "factorio:prototype" {
      * The maximum amount of power this solar panel can produce.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/SolarPanelPrototype.html#production Online documentation}
      */
-    production: Energy
+    production: Power
     /**
      * Overlay has to be empty or have same number of variations as `picture`.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/SolarPanelPrototype.html#overlay Online documentation}
@@ -10262,7 +10262,7 @@ declare module "factorio:prototype" {
      */
     height: float
     chunk_exploration_radius: uint32
-    movement_energy_consumption: Energy
+    movement_energy_consumption: Power
     automatic_weapon_cycling: bool
     /**
      * This is applied whenever the spider shoots (manual and automatic targeting), `automatic_weapon_cycling` is true and the next gun in line (which is then selected) has ammo. When all of the above is the case, the chain_shooting_cooldown_modifier is a multiplier on the remaining shooting cooldown: `cooldown = (remaining_cooldown × chain_shooting_cooldown_modifier)`.
@@ -13007,8 +13007,8 @@ declare module "factorio:prototype" {
      * Must be positive. There is no functional difference between the two ways to set braking power/force.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/VehiclePrototype.html#braking_power Online documentation}
      */
-    braking_power: Energy | double
-    braking_force: Energy | double
+    braking_power: Power | double
+    braking_force: Power | double
     /**
      * Must be positive. There is no functional difference between the two ways to set friction force.
      * @see {@link https://lua-api.factorio.com/1.1.110/prototypes/VehiclePrototype.html#friction Online documentation}
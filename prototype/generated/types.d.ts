@@ -53,13 +53,15 @@ declare module "factorio:prototype" {
   }
   /**
    * The name of an {@link AmmoCategory}.
+   *
+   * If `AmmoCategory` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "bullet"
    * @example
    * "melee"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/AmmoCategoryID.html Online documentation}
    */
-  export type AmmoCategoryID = string
+  export type AmmoCategoryID = import("factorio:common").PrototypeName<"AmmoCategory">
   export interface AmmoDamageModifier extends BaseModifier {
     readonly type: "ammo-damage"
     /**
@@ -126,7 +128,7 @@ declare module "factorio:prototype" {
      * Energy consumption of a single shot, if applicable.
      * @see {@link https://lua-api.factorio.com/1.1.110/types/AmmoType.html#energy_consumption Online documentation}
      */
-    energy_consumption?: Energy
+    energy_consumption?: EnergyAmount
     /**
      * **Default:** `1`
      *
@@ -1059,13 +1061,15 @@ declare module "factorio:prototype" {
   }
   /**
    * The name of an {@link AutoplaceControl}.
+   *
+   * If `AutoplaceControl` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "copper-ore"
    * @example
    * "trees"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/AutoplaceControlID.html Online documentation}
    */
-  export type AutoplaceControlID = string
+  export type AutoplaceControlID = import("factorio:common").PrototypeName<"AutoplaceControl">
   export interface AutoplacePeak {
     /**
      * **Default:** `1`
@@ -3613,13 +3617,15 @@ declare module "factorio:prototype" {
     | readonly DamageTypeID[]
   /**
    * The name of a {@link DamageType}.
+   *
+   * If `DamageType` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "impact"
    * @example
    * "poison"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/DamageTypeID.html Online documentation}
    */
-  export type DamageTypeID = string
+  export type DamageTypeID = import("factorio:common").PrototypeName<"DamageType">
   /**
    * The data table is read by the game to load all prototypes.
    *
@@ -3708,13 +3714,15 @@ declare module "factorio:prototype" {
   }
   /**
    * The name of a {@link DecorativePrototype}.
+   *
+   * If `DecorativePrototype` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "dark-mud-decal"
    * @example
    * "red-pita"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/DecorativeID.html Online documentation}
    */
-  export type DecorativeID = string
+  export type DecorativeID = import("factorio:common").PrototypeName<"DecorativePrototype">
   export interface DefaultRecipeTint {
     /**
      * **Default:** ``{1, 1, 1, 1}``
@@ -3992,7 +4000,7 @@ declare module "factorio:prototype" {
      * buffer_capacity = "5MJ"
      * @see {@link https://lua-api.factorio.com/1.1.110/types/ElectricEnergySource.html#buffer_capacity Online documentation}
      */
-    buffer_capacity?: Energy
+    buffer_capacity?: EnergyAmount
     /**
      * @example
      * usage_priority = "secondary-input"
@@ -4007,7 +4015,7 @@ declare module "factorio:prototype" {
      * input_flow_limit = "300kW"
      * @see {@link https://lua-api.factorio.com/1.1.110/types/ElectricEnergySource.html#input_flow_limit Online documentation}
      */
-    input_flow_limit?: Energy
+    input_flow_limit?: Power
     /**
      * **Default:** `Max `double` value`
      *
@@ -4016,14 +4024,14 @@ declare module "factorio:prototype" {
      * output_flow_limit = "300kW"
      * @see {@link https://lua-api.factorio.com/1.1.110/types/ElectricEnergySource.html#output_flow_limit Online documentation}
      */
-    output_flow_limit?: Energy
+    output_flow_limit?: Power
     /**
      * How much energy (per second) will be continuously removed from the energy buffer. In-game, this is shown in the tooltip as "Min. {@link import("factorio:runtime").LuaEntity#active Minimum] Consumption". Applied as a constant consumption-per-tick, even when the entity has the property [active} set to `false`.
      * @example
      * drain = "1kW"
      * @see {@link https://lua-api.factorio.com/1.1.110/types/ElectricEnergySource.html#drain Online documentation}
      */
-    drain?: Energy
+    drain?: Power
   }
   /**
    * Used to specify priority of energy usage in the {@linkplain https://wiki.factorio.com/Electric_system electric system}.
@@ -4434,7 +4442,19 @@ declare module "factorio:prototype" {
    * energy_usage = "1J" -- not recommended, Watt is convention for power
    * @see {@link https://lua-api.factorio.com/1.1.110/types/Energy.html Online documentation}
    */
-  export type Energy = string
+  export type Energy = import("factorio:common").EnergyString<"J" | "W">
+  /**
+   * An {@link Energy} in watts, for power (energy per time), e.g. `"5MW"`.
+   *
+   * If {@link import("factorio:common").StrictEnergyTypes StrictEnergyTypes} is enabled, only watts are allowed; otherwise this is just `string`.
+   */
+  export type Power = import("factorio:common").EnergyString<"W">
+  /**
+   * An {@link Energy} in joules, for an amount of energy, e.g. `"5MJ"`.
+   *
+   * If {@link import("factorio:common").StrictEnergyTypes StrictEnergyTypes} is enabled, only joules are allowed; otherwise this is just `string`.
+   */
+  export type EnergyAmount = import("factorio:common").EnergyString<"J">
   /**
    * Loaded as one of the {@link BaseEnergySource} extensions, based on the value of the `type` key.
    *
@@ -4454,13 +4474,15 @@ declare module "factorio:prototype" {
     | VoidEnergySource
   /**
    * The name of an {@link EntityPrototype}.
+   *
+   * If `EntityPrototype` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "stone-furnace"
    * @example
    * "stack-inserter"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/EntityID.html Online documentation}
    */
-  export type EntityID = string
+  export type EntityID = import("factorio:common").PrototypeName<"EntityPrototype">
   /**
    * An array containing the following values.
    *
@@ -4571,29 +4593,35 @@ declare module "factorio:prototype" {
   }
   /**
    * The name of an {@link EquipmentCategory}.
+   *
+   * If `EquipmentCategory` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "armor"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/EquipmentCategoryID.html Online documentation}
    */
-  export type EquipmentCategoryID = string
+  export type EquipmentCategoryID = import("factorio:common").PrototypeName<"EquipmentCategory">
   /**
    * The name of an {@link EquipmentGridPrototype}.
+   *
+   * If `EquipmentGridPrototype` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "small-equipment-grid"
    * @example
    * "spidertron-equipment-grid"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/EquipmentGridID.html Online documentation}
    */
-  export type EquipmentGridID = string
+  export type EquipmentGridID = import("factorio:common").PrototypeName<"EquipmentGridPrototype">
   /**
    * The name of an {@link EquipmentPrototype}.
+   *
+   * If `EquipmentPrototype` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "fusion-reactor-equipment"
    * @example
    * "exoskeleton-equipment"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/EquipmentID.html Online documentation}
    */
-  export type EquipmentID = string
+  export type EquipmentID = import("factorio:common").PrototypeName<"EquipmentPrototype">
   /**
    * The shape and dimensions of an equipment module.
    * @see {@link https://lua-api.factorio.com/1.1.110/types/EquipmentShape.html Online documentation}
@@ -5008,13 +5036,15 @@ declare module "factorio:prototype" {
   }
   /**
    * The name of a {@link FluidPrototype}.
+   *
+   * If `FluidPrototype` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "water"
    * @example
    * "lubricant"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/FluidID.html Online documentation}
    */
-  export type FluidID = string
+  export type FluidID = import("factorio:common").PrototypeName<"FluidPrototype">
   /**
    * A fluid ingredient definition.
    * @example
@@ -5288,13 +5318,15 @@ declare module "factorio:prototype" {
   }
   /**
    * The name of a {@link FuelCategory}.
+   *
+   * If `FuelCategory` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "chemical"
    * @example
    * "nuclear"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/FuelCategoryID.html Online documentation}
    */
-  export type FuelCategoryID = string
+  export type FuelCategoryID = import("factorio:common").PrototypeName<"FuelCategory">
   export interface GameControllerVibrationData {
     /**
      * **Default:** `0`
@@ -5435,8 +5467,8 @@ declare module "factorio:prototype" {
      * @see {@link https://lua-api.factorio.com/1.1.110/types/HeatBuffer.html#max_temperature Online documentation}
      */
     max_temperature: double
-    specific_heat: Energy
-    max_transfer: Energy
+    specific_heat: EnergyAmount
+    max_transfer: Power
     /**
      * **Default:** `15`
      * @see {@link https://lua-api.factorio.com/1.1.110/types/HeatBuffer.html#default_temperature Online documentation}
@@ -5492,8 +5524,8 @@ declare module "factorio:prototype" {
      * @see {@link https://lua-api.factorio.com/1.1.110/types/HeatEnergySource.html#max_temperature Online documentation}
      */
     max_temperature: double
-    specific_heat: Energy
-    max_transfer: Energy
+    specific_heat: EnergyAmount
+    max_transfer: Power
     /**
      * **Default:** `15`
      * @see {@link https://lua-api.factorio.com/1.1.110/types/HeatEnergySource.html#default_temperature Online documentation}
@@ -5743,22 +5775,26 @@ declare module "factorio:prototype" {
   export type ItemCountType = uint32
   /**
    * The name of an {@link ItemGroup}.
+   *
+   * If `ItemGroup` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "logistics"
    * @example
    * "production"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/ItemGroupID.html Online documentation}
    */
-  export type ItemGroupID = string
+  export type ItemGroupID = import("factorio:common").PrototypeName<"ItemGroup">
   /**
    * The name of an {@link ItemPrototype}.
+   *
+   * If `ItemPrototype` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "iron-plate"
    * @example
    * "blueprint-book"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/ItemID.html Online documentation}
    */
-  export type ItemID = string
+  export type ItemID = import("factorio:common").PrototypeName<"ItemPrototype">
   /**
    * An item ingredient definition. It can be specified as a table with named or numbered keys, but not a mix of both. If this is specified as a table with numbered keys then the first value is the item name and the second is the amount.
    * @example
@@ -5878,13 +5914,15 @@ declare module "factorio:prototype" {
   export type ItemStackIndex = uint16
   /**
    * The name of an {@link ItemSubGroup}.
+   *
+   * If `ItemSubGroup` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "capsule"
    * @example
    * "military-equipment"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/ItemSubGroupID.html Online documentation}
    */
-  export type ItemSubGroupID = string
+  export type ItemSubGroupID = import("factorio:common").PrototypeName<"ItemSubGroup">
   /**
    * Item that when placed creates this entity/tile.
    * @example
@@ -7192,13 +7230,15 @@ declare module "factorio:prototype" {
   export type Mods = Record<string, string>
   /**
    * The name of a {@link ModuleCategory}.
+   *
+   * If `ModuleCategory` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "productivity"
    * @example
    * "effectivity"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/ModuleCategoryID.html Online documentation}
    */
-  export type ModuleCategoryID = string
+  export type ModuleCategoryID = import("factorio:common").PrototypeName<"ModuleCategory">
   /**
    * The number of module slots in this entity, and their icon positions.
    * @example
@@ -7261,11 +7301,13 @@ declare module "factorio:prototype" {
   export type ModuleTint = "primary" | "secondary" | "tertiary" | "quaternary" | "none"
   /**
    * The name of a {@link MouseCursor}.
+   *
+   * If `MouseCursor` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "selection-tool-cursor"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/MouseCursorID.html Online documentation}
    */
-  export type MouseCursorID = string
+  export type MouseCursorID = import("factorio:common").PrototypeName<"MouseCursor">
   export interface NestedTriggerEffectItem extends TriggerEffectItem {
     readonly type: "nested-result"
     action: Trigger
@@ -7861,13 +7903,15 @@ declare module "factorio:prototype" {
   }
   /**
    * The name of a {@link NoiseLayer}.
+   *
+   * If `NoiseLayer` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "aux"
    * @example
    * "trees-3"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/NoiseLayerID.html Online documentation}
    */
-  export type NoiseLayerID = string
+  export type NoiseLayerID = import("factorio:common").PrototypeName<"NoiseLayer">
   /**
    * Evaluates to the same boolean value (true or false) every time, given by the `literal_value` property. May be used as a number value, evaluates to `1` for true and `0` for false.
    * @see {@link https://lua-api.factorio.com/1.1.110/types/NoiseLiteralBoolean.html Online documentation}
@@ -8252,13 +8296,15 @@ declare module "factorio:prototype" {
   }
   /**
    * The name of a {@link ParticlePrototype}.
+   *
+   * If `ParticlePrototype` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "beacon-metal-particle-small"
    * @example
    * "wooden-particle"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/ParticleID.html Online documentation}
    */
-  export type ParticleID = string
+  export type ParticleID = import("factorio:common").PrototypeName<"ParticlePrototype">
   export interface PasteEntitySettingsTipTrigger {
     readonly type: "paste-entity-settings"
     /**
@@ -8976,13 +9022,15 @@ declare module "factorio:prototype" {
   export type RealOrientation = float
   /**
    * The name of a {@link RecipeCategory}.
+   *
+   * If `RecipeCategory` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "crafting"
    * @example
    * "smelting"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/RecipeCategoryID.html Online documentation}
    */
-  export type RecipeCategoryID = string
+  export type RecipeCategoryID = import("factorio:common").PrototypeName<"RecipeCategory">
   /**
    * Used when defining a {@link RecipePrototype} that uses difficulty. For a recipe without difficulty, these same properties are defined on the prototype itself.
    * @see {@link https://lua-api.factorio.com/1.1.110/types/RecipeData.html Online documentation}
@@ -9170,13 +9218,15 @@ declare module "factorio:prototype" {
   }
   /**
    * The name of a {@link RecipePrototype}.
+   *
+   * If `RecipePrototype` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "electronic-circuit"
    * @example
    * "kovarex-enrichment-process"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/RecipeID.html Online documentation}
    */
-  export type RecipeID = string
+  export type RecipeID = import("factorio:common").PrototypeName<"RecipePrototype">
   /**
    * The render layer specifies the order of the sprite when rendering, most of the objects have it hardcoded in the source, but some are configurable. The union contains valid values from lowest to highest.
    *
@@ -9321,13 +9371,15 @@ declare module "factorio:prototype" {
   }
   /**
    * The name of a {@link ResourceCategory}.
+   *
+   * If `ResourceCategory` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "basic-solid"
    * @example
    * "basic-fluid"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/ResourceCategoryID.html Online documentation}
    */
-  export type ResourceCategoryID = string
+  export type ResourceCategoryID = import("factorio:common").PrototypeName<"ResourceCategory">
   /**
    * ## Union members
    * - `"enabled"`
@@ -11504,13 +11556,15 @@ declare module "factorio:prototype" {
   }
   /**
    * The name of a {@link TechnologyPrototype}.
+   *
+   * If `TechnologyPrototype` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "automated-rail-transportation"
    * @example
    * "steel-axe"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/TechnologyID.html Online documentation}
    */
-  export type TechnologyID = string
+  export type TechnologyID = import("factorio:common").PrototypeName<"TechnologyPrototype">
   export interface TechnologySlotStyleSpecification extends Omit<ButtonStyleSpecification, "type"> {
     readonly type: "technology_slot_style"
     highlighted_graphical_set?: ElementImageSet
@@ -11674,13 +11728,15 @@ declare module "factorio:prototype" {
   }
   /**
    * The name of a {@link TilePrototype}.
+   *
+   * If `TilePrototype` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "grass-2"
    * @example
    * "landfill"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/TileID.html Online documentation}
    */
-  export type TileID = string
+  export type TileID = import("factorio:common").PrototypeName<"TilePrototype">
   /**
    * Name of an allowed tile, or a list of two tile names for entities allowed on transitions.
    * @see AutoplaceSpecification.tile_restriction
@@ -12435,13 +12491,15 @@ declare module "factorio:prototype" {
   export type TriggerTargetMask = readonly string[]
   /**
    * The name of a {@link TrivialSmokePrototype}.
+   *
+   * If `TrivialSmokePrototype` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "smoke-building"
    * @example
    * "nuclear-smoke"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/TrivialSmokeID.html Online documentation}
    */
-  export type TrivialSmokeID = string
+  export type TrivialSmokeID = import("factorio:common").PrototypeName<"TrivialSmokePrototype">
   export interface TurretAttackModifier extends BaseModifier {
     readonly type: "turret-attack"
     /**
@@ -12731,13 +12789,15 @@ declare module "factorio:prototype" {
   }
   /**
    * The name of a {@link VirtualSignalPrototype}.
+   *
+   * If `VirtualSignalPrototype` names are registered in {@link import("factorio:common").PrototypeNames PrototypeNames}, only those names are allowed; otherwise this is just `string`.
    * @example
    * "signal-red"
    * @example
    * "signal-each"
    * @see {@link https://lua-api.factorio.com/1.1.110/types/VirtualSignalID.html Online documentation}
    */
-  export type VirtualSignalID = string
+  export type VirtualSignalID = import("factorio:common").PrototypeName<"VirtualSignalPrototype">
   /**
    * Void energy sources provide unlimited free energy.
    * @example
@@ -13147,35 +13207,36 @@ declare module "factorio:prototype" {
    * 16 bit signed integer. Ranges from `-32 768` to `32 767`, or `[-2^15, 2^15-1]`.
    * @see {@link https://lua-api.factorio.com/1.1.110/types/int16.html Online documentation}
    */
-  export type int16 = number
+  export type int16 = import("factorio:common").SignedInteger
   /**
    * 32 bit signed integer. Ranges from `-2 147 483 648` to `2 147 483 647`, or `[-2^31, 2^31-1]`.
    * @see {@link https://lua-api.factorio.com/1.1.110/types/int32.html Online documentation}
    */
-  export type int32 = number
+  export type int32 = import("factorio:common").SignedInteger
+  // types.d.ts declares the factorio:prototype module, so it can't have top-level imports
   /**
    * 8 bit signed integer. Ranges from `-128` to `127`, or `[-2^7, 2^7-1]`.
    * @see {@link https://lua-api.factorio.com/1.1.110/types/int8.html Online documentation}
    */
-  export type int8 = number
+  export type int8 = import("factorio:common").SignedInteger
   /**
    * 16 bit unsigned integer. Ranges from `0` to `65 535`, or `[0, 2^16-1]`.
    * @see {@link https://lua-api.factorio.com/1.1.110/types/uint16.html Online documentation}
    */
-  export type uint16 = number
+  export type uint16 = import("factorio:common").UnsignedInteger
   /**
    * 32 bit unsigned integer. Ranges from `0` to `4 294 967 295`, or `[0, 2^32-1]`.
    * @see {@link https://lua-api.factorio.com/1.1.110/types/uint32.html Online documentation}
    */
-  export type uint32 = number
+  export type uint32 = import("factorio:common").UnsignedInteger
   /**
    * 64 bit unsigned integer.
    * @see {@link https://lua-api.factorio.com/1.1.110/types/uint64.html Online documentation}
    */
-  export type uint64 = number
+  export type uint64 = import("factorio:common").UnsignedInteger
   /**
    * 8 bit unsigned integer. Ranges from `0` to `255`, or `[0, 2^8-1]`.
    * @see {@link https://lua-api.factorio.com/1.1.110/types/uint8.html Online documentation}
    */
-  export type uint8 = number
+  export type uint8 = import("factorio:common").UnsignedInteger
 }
@@ -0,0 +1,54 @@
+/** @noSelfInFile */
+
+// Helpers for parsing the parameter of custom commands into typed values.
+// Implemented in command-parameters.lua, which typescript-to-lua includes in the output when this module is imported:
+// import { parse, string, integer } from "typed-factorio/runtime/command-parameters"
+
+import type { CustomCommandName, CustomCommandParameters, SignedInteger } from "factorio:common"
+import type { CustomCommandData } from "factorio:runtime"
+
+/**
+ * Parses a single word of a command parameter. Returns `nil` if the word is invalid.
+ */
+export type WordParser<T> = (this: void, word: string) => T | undefined
+
+/**
+ * A parser for each element of a command's parameters.
+ */
+export type CommandParameterParsers<P extends readonly unknown[]> = {
+  readonly [K in keyof P]: WordParser<P[K]>
+}
+
+/**
+ * Splits a command parameter into words, separated by whitespace. Words in single or double quotes may contain
+ * whitespace; the quotes are removed.
+ *
+ * Returns an empty array if the parameter is `nil`.
+ */
+export function split(parameter: string | undefined): string[]
+
+/**
+ * Parses the parameter of a custom command, using one parser per word.
+ *
+ * Returns `nil` if the number of words does not match the number of parsers, or if any word is invalid.
+ * @example
+ * // with "give-items": [item: string, count: number] in CustomCommandNames
+ * commands.add_command("give-items", "<item> <count>", (data) => {
+ *   const parameters = parse(data, [string, integer])
+ *   if (!parameters) return game.print("Usage: /give-items <item> <count>")
+ *   const [item, count] = parameters
+ * })
+ */
+export function parse<N extends CustomCommandName>(
+  data: CustomCommandData<N>,
+  parsers: CommandParameterParsers<CustomCommandParameters<N>>,
+): CustomCommandParameters<N> | undefined
+
+/** Accepts any word. */
+export const string: WordParser<string>
+/** Accepts numbers, as parsed by Lua's `tonumber`. */
+export const number: WordParser<number>
+/** Accepts whole numbers. */
+export const integer: WordParser<SignedInteger>
+/** Accepts `true` and `false`. */
+export const boolean: WordParser<boolean>
@@ -0,0 +1,72 @@
+-- Implementation of command-parameters.d.ts; see there for documentation.
+
+local M = {}
+
+function M.split(parameter)
+  local words = {}
+  if not parameter then
+    return words
+  end
+  local position = 1
+  while true do
+    local start = parameter:find("%S", position)
+    if not start then
+      break
+    end
+    local quote = parameter:sub(start, start)
+    if quote == '"' or quote == "'" then
+      -- an unterminated quote extends to the end
+      local finish = parameter:find(quote, start + 1, true) or #parameter + 1
+      words[#words + 1] = parameter:sub(start + 1, finish - 1)
+      position = finish + 1
+    else
+      local finish = parameter:find("%s", start) or #parameter + 1
+      words[#words + 1] = parameter:sub(start, finish - 1)
+      position = finish
+    end
+  end
+  return words
+end
+
+function M.parse(data, parsers)
+  local words = M.split(data.parameter)
+  if #words ~= #parsers then
+    return nil
+  end
+  local result = {}
+  for i, parser in ipairs(parsers) do
+    local value = parser(words[i])
+    if value == nil then
+      return nil
+    end
+    result[i] = value
+  end
+  return result
+end
+
+function M.string(word)
+  return word
+end
+
+function M.number(word)
+  return tonumber(word)
+end
+
+function M.integer(word)
+  local value = tonumber(word)
+  if value and value % 1 == 0 then
+    return value
+  end
+  return nil
+end
+
+function M.boolean(word)
+  if word == "true" then
+    return true
+  elseif word == "false" then
+    return false
+  end
+  return nil
+end
+
+return M
@@ -0,0 +1,21 @@
+/** @noSelfInFile */
+
+// A type guard for narrowing entities to the subclass types of their entity type.
+// Implemented in entity-types.lua, which typescript-to-lua includes in the output when this module is imported:
+// import { isEntityType } from "typed-factorio/runtime/entity-types"
+
+import type { BaseEntity, EntityOfType } from "factorio:runtime"
+import type { EntityType } from "factorio:prototype"
+
+/**
+ * Checks if an entity has the given entity type, or one of the given entity types. This narrows the entity to
+ * {@link EntityOfType}.
+ * @example
+ * if (isEntityType(event.created_entity, "assembling-machine")) {
+ *   event.created_entity.get_recipe() // AssemblingMachineEntity & CraftingMachineEntity & ...
+ * }
+ */
+export function isEntityType<T extends EntityType>(
+  entity: BaseEntity,
+  type: T | readonly T[],
+): entity is EntityOfType<T>
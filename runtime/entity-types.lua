@@ -0,0 +1,18 @@
+-- Implementation of entity-types.d.ts; see there for documentation.
+
+local M = {}
+
+function M.isEntityType(entity, types)
+  local entity_type = entity.type
+  if type(types) == "string" then
+    return entity_type == types
+  end
+  for _, t in ipairs(types) do
+    if entity_type == t then
+      return true
+    end
+  end
+  return false
+end
+
+return M
@@ -2,9 +2,48 @@
 
 /** @noSelfInFile */
 
-import type { EntityType, EquipmentType, ItemType, PrototypeMap } from "factorio:prototype"
+import type {
+  AmmoCategoryID,
+  AutoplaceControlID,
+  DecorativeID,
+  EntityID,
+  EntityType,
+  EquipmentCategoryID,
+  EquipmentGridID,
+  EquipmentID,
+  EquipmentType,
+  FluidID,
+  FuelCategoryID,
+  ItemID,
+  ItemType,
+  ModuleCategoryID,
+  NoiseLayerID,
+  ParticleID,
+  PrototypeMap,
+  RecipeCategoryID,
+  RecipeID,
+  ResourceCategoryID,
+  TechnologyID,
+  TileID,
+  TrivialSmokeID,
+  VirtualSignalID,
+} from "factorio:prototype"
 
-import type { ActiveMods, CustomInputName } from "factorio:common"
+import type {
+  ActiveMods,
+  CustomCommandName,
+  CustomCommandNames,
+  CustomInputName,
+  GuiElementTags,
+  ModSettingsTable,
+  RemoteFunctionName,
+  RemoteFunctionParameters,
+  RemoteFunctionReturnType,
+  RemoteInterfaceName,
+  RemoteInterfaces,
+  RemoteInterfacesMap,
+  UndeclaredRemoteInterfaceName,
+} from "factorio:common"
 
 import type { SettingsPrototypeMap } from "factorio:settings"
 
@@ -257,7 +296,7 @@ declare module "factorio:runtime" {
      * @param handler The handler for this event. Passing `nil` will unregister it.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaBootstrap.html#LuaBootstrap.on_configuration_changed Online documentation}
      */
-    on_configuration_changed(handler: ((arg1: ConfigurationChangedData) => void) | nil): void
+    on_configuration_changed(handler: ((data: ConfigurationChangedData) => void) | nil): void
     /**
      * Register a handler to run on the specified event(s). Each mod can only register once for every event, as any additional registration will overwrite the previous one. This holds true even if different filters are used for subsequent registrations.
      * @param event The event(s) or custom-input to invoke the handler on.
@@ -867,14 +906,18 @@ declare module "factorio:runtime" {
      * @param _function The function that will be called when this command is invoked.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaCommandProcessor.html#LuaCommandProcessor.add_command Online documentation}
      */
-    add_command(name: string, help: LocalisedString, _function: (arg1: CustomCommandData) => void): void
+    add_command<N extends CustomCommandName>(
+      name: N,
+      help: LocalisedString,
+      _function: (data: CustomCommandData<N>) => void,
+    ): void
     /**
      * Remove a custom console command.
      * @param name The name of the command to remove (case sensitive).
      * @returns Whether the command was successfully removed. Returns `false` if the command didn't exist.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaCommandProcessor.html#LuaCommandProcessor.remove_command Online documentation}
      */
-    remove_command(name: string): boolean
+    remove_command(name: CustomCommandName): boolean
     /**
      * All methods and properties that this object supports.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaCommandProcessor.html#LuaCommandProcessor.help Online documentation}
@@ -884,7 +927,9 @@ declare module "factorio:runtime" {
      * Lists the custom commands registered by scripts through `LuaCommandProcessor`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaCommandProcessor.html#LuaCommandProcessor.commands Online documentation}
      */
-    readonly commands: Record<string, LocalisedString>
+    readonly commands: [keyof CustomCommandNames] extends [never]
+      ? Record<string, LocalisedString>
+      : Partial<Record<CustomCommandName | (string & {}), LocalisedString>>
     /**
      * Lists the built-in commands of the core game. The {@linkplain https://wiki.factorio.com/Console wiki} has an overview of these.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaCommandProcessor.html#LuaCommandProcessor.game_commands Online documentation}
@@ -1741,7 +1786,7 @@ declare module "factorio:runtime" {
      * The unique ID for this tag on this force.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaCustomChartTag.html#LuaCustomChartTag.tag_number Online documentation}
      */
-    readonly tag_number: uint
+    readonly tag_number: TagNumber
     /**
      * The force this tag belongs to.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaCustomChartTag.html#LuaCustomChartTag.force Online documentation}
@@ -7110,6 +7155,140 @@ declare module "factorio:runtime" {
      */
     readonly belt_shape: "straight" | "left" | "right"
   }
+  /**
+   * Maps each entity type to the intersection of LuaEntity subclass types that apply to it.
+   */
+  export interface EntityTypeToClass {
+    accumulator: EntityWithOwnerEntity & EntityWithHealthEntity
+    "ammo-turret": TurretEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "arithmetic-combinator": EntityWithOwnerEntity & EntityWithHealthEntity
+    arrow: BaseEntity
+    "artillery-flare": BaseEntity
+    "artillery-projectile": BaseEntity
+    "artillery-turret": EntityWithOwnerEntity & EntityWithHealthEntity
+    "artillery-wagon": RollingStockEntity & VehicleEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "assembling-machine": AssemblingMachineEntity &
+      CraftingMachineEntity &
+      EntityWithOwnerEntity &
+      EntityWithHealthEntity
+    beacon: BeaconEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    beam: BeamEntity
+    boiler: EntityWithOwnerEntity & EntityWithHealthEntity
+    "burner-generator": EntityWithOwnerEntity & EntityWithHealthEntity
+    car: CarEntity & VehicleEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "cargo-wagon": RollingStockEntity & VehicleEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    character: CharacterEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "character-corpse": CharacterCorpseEntity
+    cliff: CliffEntity
+    "combat-robot": CombatRobotEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "constant-combinator": EntityWithOwnerEntity & EntityWithHealthEntity
+    "construction-robot": EntityWithOwnerEntity & EntityWithHealthEntity
+    container: EntityWithOwnerEntity & EntityWithHealthEntity
+    corpse: CorpseEntity
+    "curved-rail": RailEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "decider-combinator": EntityWithOwnerEntity & EntityWithHealthEntity
+    "deconstructible-tile-proxy": DeconstructibleTileProxyEntity
+    "electric-energy-interface": ElectricEnergyInterfaceEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "electric-pole": ElectricPoleEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "electric-turret": TurretEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "entity-ghost": EntityGhostEntity & GhostEntity
+    explosion: BaseEntity
+    fire: BaseEntity
+    fish: EntityWithHealthEntity
+    "flame-thrower-explosion": BaseEntity
+    "fluid-turret": TurretEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "fluid-wagon": RollingStockEntity & VehicleEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "flying-text": FlyingTextEntity
+    furnace: FurnaceEntity & CraftingMachineEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    gate: GateEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    generator: GeneratorEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "heat-interface": HeatInterfaceEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "heat-pipe": EntityWithOwnerEntity & EntityWithHealthEntity
+    "highlight-box": HighlightBoxEntity
+    "infinity-container": InfinityContainerEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "infinity-pipe": InfinityPipeEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    inserter: InserterEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "item-entity": ItemEntity
+    "item-request-proxy": ItemRequestProxyEntity
+    lab: EntityWithOwnerEntity & EntityWithHealthEntity
+    lamp: EntityWithOwnerEntity & EntityWithHealthEntity
+    "land-mine": LandMineEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "leaf-particle": BaseEntity
+    "linked-belt": LinkedBeltEntity & TransportBeltConnectableEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "linked-container": LinkedContainerEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    loader: LoaderEntity & TransportBeltConnectableEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "loader-1x1": LoaderEntity & TransportBeltConnectableEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    locomotive: RollingStockEntity & VehicleEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "logistic-container": EntityWithOwnerEntity & EntityWithHealthEntity
+    "logistic-robot": EntityWithOwnerEntity & EntityWithHealthEntity
+    market: MarketEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "mining-drill": MiningDrillEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "offshore-pump": EntityWithOwnerEntity & EntityWithHealthEntity
+    particle: BaseEntity
+    "particle-source": BaseEntity
+    pipe: EntityWithOwnerEntity & EntityWithHealthEntity
+    "pipe-to-ground": EntityWithOwnerEntity & EntityWithHealthEntity
+    "player-port": EntityWithOwnerEntity & EntityWithHealthEntity
+    "power-switch": PowerSwitchEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "programmable-speaker": ProgrammableSpeakerEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    projectile: BaseEntity
+    pump: PumpEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    radar: RadarEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "rail-chain-signal": RailChainSignalEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "rail-remnants": CorpseEntity
+    "rail-signal": RailSignalEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    reactor: ReactorEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    resource: ResourceEntity
+    roboport: EntityWithOwnerEntity & EntityWithHealthEntity
+    "rocket-silo": RocketSiloEntity &
+      AssemblingMachineEntity &
+      CraftingMachineEntity &
+      EntityWithOwnerEntity &
+      EntityWithHealthEntity
+    "rocket-silo-rocket": BaseEntity
+    "rocket-silo-rocket-shadow": BaseEntity
+    "simple-entity": EntityWithHealthEntity
+    "simple-entity-with-force": EntityWithOwnerEntity & EntityWithHealthEntity
+    "simple-entity-with-owner": EntityWithOwnerEntity & EntityWithHealthEntity
+    smoke: BaseEntity
+    "smoke-with-trigger": SmokeWithTriggerEntity
+    "solar-panel": EntityWithOwnerEntity & EntityWithHealthEntity
+    "speech-bubble": SpeechBubbleEntity
+    "spider-leg": EntityWithHealthEntity
+    "spider-vehicle": SpiderVehicleEntity & VehicleEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    splitter: SplitterEntity & TransportBeltConnectableEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    sticker: StickerEntity
+    "storage-tank": EntityWithOwnerEntity & EntityWithHealthEntity
+    "straight-rail": RailEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    stream: BaseEntity
+    "tile-ghost": TileGhostEntity & GhostEntity
+    "train-stop": TrainStopEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "transport-belt": TransportBeltEntity &
+      TransportBeltConnectableEntity &
+      EntityWithOwnerEntity &
+      EntityWithHealthEntity
+    tree: TreeEntity & EntityWithHealthEntity
+    turret: TurretEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "underground-belt": UndergroundBeltEntity &
+      TransportBeltConnectableEntity &
+      EntityWithOwnerEntity &
+      EntityWithHealthEntity
+    unit: UnitEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    "unit-spawner": SpawnerEntity & EntityWithOwnerEntity & EntityWithHealthEntity
+    wall: EntityWithOwnerEntity & EntityWithHealthEntity
+  }
+  /**
+   * A LuaEntity of the given entity type(s), with only the members usable for that type.
+   *
+   * Without a type argument, this is a union of all entity types, which can be narrowed by checking `type`.
+   *
+   * `isEntityType` from `typed-factorio/runtime/entity-types` narrows any entity to this type.
+   */
+  export type EntityOfType<T extends EntityType = EntityType> = T extends EntityType
+    ? EntityTypeToClass[T] & {
+        readonly type: T
+      }
+    : never
   /**
    * Prototype of an entity.
    * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaEntityPrototype.html Online documentation}
@@ -10825,7 +11004,7 @@ declare module "factorio:runtime" {
      * Unique identifier of this equipment grid.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaEquipmentGrid.html#LuaEquipmentGrid.unique_id Online documentation}
      */
-    readonly unique_id: uint
+    readonly unique_id: EquipmentGridId
     /**
      * Is this object valid? This Lua object holds a reference to an object within the game engine. It is possible that the game-engine object is removed whilst a mod still holds the corresponding Lua object. If that happens, the object becomes invalid, i.e. this attribute will be `false`. Mods are advised to check for object validity if any change to the game state might have occurred between the creation of the Lua object and its access.
      */
@@ -11985,7 +12164,7 @@ declare module "factorio:runtime" {
      * game.player.force.technologies["steel-processing"].researched = true
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaForce.html#LuaForce.technologies Online documentation}
      */
-    readonly technologies: LuaCustomTable<string, LuaTechnology>
+    readonly technologies: LuaCustomTable<TechnologyID, LuaTechnology>
     /**
      * Recipes available to this force, indexed by `name`.
      * @example
@@ -11993,7 +12172,7 @@ declare module "factorio:runtime" {
      * game.player.print(game.player.force.recipes["transport-belt"].category)
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaForce.html#LuaForce.recipes Online documentation}
      */
-    readonly recipes: LuaCustomTable<string, LuaRecipe>
+    readonly recipes: LuaCustomTable<RecipeID, LuaRecipe>
     /**
      * Multiplier of the manual mining speed. Default value is `0`. The actual mining speed will be multiplied by `1 + manual_mining_speed_modifier`.
      * @example
@@ -12806,7 +12985,7 @@ declare module "factorio:runtime" {
      */
     get_filtered_entity_prototypes(
       filters: readonly EntityPrototypeFilterWrite[],
-    ): LuaCustomTable<string, LuaEntityPrototype>
+    ): LuaCustomTable<EntityID, LuaEntityPrototype>
     /**
      * Returns a dictionary of all LuaItemPrototypes that fit the given filters. The prototypes are indexed by `name`.
      * @example
@@ -12814,7 +12993,7 @@ declare module "factorio:runtime" {
      * local prototypes = game.get_filtered_item_prototypes{{filter="has-rocket-launch-products"}}
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.get_filtered_item_prototypes Online documentation}
      */
-    get_filtered_item_prototypes(filters: readonly ItemPrototypeFilterWrite[]): LuaCustomTable<string, LuaItemPrototype>
+    get_filtered_item_prototypes(filters: readonly ItemPrototypeFilterWrite[]): LuaCustomTable<ItemID, LuaItemPrototype>
     /**
      * Returns a dictionary of all LuaEquipmentPrototypes that fit the given filters. The prototypes are indexed by `name`.
      * @example
@@ -12824,7 +13003,7 @@ declare module "factorio:runtime" {
      */
     get_filtered_equipment_prototypes(
       filters: readonly EquipmentPrototypeFilter[],
-    ): LuaCustomTable<string, LuaEquipmentPrototype>
+    ): LuaCustomTable<EquipmentID, LuaEquipmentPrototype>
     /**
      * Returns a dictionary of all LuaModSettingPrototypes that fit the given filters. The prototypes are indexed by `name`.
      * @example
@@ -12852,7 +13031,7 @@ declare module "factorio:runtime" {
      * local prototypes = game.get_filtered_tile_prototypes{{filter="walking-speed-modifier", comparison="≥", value=1.5}}
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.get_filtered_tile_prototypes Online documentation}
      */
-    get_filtered_tile_prototypes(filters: readonly TilePrototypeFilterWrite[]): LuaCustomTable<string, LuaTilePrototype>
+    get_filtered_tile_prototypes(filters: readonly TilePrototypeFilterWrite[]): LuaCustomTable<TileID, LuaTilePrototype>
     /**
      * Returns a dictionary of all LuaDecorativePrototypes that fit the given filters. The prototypes are indexed by `name`.
      * @example
@@ -12862,7 +13041,7 @@ declare module "factorio:runtime" {
      */
     get_filtered_decorative_prototypes(
       filters: readonly DecorativePrototypeFilter[],
-    ): LuaCustomTable<string, LuaDecorativePrototype>
+    ): LuaCustomTable<DecorativeID, LuaDecorativePrototype>
     /**
      * Returns a dictionary of all LuaFluidPrototypes that fit the given filters. The prototypes are indexed by `name`.
      * @example
@@ -12872,7 +13051,7 @@ declare module "factorio:runtime" {
      */
     get_filtered_fluid_prototypes(
       filters: readonly FluidPrototypeFilterWrite[],
-    ): LuaCustomTable<string, LuaFluidPrototype>
+    ): LuaCustomTable<FluidID, LuaFluidPrototype>
     /**
      * Returns a dictionary of all LuaRecipePrototypes that fit the given filters. The prototypes are indexed by `name`.
      * @example
@@ -12882,7 +13061,7 @@ declare module "factorio:runtime" {
      */
     get_filtered_recipe_prototypes(
       filters: readonly RecipePrototypeFilterWrite[],
-    ): LuaCustomTable<string, LuaRecipePrototype>
+    ): LuaCustomTable<RecipeID, LuaRecipePrototype>
     /**
      * Returns a dictionary of all LuaTechnologyPrototypes that fit the given filters. The prototypes are indexed by `name`.
      * @example
@@ -12892,7 +13071,7 @@ declare module "factorio:runtime" {
      */
     get_filtered_technology_prototypes(
       filters: readonly TechnologyPrototypeFilterWrite[],
-    ): LuaCustomTable<string, LuaTechnologyPrototype>
+    ): LuaCustomTable<TechnologyID, LuaTechnologyPrototype>
     /**
      * Creates an inventory that is not owned by any game object.
      *
@@ -12937,7 +13116,7 @@ declare module "factorio:runtime" {
      * @returns Train if found
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.get_train_by_id Online documentation}
      */
-    get_train_by_id(train_id: uint): LuaTrain | nil
+    get_train_by_id(train_id: TrainId): LuaTrain | nil
     /**
      * Direct access to Trains Pathfinder. Allows to search rail paths or querying which stops are accessible
      * @returns The type of the returned value depends on `type`.
@@ -13034,27 +13213,27 @@ declare module "factorio:runtime" {
      * A dictionary containing every LuaEntityPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.entity_prototypes Online documentation}
      */
-    readonly entity_prototypes: LuaCustomTable<string, LuaEntityPrototype>
+    readonly entity_prototypes: LuaCustomTable<EntityID, LuaEntityPrototype>
     /**
      * A dictionary containing every LuaItemPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.item_prototypes Online documentation}
      */
-    readonly item_prototypes: LuaCustomTable<string, LuaItemPrototype>
+    readonly item_prototypes: LuaCustomTable<ItemID, LuaItemPrototype>
     /**
      * A dictionary containing every LuaFluidPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.fluid_prototypes Online documentation}
      */
-    readonly fluid_prototypes: LuaCustomTable<string, LuaFluidPrototype>
+    readonly fluid_prototypes: LuaCustomTable<FluidID, LuaFluidPrototype>
     /**
      * A dictionary containing every LuaTilePrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.tile_prototypes Online documentation}
      */
-    readonly tile_prototypes: LuaCustomTable<string, LuaTilePrototype>
+    readonly tile_prototypes: LuaCustomTable<TileID, LuaTilePrototype>
     /**
      * A dictionary containing every LuaEquipmentPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.equipment_prototypes Online documentation}
      */
-    readonly equipment_prototypes: LuaCustomTable<string, LuaEquipmentPrototype>
+    readonly equipment_prototypes: LuaCustomTable<EquipmentID, LuaEquipmentPrototype>
     /**
      * A dictionary containing every LuaDamagePrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.damage_prototypes Online documentation}
@@ -13064,42 +13243,42 @@ declare module "factorio:runtime" {
      * A dictionary containing every LuaVirtualSignalPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.virtual_signal_prototypes Online documentation}
      */
-    readonly virtual_signal_prototypes: LuaCustomTable<string, LuaVirtualSignalPrototype>
+    readonly virtual_signal_prototypes: LuaCustomTable<VirtualSignalID, LuaVirtualSignalPrototype>
     /**
      * A dictionary containing every LuaEquipmentGridPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.equipment_grid_prototypes Online documentation}
      */
-    readonly equipment_grid_prototypes: LuaCustomTable<string, LuaEquipmentGridPrototype>
+    readonly equipment_grid_prototypes: LuaCustomTable<EquipmentGridID, LuaEquipmentGridPrototype>
     /**
      * A dictionary containing every LuaRecipePrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.recipe_prototypes Online documentation}
      */
-    readonly recipe_prototypes: LuaCustomTable<string, LuaRecipePrototype>
+    readonly recipe_prototypes: LuaCustomTable<RecipeID, LuaRecipePrototype>
     /**
      * A dictionary containing every {@link LuaTechnologyPrototype} indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.technology_prototypes Online documentation}
      */
-    readonly technology_prototypes: LuaCustomTable<string, LuaTechnologyPrototype>
+    readonly technology_prototypes: LuaCustomTable<TechnologyID, LuaTechnologyPrototype>
     /**
      * A dictionary containing every LuaDecorativePrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.decorative_prototypes Online documentation}
      */
-    readonly decorative_prototypes: LuaCustomTable<string, LuaDecorativePrototype>
+    readonly decorative_prototypes: LuaCustomTable<DecorativeID, LuaDecorativePrototype>
     /**
      * A dictionary containing every LuaParticlePrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.particle_prototypes Online documentation}
      */
-    readonly particle_prototypes: LuaCustomTable<string, LuaParticlePrototype>
+    readonly particle_prototypes: LuaCustomTable<ParticleID, LuaParticlePrototype>
     /**
      * A dictionary containing every LuaAutoplaceControlPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.autoplace_control_prototypes Online documentation}
      */
-    readonly autoplace_control_prototypes: LuaCustomTable<string, LuaAutoplaceControlPrototype>
+    readonly autoplace_control_prototypes: LuaCustomTable<AutoplaceControlID, LuaAutoplaceControlPrototype>
     /**
      * A dictionary containing every LuaNoiseLayerPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.noise_layer_prototypes Online documentation}
      */
-    readonly noise_layer_prototypes: LuaCustomTable<string, LuaNoiseLayerPrototype>
+    readonly noise_layer_prototypes: LuaCustomTable<NoiseLayerID, LuaNoiseLayerPrototype>
     /**
      * A dictionary containing every LuaModSettingPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.mod_setting_prototypes Online documentation}
@@ -13114,7 +13293,7 @@ declare module "factorio:runtime" {
      * A dictionary containing every LuaAmmoCategoryPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.ammo_category_prototypes Online documentation}
      */
-    readonly ammo_category_prototypes: LuaCustomTable<string, LuaAmmoCategoryPrototype>
+    readonly ammo_category_prototypes: LuaCustomTable<AmmoCategoryID, LuaAmmoCategoryPrototype>
     /**
      * A dictionary containing every LuaNamedNoiseExpression indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.named_noise_expressions Online documentation}
@@ -13134,12 +13313,12 @@ declare module "factorio:runtime" {
      * A dictionary containing every LuaFuelCategoryPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.fuel_category_prototypes Online documentation}
      */
-    readonly fuel_category_prototypes: LuaCustomTable<string, LuaFuelCategoryPrototype>
+    readonly fuel_category_prototypes: LuaCustomTable<FuelCategoryID, LuaFuelCategoryPrototype>
     /**
      * A dictionary containing every LuaResourceCategoryPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.resource_category_prototypes Online documentation}
      */
-    readonly resource_category_prototypes: LuaCustomTable<string, LuaResourceCategoryPrototype>
+    readonly resource_category_prototypes: LuaCustomTable<ResourceCategoryID, LuaResourceCategoryPrototype>
     /**
      * A dictionary containing every LuaAchievementPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.achievement_prototypes Online documentation}
@@ -13149,17 +13328,17 @@ declare module "factorio:runtime" {
      * A dictionary containing every LuaModuleCategoryPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.module_category_prototypes Online documentation}
      */
-    readonly module_category_prototypes: LuaCustomTable<string, LuaModuleCategoryPrototype>
+    readonly module_category_prototypes: LuaCustomTable<ModuleCategoryID, LuaModuleCategoryPrototype>
     /**
      * A dictionary containing every LuaEquipmentCategoryPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.equipment_category_prototypes Online documentation}
      */
-    readonly equipment_category_prototypes: LuaCustomTable<string, LuaEquipmentCategoryPrototype>
+    readonly equipment_category_prototypes: LuaCustomTable<EquipmentCategoryID, LuaEquipmentCategoryPrototype>
     /**
      * A dictionary containing every LuaTrivialSmokePrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.trivial_smoke_prototypes Online documentation}
      */
-    readonly trivial_smoke_prototypes: LuaCustomTable<string, LuaTrivialSmokePrototype>
+    readonly trivial_smoke_prototypes: LuaCustomTable<TrivialSmokeID, LuaTrivialSmokePrototype>
     /**
      * A dictionary containing every LuaShortcutPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.shortcut_prototypes Online documentation}
@@ -13169,7 +13348,7 @@ declare module "factorio:runtime" {
      * A dictionary containing every LuaRecipeCategoryPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.recipe_category_prototypes Online documentation}
      */
-    readonly recipe_category_prototypes: LuaCustomTable<string, LuaRecipeCategoryPrototype>
+    readonly recipe_category_prototypes: LuaCustomTable<RecipeCategoryID, LuaRecipeCategoryPrototype>
     /**
      * A dictionary containing every LuaFontPrototype indexed by `name`.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGameScript.html#LuaGameScript.font_prototypes Online documentation}
@@ -13527,7 +13706,7 @@ declare module "factorio:runtime" {
   /**
    * Common attributes to all variants of {@link GuiSpec}.
    */
-  export interface BaseGuiSpec {
+  export interface BaseGuiSpec<T extends object = GuiElementTags> {
     /**
      * The kind of element to add, which potentially has its own attributes as listed below.
      */
@@ -13567,7 +13746,7 @@ declare module "factorio:runtime" {
     /**
      * {@link Tags} associated with the child element.
      */
-    readonly tags?: Tags
+    readonly tags?: T
     /**
      * Location in its parent that the child element should slot into. By default, the child will be appended onto the end.
      */
@@ -13588,7 +13767,7 @@ declare module "factorio:runtime" {
   /**
    * `"button"` variant of {@link GuiSpec}.
    */
-  export interface ButtonGuiSpec extends BaseGuiSpec {
+  export interface ButtonGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "button"
     /**
      * Which mouse buttons the button responds to. Defaults to `"left-and-right"`.
@@ -13606,7 +13785,7 @@ declare module "factorio:runtime" {
   /**
    * `"flow"` variant of {@link GuiSpec}.
    */
-  export interface FlowGuiSpec extends BaseGuiSpec {
+  export interface FlowGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "flow"
     /**
      * The initial direction of the flow's layout. Defaults to `"horizontal"`.
@@ -13616,7 +13795,7 @@ declare module "factorio:runtime" {
   /**
    * `"frame"` variant of {@link GuiSpec}.
    */
-  export interface FrameGuiSpec extends BaseGuiSpec {
+  export interface FrameGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "frame"
     /**
      * The initial direction of the frame's layout. Defaults to `"horizontal"`.
@@ -13626,7 +13805,7 @@ declare module "factorio:runtime" {
   /**
    * `"table"` variant of {@link GuiSpec}.
    */
-  export interface TableGuiSpec extends BaseGuiSpec {
+  export interface TableGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "table"
     /**
      * Number of columns. This can't be changed after the table is created.
@@ -13652,7 +13831,7 @@ declare module "factorio:runtime" {
   /**
    * `"textfield"` variant of {@link GuiSpec}.
    */
-  export interface TextFieldGuiSpec extends BaseGuiSpec {
+  export interface TextFieldGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "textfield"
     /**
      * The initial text contained in the textfield.
@@ -13686,7 +13865,7 @@ declare module "factorio:runtime" {
   /**
    * `"progressbar"` variant of {@link GuiSpec}.
    */
-  export interface ProgressBarGuiSpec extends BaseGuiSpec {
+  export interface ProgressBarGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "progressbar"
     /**
      * The initial value of the progressbar, in the range [0, 1]. Defaults to `0`.
@@ -13696,7 +13875,7 @@ declare module "factorio:runtime" {
   /**
    * `"checkbox"` variant of {@link GuiSpec}.
    */
-  export interface CheckboxGuiSpec extends BaseGuiSpec {
+  export interface CheckboxGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "checkbox"
     /**
      * The initial checked-state of the checkbox.
@@ -13706,7 +13885,7 @@ declare module "factorio:runtime" {
   /**
    * `"radiobutton"` variant of {@link GuiSpec}.
    */
-  export interface RadioButtonGuiSpec extends BaseGuiSpec {
+  export interface RadioButtonGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "radiobutton"
     /**
      * The initial checked-state of the radiobutton.
@@ -13716,7 +13895,7 @@ declare module "factorio:runtime" {
   /**
    * `"sprite-button"` variant of {@link GuiSpec}.
    */
-  export interface SpriteButtonGuiSpec extends BaseGuiSpec {
+  export interface SpriteButtonGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "sprite-button"
     /**
      * Path to the image to display on the button.
@@ -13754,7 +13933,7 @@ declare module "factorio:runtime" {
   /**
    * `"sprite"` variant of {@link GuiSpec}.
    */
-  export interface SpriteGuiSpec extends BaseGuiSpec {
+  export interface SpriteGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "sprite"
     /**
      * Path to the image to display.
@@ -13768,7 +13947,7 @@ declare module "factorio:runtime" {
   /**
    * `"scroll-pane"` variant of {@link GuiSpec}.
    */
-  export interface ScrollPaneGuiSpec extends BaseGuiSpec {
+  export interface ScrollPaneGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "scroll-pane"
     /**
      * Policy of the horizontal scroll bar. Defaults to `"auto"`.
@@ -13782,7 +13961,7 @@ declare module "factorio:runtime" {
   /**
    * `"drop-down"` variant of {@link GuiSpec}.
    */
-  export interface DropDownGuiSpec extends BaseGuiSpec {
+  export interface DropDownGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "drop-down"
     /**
      * The initial items in the dropdown.
@@ -13796,7 +13975,7 @@ declare module "factorio:runtime" {
   /**
    * `"line"` variant of {@link GuiSpec}.
    */
-  export interface LineGuiSpec extends BaseGuiSpec {
+  export interface LineGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "line"
     /**
      * The initial direction of the line. Defaults to `"horizontal"`.
@@ -13806,7 +13985,7 @@ declare module "factorio:runtime" {
   /**
    * `"list-box"` variant of {@link GuiSpec}.
    */
-  export interface ListBoxGuiSpec extends BaseGuiSpec {
+  export interface ListBoxGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "list-box"
     /**
      * The initial items in the listbox.
@@ -13820,7 +13999,7 @@ declare module "factorio:runtime" {
   /**
    * `"camera"` variant of {@link GuiSpec}.
    */
-  export interface CameraGuiSpec extends BaseGuiSpec {
+  export interface CameraGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "camera"
     /**
      * The position the camera centers on.
@@ -13860,64 +14039,69 @@ declare module "factorio:runtime" {
     equipment: EquipmentPrototypeFilter[]
     technology: TechnologyPrototypeFilter[]
   }
-  export interface BaseChooseElemButtonSpec extends BaseGuiSpec {
+  export interface BaseChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "choose-elem-button"
     /** The type of the button - one of the following values. */
     readonly elem_type: ChooseElemButtonType
     /** Filters describing what to show in the selection window. See {@link LuaGuiElement.elem_filters LuaGuiElement::elem_filters}. */
     readonly elem_filters?: ChooseElemButtonFilters[this["elem_type"]]
   }
-  export interface ItemChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+  export interface ItemChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
     readonly elem_type: "item"
     /** If type is `"item"` - the default value for the button. */
     readonly item?: string
   }
-  export interface TileChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+  export interface TileChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
     readonly elem_type: "tile"
     /** If type is `"tile"` - the default value for the button. */
     readonly tile?: string
   }
-  export interface EntityChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+  export interface EntityChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
     readonly elem_type: "entity"
     /** If type is `"entity"` - the default value for the button. */
     readonly entity?: string
   }
-  export interface SignalChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+  export interface SignalChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
     readonly elem_type: "signal"
     /** If type is `"signal"` - the default value for the button. */
     readonly signal?: SignalID
   }
-  export interface FluidChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+  export interface FluidChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
     readonly elem_type: "fluid"
     /** If type is `"fluid"` - the default value for the button. */
     readonly fluid?: string
   }
-  export interface RecipeChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+  export interface RecipeChooseElemButtonSpec<T extends object = GuiElementTags> extends BaseChooseElemButtonSpec<T> {
     readonly elem_type: "recipe"
     /** If type is `"recipe"` - the default value for the button. */
     readonly recipe?: string
   }
-  export interface DecorativeChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+  export interface DecorativeChooseElemButtonSpec<T extends object = GuiElementTags>
+    extends BaseChooseElemButtonSpec<T> {
     readonly elem_type: "decorative"
     /** If type is `"decorative"` - the default value for the button. */
     readonly decorative?: string
   }
-  export interface ItemGroupChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+  export interface ItemGroupChooseElemButtonSpec<T extends object = GuiElementTags>
+    extends BaseChooseElemButtonSpec<T> {
     readonly elem_type: "item-group"
     /** If type is `"item-group"` - the default value for the button. */
     readonly "item-group"?: string
   }
-  export interface AchievementChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+  export interface AchievementChooseElemButtonSpec<T extends object = GuiElementTags>
+    extends BaseChooseElemButtonSpec<T> {
     readonly elem_type: "achievement"
     /** If type is `"achievement"` - the default value for the button. */
     readonly achievement?: string
   }
-  export interface EquipmentChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+  export interface EquipmentChooseElemButtonSpec<T extends object = GuiElementTags>
+    extends BaseChooseElemButtonSpec<T> {
     readonly elem_type: "equipment"
     /** If type is `"equipment"` - the default value for the button. */
     readonly equipment?: string
   }
-  export interface TechnologyChooseElemButtonSpec extends BaseChooseElemButtonSpec {
+  export interface TechnologyChooseElemButtonSpec<T extends object = GuiElementTags>
+    extends BaseChooseElemButtonSpec<T> {
     readonly elem_type: "technology"
     /** If type is `"technology"` - the default value for the button. */
     readonly technology?: string
@@ -13925,22 +14109,22 @@ declare module "factorio:runtime" {
   /**
    * `"choose-elem-button"` variant of {@link GuiSpec}.
    */
-  export type ChooseElemButtonGuiSpec =
-    | ItemChooseElemButtonSpec
-    | TileChooseElemButtonSpec
-    | EntityChooseElemButtonSpec
-    | SignalChooseElemButtonSpec
-    | FluidChooseElemButtonSpec
-    | RecipeChooseElemButtonSpec
-    | DecorativeChooseElemButtonSpec
-    | ItemGroupChooseElemButtonSpec
-    | AchievementChooseElemButtonSpec
-    | EquipmentChooseElemButtonSpec
-    | TechnologyChooseElemButtonSpec
+  export type ChooseElemButtonGuiSpec<T extends object = GuiElementTags> =
+    | ItemChooseElemButtonSpec<T>
+    | TileChooseElemButtonSpec<T>
+    | EntityChooseElemButtonSpec<T>
+    | SignalChooseElemButtonSpec<T>
+    | FluidChooseElemButtonSpec<T>
+    | RecipeChooseElemButtonSpec<T>
+    | DecorativeChooseElemButtonSpec<T>
+    | ItemGroupChooseElemButtonSpec<T>
+    | AchievementChooseElemButtonSpec<T>
+    | EquipmentChooseElemButtonSpec<T>
+    | TechnologyChooseElemButtonSpec<T>
   /**
    * `"text-box"` variant of {@link GuiSpec}.
    */
-  export interface TextBoxGuiSpec extends BaseGuiSpec {
+  export interface TextBoxGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "text-box"
     /**
      * The initial text contained in the text-box.
@@ -13954,7 +14138,7 @@ declare module "factorio:runtime" {
   /**
    * `"slider"` variant of {@link GuiSpec}.
    */
-  export interface SliderGuiSpec extends BaseGuiSpec {
+  export interface SliderGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "slider"
     /**
      * The minimum value for the slider. Defaults to `0`.
@@ -13984,7 +14168,7 @@ declare module "factorio:runtime" {
   /**
    * `"minimap"` variant of {@link GuiSpec}.
    */
-  export interface MinimapGuiSpec extends BaseGuiSpec {
+  export interface MinimapGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "minimap"
     /**
      * The position the minimap centers on. Defaults to the player's current position.
@@ -14010,7 +14194,7 @@ declare module "factorio:runtime" {
   /**
    * `"tab"` variant of {@link GuiSpec}.
    */
-  export interface TabGuiSpec extends BaseGuiSpec {
+  export interface TabGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "tab"
     /**
      * The text to display after the normal tab text (designed to work with numbers).
@@ -14020,7 +14204,7 @@ declare module "factorio:runtime" {
   /**
    * `"switch"` variant of {@link GuiSpec}.
    */
-  export interface SwitchGuiSpec extends BaseGuiSpec {
+  export interface SwitchGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "switch"
     /**
      * If set to "none", `allow_none_state` must be `true`. Defaults to `"left"`.
@@ -14038,32 +14222,99 @@ declare module "factorio:runtime" {
   /**
    * Variants of {@link GuiSpec} with no additional attributes.
    */
-  export interface OtherGuiSpec extends BaseGuiSpec {
+  export interface OtherGuiSpec<T extends object = GuiElementTags> extends BaseGuiSpec<T> {
     readonly type: "label" | "entity-preview" | "empty-widget" | "tabbed-pane"
   }
-  export type GuiSpec =
-    | ButtonGuiSpec
-    | FlowGuiSpec
-    | FrameGuiSpec
-    | TableGuiSpec
-    | TextFieldGuiSpec
-    | ProgressBarGuiSpec
-    | CheckboxGuiSpec
-    | RadioButtonGuiSpec
-    | SpriteButtonGuiSpec
-    | SpriteGuiSpec
-    | ScrollPaneGuiSpec
-    | DropDownGuiSpec
-    | LineGuiSpec
-    | ListBoxGuiSpec
-    | CameraGuiSpec
-    | ChooseElemButtonGuiSpec
-    | TextBoxGuiSpec
-    | SliderGuiSpec
-    | MinimapGuiSpec
-    | TabGuiSpec
-    | SwitchGuiSpec
-    | OtherGuiSpec
+  export type GuiSpec<T extends object = GuiElementTags> =
+    | ButtonGuiSpec<T>
+    | FlowGuiSpec<T>
+    | FrameGuiSpec<T>
+    | TableGuiSpec<T>
+    | TextFieldGuiSpec<T>
+    | ProgressBarGuiSpec<T>
+    | CheckboxGuiSpec<T>
+    | RadioButtonGuiSpec<T>
+    | SpriteButtonGuiSpec<T>
+    | SpriteGuiSpec<T>
+    | ScrollPaneGuiSpec<T>
+    | DropDownGuiSpec<T>
+    | LineGuiSpec<T>
+    | ListBoxGuiSpec<T>
+    | CameraGuiSpec<T>
+    | ChooseElemButtonGuiSpec<T>
+    | TextBoxGuiSpec<T>
+    | SliderGuiSpec<T>
+    | MinimapGuiSpec<T>
+    | TabGuiSpec<T>
+    | SwitchGuiSpec<T>
+    | OtherGuiSpec<T>
+  /**
+   * A {@link GuiSpec} for a whole tree of gui elements, e.g. for a gui building library.
+   *
+   * In addition to the gui spec, each element may have:
+   * - `children`: child elements to add.
+   * - `style_mods`: modifications to the element's {@link LuaStyle style}.
+   * - `ref`: a name or path of names for the created element, which can then be found in {@link GuiRefs}.
+   */
+  export type GuiTreeSpec = GuiSpec & {
+    readonly children?: readonly GuiTreeSpec[]
+    readonly style_mods?: GuiStyleMods
+    readonly ref?: string | readonly string[]
+  }
+  /**
+   * The elements created from a {@link GuiTreeSpec}, as a map of `ref` name -> gui element type.
+   * A ref path (e.g. `["titlebar", "close_button"]`) gives nested maps.
+   *
+   * Refs should be unique within a tree; elements with the same ref give a union of their element types.
+   *
+   * For ref names and element types to be inferred, the spec should be declared `as const`.
+   * @example
+   * const spec = {
+   *   type: "frame",
+   *   children: [
+   *     { type: "button", ref: "close_button" },
+   *     { type: "label", ref: ["titlebar", "caption"] },
+   *   ],
+   * } as const satisfies GuiTreeSpec
+   * type Refs = GuiRefs<typeof spec> // { close_button: ButtonGuiElement, titlebar: { caption: LabelGuiElement } }
+   */
+  export type GuiRefs<Spec extends GuiTreeSpec> = GuiRefTree<GuiRefEntry<Spec>>
+  /** A [ref path, gui element type] pair for each element with a `ref` in a {@link GuiTreeSpec}. */
+  export type GuiRefEntry<Spec> =
+    | (Spec extends {
+        readonly ref: infer R extends string | readonly string[]
+        readonly type: infer T
+      }
+        ? [
+            R extends string ? [R] : R,
+            Extract<
+              LuaGuiElement,
+              {
+                readonly type: T
+              }
+            >,
+          ]
+        : never)
+    | (Spec extends {
+        readonly children: readonly (infer C)[]
+      }
+        ? GuiRefEntry<C>
+        : never)
+  /** Nested maps of ref names to gui element types, from {@link GuiRefEntry} pairs. */
+  export type GuiRefTree<Entry extends [readonly string[], unknown]> = {
+    [K in Entry[0][0]]: [GuiRefTreeChildren<Entry, K>] extends [never]
+      ? Entry extends [readonly [K], infer E]
+        ? E
+        : never
+      : GuiRefTree<GuiRefTreeChildren<Entry, K>>
+  }
+  /** The {@link GuiRefEntry} pairs under the ref name `K`, with `K` removed from their paths. */
+  export type GuiRefTreeChildren<Entry, K> = Entry extends [
+    readonly [K, infer Next extends string, ...infer Rest extends string[]],
+    infer E,
+  ]
+    ? [[Next, ...Rest], E]
+    : never
   export interface GuiElementIndexer {
     /**
      * The indexing operator. Gets children by name.
@@ -14074,7 +14325,7 @@ declare module "factorio:runtime" {
   /**
    * @noSelf
    */
-  export interface BaseGuiElement {
+  export interface BaseGuiElement<T extends object = GuiElementTags> {
     /**
      * Add a new child element to this GuiElement.
      *
@@ -14105,12 +14356,13 @@ declare module "factorio:runtime" {
      * @returns The GUI element that was added.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.add Online documentation}
      */
-    add<Type extends GuiElementType>(
-      element: GuiSpec & {
+    add<Type extends GuiElementType, Name extends string = string>(
+      element: GuiSpec<GuiElementTags<Name>> & {
         type: Type
+        name?: Name
       },
     ): Extract<
-      LuaGuiElement,
+      LuaGuiElement<GuiElementTags<Name>>,
       {
         type: Type
       }
@@ -14269,7 +14521,7 @@ declare module "factorio:runtime" {
      * The tags associated with this LuaGuiElement.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.tags Online documentation}
      */
-    tags: Tags
+    tags: T
     /**
      * Whether this element will raise {@link OnGuiHoverEvent on_gui_hover} and {@link OnGuiLeaveEvent on_gui_leave}.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.raise_hover_events Online documentation}
@@ -14284,7 +14536,7 @@ declare module "factorio:runtime" {
      */
     readonly object_name: "LuaGuiElement"
   }
-  export interface ButtonGuiElementMembers extends BaseGuiElement {
+  export interface ButtonGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14313,8 +14565,8 @@ declare module "factorio:runtime" {
     get mouse_button_filter(): MouseButtonFlags
     set mouse_button_filter(value: MouseButtonFlagsWrite)
   }
-  export type ButtonGuiElement = ButtonGuiElementMembers & GuiElementIndexer
-  export interface SpriteButtonGuiElementMembers extends BaseGuiElement {
+  export type ButtonGuiElement<T extends object = GuiElementTags> = ButtonGuiElementMembers<T> & GuiElementIndexer
+  export interface SpriteButtonGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14378,8 +14630,9 @@ declare module "factorio:runtime" {
     get mouse_button_filter(): MouseButtonFlags
     set mouse_button_filter(value: MouseButtonFlagsWrite)
   }
-  export type SpriteButtonGuiElement = SpriteButtonGuiElementMembers & GuiElementIndexer
-  export interface CheckboxGuiElementMembers extends BaseGuiElement {
+  export type SpriteButtonGuiElement<T extends object = GuiElementTags> = SpriteButtonGuiElementMembers<T> &
+    GuiElementIndexer
+  export interface CheckboxGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14393,8 +14646,8 @@ declare module "factorio:runtime" {
      */
     state: boolean
   }
-  export type CheckboxGuiElement = CheckboxGuiElementMembers & GuiElementIndexer
-  export interface FlowGuiElementMembers extends BaseGuiElement {
+  export type CheckboxGuiElement<T extends object = GuiElementTags> = CheckboxGuiElementMembers<T> & GuiElementIndexer
+  export interface FlowGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14423,11 +14676,11 @@ declare module "factorio:runtime" {
      */
     drag_target?: FrameGuiElement
   }
-  export type FlowGuiElement = FlowGuiElementMembers & GuiElementIndexer
+  export type FlowGuiElement<T extends object = GuiElementTags> = FlowGuiElementMembers<T> & GuiElementIndexer
   /**
    * @noSelf
    */
-  export interface FrameGuiElementMembers extends BaseGuiElement {
+  export interface FrameGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14473,8 +14726,8 @@ declare module "factorio:runtime" {
      */
     drag_target?: FrameGuiElement
   }
-  export type FrameGuiElement = FrameGuiElementMembers & GuiElementIndexer
-  export interface LabelGuiElementMembers extends BaseGuiElement {
+  export type FrameGuiElement<T extends object = GuiElementTags> = FrameGuiElementMembers<T> & GuiElementIndexer
+  export interface LabelGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14496,8 +14749,8 @@ declare module "factorio:runtime" {
      */
     drag_target?: FrameGuiElement
   }
-  export type LabelGuiElement = LabelGuiElementMembers & GuiElementIndexer
-  export interface LineGuiElementMembers extends BaseGuiElement {
+  export type LabelGuiElement<T extends object = GuiElementTags> = LabelGuiElementMembers<T> & GuiElementIndexer
+  export interface LineGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14511,8 +14764,8 @@ declare module "factorio:runtime" {
      */
     readonly direction: GuiDirection
   }
-  export type LineGuiElement = LineGuiElementMembers & GuiElementIndexer
-  export interface ProgressBarGuiElementMembers extends BaseGuiElement {
+  export type LineGuiElement<T extends object = GuiElementTags> = LineGuiElementMembers<T> & GuiElementIndexer
+  export interface ProgressBarGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14526,8 +14779,9 @@ declare module "factorio:runtime" {
      */
     value: double
   }
-  export type ProgressBarGuiElement = ProgressBarGuiElementMembers & GuiElementIndexer
-  export interface TableGuiElementMembers extends BaseGuiElement {
+  export type ProgressBarGuiElement<T extends object = GuiElementTags> = ProgressBarGuiElementMembers<T> &
+    GuiElementIndexer
+  export interface TableGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14584,11 +14838,11 @@ declare module "factorio:runtime" {
      */
     drag_target?: FrameGuiElement
   }
-  export type TableGuiElement = TableGuiElementMembers & GuiElementIndexer
+  export type TableGuiElement<T extends object = GuiElementTags> = TableGuiElementMembers<T> & GuiElementIndexer
   /**
    * @noSelf
    */
-  export interface TextFieldGuiElementMembers extends BaseGuiElement {
+  export interface TextFieldGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14666,8 +14920,8 @@ declare module "factorio:runtime" {
      */
     clear_and_focus_on_right_click: boolean
   }
-  export type TextFieldGuiElement = TextFieldGuiElementMembers & GuiElementIndexer
-  export interface RadioButtonGuiElementMembers extends BaseGuiElement {
+  export type TextFieldGuiElement<T extends object = GuiElementTags> = TextFieldGuiElementMembers<T> & GuiElementIndexer
+  export interface RadioButtonGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14681,8 +14935,9 @@ declare module "factorio:runtime" {
      */
     state: boolean
   }
-  export type RadioButtonGuiElement = RadioButtonGuiElementMembers & GuiElementIndexer
-  export interface SpriteGuiElementMembers extends BaseGuiElement {
+  export type RadioButtonGuiElement<T extends object = GuiElementTags> = RadioButtonGuiElementMembers<T> &
+    GuiElementIndexer
+  export interface SpriteGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14703,11 +14958,11 @@ declare module "factorio:runtime" {
      */
     resize_to_sprite: boolean
   }
-  export type SpriteGuiElement = SpriteGuiElementMembers & GuiElementIndexer
+  export type SpriteGuiElement<T extends object = GuiElementTags> = SpriteGuiElementMembers<T> & GuiElementIndexer
   /**
    * @noSelf
    */
-  export interface ScrollPaneGuiElementMembers extends BaseGuiElement {
+  export interface ScrollPaneGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14765,11 +15020,12 @@ declare module "factorio:runtime" {
      */
     vertical_scroll_policy: ScrollPolicy
   }
-  export type ScrollPaneGuiElement = ScrollPaneGuiElementMembers & GuiElementIndexer
+  export type ScrollPaneGuiElement<T extends object = GuiElementTags> = ScrollPaneGuiElementMembers<T> &
+    GuiElementIndexer
   /**
    * @noSelf
    */
-  export interface DropDownGuiElementMembers extends BaseGuiElement {
+  export interface DropDownGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14836,11 +15092,11 @@ declare module "factorio:runtime" {
      */
     selected_index: uint
   }
-  export type DropDownGuiElement = DropDownGuiElementMembers & GuiElementIndexer
+  export type DropDownGuiElement<T extends object = GuiElementTags> = DropDownGuiElementMembers<T> & GuiElementIndexer
   /**
    * @noSelf
    */
-  export interface ListBoxGuiElementMembers extends BaseGuiElement {
+  export interface ListBoxGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14911,8 +15167,8 @@ declare module "factorio:runtime" {
      */
     selected_index: uint
   }
-  export type ListBoxGuiElement = ListBoxGuiElementMembers & GuiElementIndexer
-  export interface CameraGuiElementMembers extends BaseGuiElement {
+  export type ListBoxGuiElement<T extends object = GuiElementTags> = ListBoxGuiElementMembers<T> & GuiElementIndexer
+  export interface CameraGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -14948,8 +15204,8 @@ declare module "factorio:runtime" {
      */
     entity?: LuaEntity
   }
-  export type CameraGuiElement = CameraGuiElementMembers & GuiElementIndexer
-  export interface ChooseElemButtonGuiElementMembers extends BaseGuiElement {
+  export type CameraGuiElement<T extends object = GuiElementTags> = CameraGuiElementMembers<T> & GuiElementIndexer
+  export interface ChooseElemButtonGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -15000,11 +15256,12 @@ declare module "factorio:runtime" {
      */
     locked: boolean
   }
-  export type ChooseElemButtonGuiElement = ChooseElemButtonGuiElementMembers & GuiElementIndexer
+  export type ChooseElemButtonGuiElement<T extends object = GuiElementTags> = ChooseElemButtonGuiElementMembers<T> &
+    GuiElementIndexer
   /**
    * @noSelf
    */
-  export interface TextBoxGuiElementMembers extends BaseGuiElement {
+  export interface TextBoxGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -15096,11 +15353,11 @@ declare module "factorio:runtime" {
      */
     clear_and_focus_on_right_click: boolean
   }
-  export type TextBoxGuiElement = TextBoxGuiElementMembers & GuiElementIndexer
+  export type TextBoxGuiElement<T extends object = GuiElementTags> = TextBoxGuiElementMembers<T> & GuiElementIndexer
   /**
    * @noSelf
    */
-  export interface SliderGuiElementMembers extends BaseGuiElement {
+  export interface SliderGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -15159,8 +15416,8 @@ declare module "factorio:runtime" {
      */
     slider_value: double
   }
-  export type SliderGuiElement = SliderGuiElementMembers & GuiElementIndexer
-  export interface MinimapGuiElementMembers extends BaseGuiElement {
+  export type SliderGuiElement<T extends object = GuiElementTags> = SliderGuiElementMembers<T> & GuiElementIndexer
+  export interface MinimapGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -15210,8 +15467,8 @@ declare module "factorio:runtime" {
      */
     entity?: LuaEntity
   }
-  export type MinimapGuiElement = MinimapGuiElementMembers & GuiElementIndexer
-  export interface EntityPreviewGuiElementMembers extends BaseGuiElement {
+  export type MinimapGuiElement<T extends object = GuiElementTags> = MinimapGuiElementMembers<T> & GuiElementIndexer
+  export interface EntityPreviewGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -15225,8 +15482,9 @@ declare module "factorio:runtime" {
      */
     entity?: LuaEntity
   }
-  export type EntityPreviewGuiElement = EntityPreviewGuiElementMembers & GuiElementIndexer
-  export interface EmptyWidgetGuiElementMembers extends BaseGuiElement {
+  export type EntityPreviewGuiElement<T extends object = GuiElementTags> = EntityPreviewGuiElementMembers<T> &
+    GuiElementIndexer
+  export interface EmptyWidgetGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -15248,11 +15506,12 @@ declare module "factorio:runtime" {
      */
     drag_target?: FrameGuiElement
   }
-  export type EmptyWidgetGuiElement = EmptyWidgetGuiElementMembers & GuiElementIndexer
+  export type EmptyWidgetGuiElement<T extends object = GuiElementTags> = EmptyWidgetGuiElementMembers<T> &
+    GuiElementIndexer
   /**
    * @noSelf
    */
-  export interface TabbedPaneGuiElementMembers extends BaseGuiElement {
+  export interface TabbedPaneGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -15292,8 +15551,9 @@ declare module "factorio:runtime" {
      */
     readonly tabs: TabAndContent[]
   }
-  export type TabbedPaneGuiElement = TabbedPaneGuiElementMembers & GuiElementIndexer
-  export interface TabGuiElementMembers extends BaseGuiElement {
+  export type TabbedPaneGuiElement<T extends object = GuiElementTags> = TabbedPaneGuiElementMembers<T> &
+    GuiElementIndexer
+  export interface TabGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -15307,8 +15567,8 @@ declare module "factorio:runtime" {
      */
     badge_text: LocalisedString
   }
-  export type TabGuiElement = TabGuiElementMembers & GuiElementIndexer
-  export interface SwitchGuiElementMembers extends BaseGuiElement {
+  export type TabGuiElement<T extends object = GuiElementTags> = TabGuiElementMembers<T> & GuiElementIndexer
+  export interface SwitchGuiElementMembers<T extends object = GuiElementTags> extends BaseGuiElement<T> {
     /**
      * The type of this GUI element.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html#LuaGuiElement.type Online documentation}
@@ -15361,33 +15621,33 @@ declare module "factorio:runtime" {
      */
     right_label_tooltip: LocalisedString
   }
-  export type SwitchGuiElement = SwitchGuiElementMembers & GuiElementIndexer
-  type GuiElementMembers =
-    | ButtonGuiElementMembers
-    | SpriteButtonGuiElementMembers
-    | CheckboxGuiElementMembers
-    | FlowGuiElementMembers
-    | FrameGuiElementMembers
-    | LabelGuiElementMembers
-    | LineGuiElementMembers
-    | ProgressBarGuiElementMembers
-    | TableGuiElementMembers
-    | TextFieldGuiElementMembers
-    | RadioButtonGuiElementMembers
-    | SpriteGuiElementMembers
-    | ScrollPaneGuiElementMembers
-    | DropDownGuiElementMembers
-    | ListBoxGuiElementMembers
-    | CameraGuiElementMembers
-    | ChooseElemButtonGuiElementMembers
-    | TextBoxGuiElementMembers
-    | SliderGuiElementMembers
-    | MinimapGuiElementMembers
-    | EntityPreviewGuiElementMembers
-    | EmptyWidgetGuiElementMembers
-    | TabbedPaneGuiElementMembers
-    | TabGuiElementMembers
-    | SwitchGuiElementMembers
+  export type SwitchGuiElement<T extends object = GuiElementTags> = SwitchGuiElementMembers<T> & GuiElementIndexer
+  type GuiElementMembers<T extends object = GuiElementTags> =
+    | ButtonGuiElementMembers<T>
+    | SpriteButtonGuiElementMembers<T>
+    | CheckboxGuiElementMembers<T>
+    | FlowGuiElementMembers<T>
+    | FrameGuiElementMembers<T>
+    | LabelGuiElementMembers<T>
+    | LineGuiElementMembers<T>
+    | ProgressBarGuiElementMembers<T>
+    | TableGuiElementMembers<T>
+    | TextFieldGuiElementMembers<T>
+    | RadioButtonGuiElementMembers<T>
+    | SpriteGuiElementMembers<T>
+    | ScrollPaneGuiElementMembers<T>
+    | DropDownGuiElementMembers<T>
+    | ListBoxGuiElementMembers<T>
+    | CameraGuiElementMembers<T>
+    | ChooseElemButtonGuiElementMembers<T>
+    | TextBoxGuiElementMembers<T>
+    | SliderGuiElementMembers<T>
+    | MinimapGuiElementMembers<T>
+    | EntityPreviewGuiElementMembers<T>
+    | EmptyWidgetGuiElementMembers<T>
+    | TabbedPaneGuiElementMembers<T>
+    | TabGuiElementMembers<T>
+    | SwitchGuiElementMembers<T>
   /**
    * An element of a custom GUI. This type is used to represent {@link GuiElementType any kind} of a GUI element - labels, buttons and frames are all instances of this type. Just like {@link LuaEntity}, different kinds of elements support different attributes; attempting to access an attribute on an element that doesn't support it (for instance, trying to access the `column_count` of a `textfield`) will result in a runtime error.
    *
@@ -15411,7 +15671,7 @@ declare module "factorio:runtime" {
    * tabbed_pane.add_tab(tab2, label2)
    * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaGuiElement.html Online documentation}
    */
-  type LuaGuiElement = GuiElementMembers & GuiElementIndexer
+  type LuaGuiElement<T extends object = GuiElementTags> = GuiElementMembers<T> & GuiElementIndexer
   /**
    * Prototype of a heat buffer.
    * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaHeatBufferPrototype.html Online documentation}
@@ -17574,7 +17834,7 @@ declare module "factorio:runtime" {
      * {@link https://lua-api.factorio.com/1.1.110/classes/LuaItemStack.html#LuaItemStack.item_number > Only these types of items have unique IDs:}
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaItemStack.html#LuaItemStack.item_number Online documentation}
      */
-    readonly item_number?: uint
+    readonly item_number?: ItemNumber
     /**
      * If this item is a spidertron remote that has a spidertron bound to it, it returns the connected spider-vehicle entity.
      *
@@ -17947,7 +18207,7 @@ declare module "factorio:runtime" {
      * {@link https://lua-api.factorio.com/1.1.110/classes/LuaItemStack.html#LuaItemStack.item_number > Only these types of items have unique IDs:}
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaItemStack.html#LuaItemStack.item_number Online documentation}
      */
-    readonly item_number?: uint
+    readonly item_number?: ItemNumber
     /**
      * If this is a blueprint item.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaItemStack.html#LuaItemStack.is_blueprint Online documentation}
@@ -20643,7 +20903,11 @@ declare module "factorio:runtime" {
      * @param functions List of functions that are members of the new interface.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRemote.html#LuaRemote.add_interface Online documentation}
      */
-    add_interface(name: string, functions: Record<string, (...args: any) => void>): void
+    add_interface<I extends RemoteInterfaceName>(name: I, functions: RemoteInterfaces[I]): void
+    add_interface<I extends string>(
+      name: UndeclaredRemoteInterfaceName<I>,
+      functions: Record<string, (...args: any) => void>,
+    ): void
     /**
      * Removes an interface with the given name.
      * @param name Name of the interface.
@@ -20660,8 +20924,21 @@ declare module "factorio:runtime" {
      * @param args Arguments to pass to the called function. Note that any arguments passed through the interface are a copy of the original, not a reference. Metatables are not retained, while references to LuaObjects stay intact.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRemote.html#LuaRemote.call Online documentation}
      */
-    call<T extends (...args: any) => any>(_interface: string, _function: string, ...args: Parameters<T>): ReturnType<T>
-    call(_interface: string, _function: string, ...args: readonly Any[]): Any | nil
+    call<I extends RemoteInterfaceName, F extends RemoteFunctionName<I>>(
+      _interface: I,
+      _function: F,
+      ...args: RemoteFunctionParameters<I, F>
+    ): RemoteFunctionReturnType<I, F>
+    call<T extends (...args: any) => any, I extends string = string>(
+      _interface: UndeclaredRemoteInterfaceName<I>,
+      _function: string,
+      ...args: Parameters<T>
+    ): ReturnType<T>
+    call<I extends string>(
+      _interface: UndeclaredRemoteInterfaceName<I>,
+      _function: string,
+      ...args: readonly Any[]
+    ): Any | nil
     /**
      * All methods and properties that this object supports.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRemote.html#LuaRemote.help Online documentation}
@@ -20675,7 +20952,7 @@ declare module "factorio:runtime" {
      * game.player.print(tostring(remote.interfaces["human interactor"]["nonexistent"]))  -- prints nil
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRemote.html#LuaRemote.interfaces Online documentation}
      */
-    readonly interfaces: Record<string, Record<string, true>>
+    readonly interfaces: RemoteInterfacesMap
     /**
      * The class name of this object. Available even when `valid` is false. For LuaStruct objects it may also be suffixed with a dotted path to a member of the struct.
      */
@@ -20753,7 +21030,7 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create a text.
      *
@@ -20822,7 +21099,7 @@ declare module "factorio:runtime" {
        * If rich text rendering is enabled. Defaults to false.
        */
       readonly use_rich_text?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create a circle.
      * @returns Id of the render object
@@ -20872,7 +21149,7 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create a rectangle.
      * @returns Id of the render object
@@ -20926,7 +21203,7 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create an arc.
      * @returns Id of the render object
@@ -20980,7 +21257,7 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create a triangle mesh defined by a triangle strip.
      * @returns Id of the render object
@@ -21038,7 +21315,7 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create a sprite.
      * @returns Id of the render object
@@ -21114,7 +21391,7 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create a light.
      *
@@ -21177,7 +21454,7 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create an animation.
      * @returns Id of the render object
@@ -21258,12 +21535,12 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Destroy the object with the given id. Does not error when the object is invalid.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.destroy Online documentation}
      */
-    destroy(id: uint64): void
+    destroy(id: RenderObjectId): void
     /**
      * Does a font with this name exist?
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.is_font_valid Online documentation}
@@ -21273,13 +21550,13 @@ declare module "factorio:runtime" {
      * Does a valid object with this id exist?
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.is_valid Online documentation}
      */
-    is_valid(id: uint64): boolean
+    is_valid(id: RenderObjectId): boolean
     /**
      * Gets an array of all valid object ids.
      * @param mod_name If provided, get only the render objects created by this mod. An empty string (`""`) refers to all objects not belonging to a mod, such as those created using console commands.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_all_ids Online documentation}
      */
-    get_all_ids(mod_name?: string): uint64[]
+    get_all_ids(mod_name?: string): RenderObjectId[]
     /**
      * Destroys all render objects.
      * @param mod_name If provided, only the render objects created by this mod are destroyed. An empty string (`""`) refers to all objects not belonging to a mod, such as those created using console commands.
@@ -21291,100 +21568,100 @@ declare module "factorio:runtime" {
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_type Online documentation}
      */
     get_type(
-      id: uint64,
+      id: RenderObjectId,
     ): "text" | "line" | "circle" | "rectangle" | "arc" | "polygon" | "sprite" | "light" | "animation"
     /**
      * Reorder this object so that it is drawn in front of the already existing objects.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.bring_to_front Online documentation}
      */
-    bring_to_front(id: uint64): void
+    bring_to_front(id: RenderObjectId): void
     /**
      * Reorder this object so that it is drawn in the back of the already existing objects.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.move_to_back Online documentation}
      */
-    move_to_back(id: uint64): void
+    move_to_back(id: RenderObjectId): void
     /**
      * The surface the object with this id is rendered on.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_surface Online documentation}
      */
-    get_surface(id: uint64): LuaSurface
+    get_surface(id: RenderObjectId): LuaSurface
     /**
      * Get the time to live of the object with this id. This will be 0 if the object does not expire.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_time_to_live Online documentation}
      */
-    get_time_to_live(id: uint64): uint
+    get_time_to_live(id: RenderObjectId): uint
     /**
      * Set the time to live of the object with this id. Set to 0 if the object should not expire.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_time_to_live Online documentation}
      */
-    set_time_to_live(id: uint64, time_to_live: uint): void
+    set_time_to_live(id: RenderObjectId, time_to_live: uint): void
     /**
      * Get the forces that the object with this id is rendered to or `nil` if visible to all forces.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_forces Online documentation}
      */
-    get_forces(id: uint64): LuaForce[] | nil
+    get_forces(id: RenderObjectId): LuaForce[] | nil
     /**
      * Set the forces that the object with this id is rendered to.
      * @param forces Providing an empty array will set the object to be visible to all forces.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_forces Online documentation}
      */
-    set_forces(id: uint64, forces: readonly ForceIdentification[]): void
+    set_forces(id: RenderObjectId, forces: readonly ForceIdentification[]): void
     /**
      * Get the players that the object with this id is rendered to or `nil` if visible to all players.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_players Online documentation}
      */
-    get_players(id: uint64): LuaPlayer[] | nil
+    get_players(id: RenderObjectId): LuaPlayer[] | nil
     /**
      * Set the players that the object with this id is rendered to.
      * @param players Providing an empty array will set the object to be visible to all players.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_players Online documentation}
      */
-    set_players(id: uint64, players: readonly PlayerIdentification[]): void
+    set_players(id: RenderObjectId, players: readonly PlayerIdentification[]): void
     /**
      * Get whether this is rendered to anyone at all.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_visible Online documentation}
      */
-    get_visible(id: uint64): boolean
+    get_visible(id: RenderObjectId): boolean
     /**
      * Set whether this is rendered to anyone at all.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_visible Online documentation}
      */
-    set_visible(id: uint64, visible: boolean): void
+    set_visible(id: RenderObjectId, visible: boolean): void
     /**
      * Get whether this is being drawn on the ground, under most entities and sprites.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc or Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_draw_on_ground Online documentation}
      */
-    get_draw_on_ground(id: uint64): boolean
+    get_draw_on_ground(id: RenderObjectId): boolean
     /**
      * Set whether this is being drawn on the ground, under most entities and sprites.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc or Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_draw_on_ground Online documentation}
      */
-    set_draw_on_ground(id: uint64, draw_on_ground: boolean): void
+    set_draw_on_ground(id: RenderObjectId, draw_on_ground: boolean): void
     /**
      * Get whether this is only rendered in alt-mode.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_only_in_alt_mode Online documentation}
      */
-    get_only_in_alt_mode(id: uint64): boolean
+    get_only_in_alt_mode(id: RenderObjectId): boolean
     /**
      * Set whether this is only rendered in alt-mode.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_only_in_alt_mode Online documentation}
      */
-    set_only_in_alt_mode(id: uint64, only_in_alt_mode: boolean): void
+    set_only_in_alt_mode(id: RenderObjectId, only_in_alt_mode: boolean): void
     /**
      * Get whether this uses the target orientation.
      * @returns `nil` if the object is not a sprite, polygon, or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_use_target_orientation Online documentation}
      */
-    get_use_target_orientation(id: uint64): boolean | nil
+    get_use_target_orientation(id: RenderObjectId): boolean | nil
     /**
      * Set whether this uses the target orientation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_use_target_orientation Online documentation}
      */
-    set_use_target_orientation(id: uint64, use_target_orientation: boolean): void
+    set_use_target_orientation(id: RenderObjectId, use_target_orientation: boolean): void
     /**
      * Get the color or tint of the object with this id.
      *
@@ -21392,14 +21669,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support color.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_color Online documentation}
      */
-    get_color(id: uint64): Color | nil
+    get_color(id: RenderObjectId): Color | nil
     /**
      * Set the color or tint of the object with this id. Does nothing if this object does not support color.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_color Online documentation}
      */
-    set_color(id: uint64, color: Color | ColorArray): void
+    set_color(id: RenderObjectId, color: Color | ColorArray): void
     /**
      * Get the width of the object with this id. Value is in pixels (32 per tile).
      *
@@ -21407,14 +21684,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support width.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_width Online documentation}
      */
-    get_width(id: uint64): float | nil
+    get_width(id: RenderObjectId): float | nil
     /**
      * Set the width of the object with this id. Does nothing if this object does not support width. Value is in pixels (32 per tile).
      *
      * _Can only be used if this is Line, Circle or Rectangle_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_width Online documentation}
      */
-    set_width(id: uint64, width: float): void
+    set_width(id: RenderObjectId, width: float): void
     /**
      * Get from where the line with this id is drawn.
      *
@@ -21422,14 +21699,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if this object is not a line.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_from Online documentation}
      */
-    get_from(id: uint64): ScriptRenderTarget | nil
+    get_from(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set from where the line with this id is drawn. Does nothing if the object is not a line.
      *
      * _Can only be used if this is Line_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_from Online documentation}
      */
-    set_from(id: uint64, from: (MapPosition | MapPositionArray) | LuaEntity, from_offset?: Vector): void
+    set_from(id: RenderObjectId, from: (MapPosition | MapPositionArray) | LuaEntity, from_offset?: Vector): void
     /**
      * Get where the line with this id is drawn to.
      *
@@ -21437,14 +21714,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a line.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_to Online documentation}
      */
-    get_to(id: uint64): ScriptRenderTarget | nil
+    get_to(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set where the line with this id is drawn to. Does nothing if this object is not a line.
      *
      * _Can only be used if this is Line_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_to Online documentation}
      */
-    set_to(id: uint64, to: (MapPosition | MapPositionArray) | LuaEntity, to_offset?: Vector): void
+    set_to(id: RenderObjectId, to: (MapPosition | MapPositionArray) | LuaEntity, to_offset?: Vector): void
     /**
      * Get the dash length of the line with this id.
      *
@@ -21452,14 +21729,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a line.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_dash_length Online documentation}
      */
-    get_dash_length(id: uint64): double | nil
+    get_dash_length(id: RenderObjectId): double | nil
     /**
      * Set the dash length of the line with this id. Does nothing if this object is not a line.
      *
      * _Can only be used if this is Line_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_dash_length Online documentation}
      */
-    set_dash_length(id: uint64, dash_length: double): void
+    set_dash_length(id: RenderObjectId, dash_length: double): void
     /**
      * Get the length of the gaps in the line with this id.
      *
@@ -21467,21 +21744,21 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a line.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_gap_length Online documentation}
      */
-    get_gap_length(id: uint64): double | nil
+    get_gap_length(id: RenderObjectId): double | nil
     /**
      * Set the length of the gaps in the line with this id. Does nothing if this object is not a line.
      *
      * _Can only be used if this is Line_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_gap_length Online documentation}
      */
-    set_gap_length(id: uint64, gap_length: double): void
+    set_gap_length(id: RenderObjectId, gap_length: double): void
     /**
      * Set the length of the dashes and the length of the gaps in the line with this id. Does nothing if this object is not a line.
      *
      * _Can only be used if this is Line_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_dashes Online documentation}
      */
-    set_dashes(id: uint64, dash_length: double, gap_length: double): void
+    set_dashes(id: RenderObjectId, dash_length: double, gap_length: double): void
     /**
      * Get where the object with this id is drawn.
      *
@@ -21491,7 +21768,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support target.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_target Online documentation}
      */
-    get_target(id: uint64): ScriptRenderTarget | nil
+    get_target(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set where the object with this id is drawn. Does nothing if this object does not support target.
      *
@@ -21500,7 +21777,7 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Circle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_target Online documentation}
      */
-    set_target(id: uint64, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
+    set_target(id: RenderObjectId, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
     /**
      * Get the orientation of the object with this id.
      *
@@ -21510,7 +21787,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text, polygon, sprite, light or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_orientation Online documentation}
      */
-    get_orientation(id: uint64): RealOrientation | nil
+    get_orientation(id: RenderObjectId): RealOrientation | nil
     /**
      * Set the orientation of the object with this id. Does nothing if this object is not a text, polygon, sprite, light or animation.
      *
@@ -21519,7 +21796,7 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_orientation Online documentation}
      */
-    set_orientation(id: uint64, orientation: RealOrientation): void
+    set_orientation(id: RenderObjectId, orientation: RealOrientation): void
     /**
      * Get the scale of the text or light with this id.
      *
@@ -21527,14 +21804,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text or light.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_scale Online documentation}
      */
-    get_scale(id: uint64): double | nil
+    get_scale(id: RenderObjectId): double | nil
     /**
      * Set the scale of the text or light with this id. Does nothing if this object is not a text or light.
      *
      * _Can only be used if this is Text or Light_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_scale Online documentation}
      */
-    set_scale(id: uint64, scale: double): void
+    set_scale(id: RenderObjectId, scale: double): void
     /**
      * Get the text that is displayed by the text with this id.
      *
@@ -21542,14 +21819,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_text Online documentation}
      */
-    get_text(id: uint64): LocalisedString | nil
+    get_text(id: RenderObjectId): LocalisedString | nil
     /**
      * Set the text that is displayed by the text with this id. Does nothing if this object is not a text.
      *
      * _Can only be used if this is Text_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_text Online documentation}
      */
-    set_text(id: uint64, text: LocalisedString): void
+    set_text(id: RenderObjectId, text: LocalisedString): void
     /**
      * Get the font of the text with this id.
      *
@@ -21557,14 +21834,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_font Online documentation}
      */
-    get_font(id: uint64): string | nil
+    get_font(id: RenderObjectId): string | nil
     /**
      * Set the font of the text with this id. Does nothing if this object is not a text.
      *
      * _Can only be used if this is Text_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_font Online documentation}
      */
-    set_font(id: uint64, font: string): void
+    set_font(id: RenderObjectId, font: string): void
     /**
      * Get the alignment of the text with this id.
      *
@@ -21572,14 +21849,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_alignment Online documentation}
      */
-    get_alignment(id: uint64): TextAlign | nil
+    get_alignment(id: RenderObjectId): TextAlign | nil
     /**
      * Set the alignment of the text with this id. Does nothing if this object is not a text.
      *
      * _Can only be used if this is Text_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_alignment Online documentation}
      */
-    set_alignment(id: uint64, alignment: TextAlign): void
+    set_alignment(id: RenderObjectId, alignment: TextAlign): void
     /**
      * Get the vertical alignment of the text with this id.
      *
@@ -21587,14 +21864,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_vertical_alignment Online documentation}
      */
-    get_vertical_alignment(id: uint64): VerticalTextAlign | nil
+    get_vertical_alignment(id: RenderObjectId): VerticalTextAlign | nil
     /**
      * Set the vertical alignment of the text with this id. Does nothing if this object is not a text.
      *
      * _Can only be used if this is Text_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_vertical_alignment Online documentation}
      */
-    set_vertical_alignment(id: uint64, alignment: VerticalTextAlign): void
+    set_vertical_alignment(id: RenderObjectId, alignment: VerticalTextAlign): void
     /**
      * Get if the text with this id scales with player zoom.
      *
@@ -21602,14 +21879,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_scale_with_zoom Online documentation}
      */
-    get_scale_with_zoom(id: uint64): boolean | nil
+    get_scale_with_zoom(id: RenderObjectId): boolean | nil
     /**
      * Set if the text with this id scales with player zoom, resulting in it always being the same size on screen, and the size compared to the game world changes. Does nothing if this object is not a text.
      *
      * _Can only be used if this is Text_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_scale_with_zoom Online documentation}
      */
-    set_scale_with_zoom(id: uint64, scale_with_zoom: boolean): void
+    set_scale_with_zoom(id: RenderObjectId, scale_with_zoom: boolean): void
     /**
      * Get if the text with this id parses rich text tags.
      *
@@ -21617,14 +21894,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_use_rich_text Online documentation}
      */
-    get_use_rich_text(id: uint64): boolean | nil
+    get_use_rich_text(id: RenderObjectId): boolean | nil
     /**
      * Set if the text with this id parses rich text tags.
      *
      * _Can only be used if this is Text_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_use_rich_text Online documentation}
      */
-    set_use_rich_text(id: uint64, use_rich_text: boolean): void
+    set_use_rich_text(id: RenderObjectId, use_rich_text: boolean): void
     /**
      * Get if the circle or rectangle with this id is filled.
      *
@@ -21632,14 +21909,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a circle or rectangle.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_filled Online documentation}
      */
-    get_filled(id: uint64): boolean | nil
+    get_filled(id: RenderObjectId): boolean | nil
     /**
      * Set if the circle or rectangle with this id is filled. Does nothing if this object is not a circle or rectangle.
      *
      * _Can only be used if this is Circle or Rectangle_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_filled Online documentation}
      */
-    set_filled(id: uint64, filled: boolean): void
+    set_filled(id: RenderObjectId, filled: boolean): void
     /**
      * Get the radius of the circle with this id.
      *
@@ -21647,14 +21924,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a circle.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_radius Online documentation}
      */
-    get_radius(id: uint64): double | nil
+    get_radius(id: RenderObjectId): double | nil
     /**
      * Set the radius of the circle with this id. Does nothing if this object is not a circle.
      *
      * _Can only be used if this is Circle_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_radius Online documentation}
      */
-    set_radius(id: uint64, radius: double): void
+    set_radius(id: RenderObjectId, radius: double): void
     /**
      * Get where top left corner of the rectangle with this id is drawn.
      *
@@ -21662,14 +21939,18 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a rectangle.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_left_top Online documentation}
      */
-    get_left_top(id: uint64): ScriptRenderTarget | nil
+    get_left_top(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set where top left corner of the rectangle with this id is drawn. Does nothing if this object is not a rectangle.
      *
      * _Can only be used if this is Rectangle_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_left_top Online documentation}
      */
-    set_left_top(id: uint64, left_top: (MapPosition | MapPositionArray) | LuaEntity, left_top_offset?: Vector): void
+    set_left_top(
+      id: RenderObjectId,
+      left_top: (MapPosition | MapPositionArray) | LuaEntity,
+      left_top_offset?: Vector,
+    ): void
     /**
      * Get where bottom right corner of the rectangle with this id is drawn.
      *
@@ -21677,7 +21958,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a rectangle.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_right_bottom Online documentation}
      */
-    get_right_bottom(id: uint64): ScriptRenderTarget | nil
+    get_right_bottom(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set where top bottom right of the rectangle with this id is drawn. Does nothing if this object is not a rectangle.
      *
@@ -21685,7 +21966,7 @@ declare module "factorio:runtime" {
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_right_bottom Online documentation}
      */
     set_right_bottom(
-      id: uint64,
+      id: RenderObjectId,
       right_bottom: (MapPosition | MapPositionArray) | LuaEntity,
       right_bottom_offset?: Vector,
     ): void
@@ -21696,7 +21977,7 @@ declare module "factorio:runtime" {
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_corners Online documentation}
      */
     set_corners(
-      id: uint64,
+      id: RenderObjectId,
       left_top: (MapPosition | MapPositionArray) | LuaEntity,
       left_top_offset: Vector,
       right_bottom: (MapPosition | MapPositionArray) | LuaEntity,
@@ -21709,14 +21990,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a arc.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_max_radius Online documentation}
      */
-    get_max_radius(id: uint64): double | nil
+    get_max_radius(id: RenderObjectId): double | nil
     /**
      * Set the radius of the outer edge of the arc with this id. Does nothing if this object is not a arc.
      *
      * _Can only be used if this is Arc_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_max_radius Online documentation}
      */
-    set_max_radius(id: uint64, max_radius: double): void
+    set_max_radius(id: RenderObjectId, max_radius: double): void
     /**
      * Get the radius of the inner edge of the arc with this id.
      *
@@ -21724,14 +22005,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a arc.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_min_radius Online documentation}
      */
-    get_min_radius(id: uint64): double | nil
+    get_min_radius(id: RenderObjectId): double | nil
     /**
      * Set the radius of the inner edge of the arc with this id. Does nothing if this object is not a arc.
      *
      * _Can only be used if this is Arc_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_min_radius Online documentation}
      */
-    set_min_radius(id: uint64, min_radius: double): void
+    set_min_radius(id: RenderObjectId, min_radius: double): void
     /**
      * Get where the arc with this id starts.
      *
@@ -21739,7 +22020,7 @@ declare module "factorio:runtime" {
      * @returns Angle in radian. `nil` if the object is not a arc.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_start_angle Online documentation}
      */
-    get_start_angle(id: uint64): float | nil
+    get_start_angle(id: RenderObjectId): float | nil
     /**
      * Set where the arc with this id starts. Does nothing if this object is not a arc.
      *
@@ -21747,7 +22028,7 @@ declare module "factorio:runtime" {
      * @param start_angle angle in radian
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_start_angle Online documentation}
      */
-    set_start_angle(id: uint64, start_angle: float): void
+    set_start_angle(id: RenderObjectId, start_angle: float): void
     /**
      * Get the angle of the arc with this id.
      *
@@ -21755,7 +22036,7 @@ declare module "factorio:runtime" {
      * @returns Angle in radian. `nil` if the object is not a arc.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_angle Online documentation}
      */
-    get_angle(id: uint64): float | nil
+    get_angle(id: RenderObjectId): float | nil
     /**
      * Set the angle of the arc with this id. Does nothing if this object is not a arc.
      *
@@ -21763,7 +22044,7 @@ declare module "factorio:runtime" {
      * @param angle angle in radian
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_angle Online documentation}
      */
-    set_angle(id: uint64, angle: float): void
+    set_angle(id: RenderObjectId, angle: float): void
     /**
      * Get the vertices of the polygon with this id.
      *
@@ -21771,14 +22052,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a polygon.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_vertices Online documentation}
      */
-    get_vertices(id: uint64): ScriptRenderTarget[] | nil
+    get_vertices(id: RenderObjectId): ScriptRenderTarget[] | nil
     /**
      * Set the vertices of the polygon with this id. Does nothing if this object is not a polygon.
      *
      * _Can only be used if this is Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_vertices Online documentation}
      */
-    set_vertices(id: uint64, vertices: readonly ScriptRenderVertexTarget[]): void
+    set_vertices(id: RenderObjectId, vertices: readonly ScriptRenderVertexTarget[]): void
     /**
      * Get the sprite of the sprite or light with this id.
      *
@@ -21786,14 +22067,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a sprite or light.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_sprite Online documentation}
      */
-    get_sprite(id: uint64): SpritePath | nil
+    get_sprite(id: RenderObjectId): SpritePath | nil
     /**
      * Set the sprite of the sprite or light with this id. Does nothing if this object is not a sprite or light.
      *
      * _Can only be used if this is Sprite or Light_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_sprite Online documentation}
      */
-    set_sprite(id: uint64, sprite: SpritePath): void
+    set_sprite(id: RenderObjectId, sprite: SpritePath): void
     /**
      * Get the horizontal scale of the sprite or animation with this id.
      *
@@ -21801,14 +22082,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a sprite or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_x_scale Online documentation}
      */
-    get_x_scale(id: uint64): double | nil
+    get_x_scale(id: RenderObjectId): double | nil
     /**
      * Set the horizontal scale of the sprite or animation with this id. Does nothing if this object is not a sprite or animation.
      *
      * _Can only be used if this is Sprite or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_x_scale Online documentation}
      */
-    set_x_scale(id: uint64, x_scale: double): void
+    set_x_scale(id: RenderObjectId, x_scale: double): void
     /**
      * Get the vertical scale of the sprite or animation with this id.
      *
@@ -21816,14 +22097,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a sprite or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_y_scale Online documentation}
      */
-    get_y_scale(id: uint64): double | nil
+    get_y_scale(id: RenderObjectId): double | nil
     /**
      * Set the vertical scale of the sprite or animation with this id. Does nothing if this object is not a sprite or animation.
      *
      * _Can only be used if this is Sprite or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_y_scale Online documentation}
      */
-    set_y_scale(id: uint64, y_scale: double): void
+    set_y_scale(id: RenderObjectId, y_scale: double): void
     /**
      * Get the render layer of the sprite or animation with this id.
      *
@@ -21831,14 +22112,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a sprite or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_render_layer Online documentation}
      */
-    get_render_layer(id: uint64): RenderLayer | nil
+    get_render_layer(id: RenderObjectId): RenderLayer | nil
     /**
      * Set the render layer of the sprite or animation with this id. Does nothing if this object is not a sprite or animation.
      *
      * _Can only be used if this is Sprite or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_render_layer Online documentation}
      */
-    set_render_layer(id: uint64, render_layer: RenderLayer): void
+    set_render_layer(id: RenderObjectId, render_layer: RenderLayer): void
     /**
      * Get the orientation_target of the object with this id. The object rotates so that it faces this target. Note that `orientation` is still applied to the object.
      *
@@ -21848,7 +22129,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if no target or if this object is not a polygon, sprite, or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_orientation_target Online documentation}
      */
-    get_orientation_target(id: uint64): ScriptRenderTarget | nil
+    get_orientation_target(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set the orientation_target of the object with this id. Does nothing if this object is not a polygon, sprite, or animation. The object rotates so that it faces this target. Note that `orientation` is still applied to the object. Set to `nil` if the object should not have an orientation_target.
      *
@@ -21858,7 +22139,7 @@ declare module "factorio:runtime" {
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_orientation_target Online documentation}
      */
     set_orientation_target(
-      id: uint64,
+      id: RenderObjectId,
       orientation_target: (MapPosition | MapPositionArray) | LuaEntity,
       orientation_target_offset?: Vector,
     ): void
@@ -21869,14 +22150,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if this object is not a sprite or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_oriented_offset Online documentation}
      */
-    get_oriented_offset(id: uint64): Vector | nil
+    get_oriented_offset(id: RenderObjectId): Vector | nil
     /**
      * Set the oriented_offset of the sprite or animation with this id. Does nothing if this object is not a sprite or animation. Offsets the center of the sprite or animation if `orientation_target` is given. This offset will rotate together with the sprite or animation.
      *
      * _Can only be used if this is Sprite or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_oriented_offset Online documentation}
      */
-    set_oriented_offset(id: uint64, oriented_offset: Vector): void
+    set_oriented_offset(id: RenderObjectId, oriented_offset: Vector): void
     /**
      * Get the intensity of the light with this id.
      *
@@ -21884,14 +22165,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a light.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_intensity Online documentation}
      */
-    get_intensity(id: uint64): float | nil
+    get_intensity(id: RenderObjectId): float | nil
     /**
      * Set the intensity of the light with this id. Does nothing if this object is not a light.
      *
      * _Can only be used if this is Light_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_intensity Online documentation}
      */
-    set_intensity(id: uint64, intensity: float): void
+    set_intensity(id: RenderObjectId, intensity: float): void
     /**
      * Get the minimum darkness at which the light with this id is rendered.
      *
@@ -21899,14 +22180,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a light.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_minimum_darkness Online documentation}
      */
-    get_minimum_darkness(id: uint64): float | nil
+    get_minimum_darkness(id: RenderObjectId): float | nil
     /**
      * Set the minimum darkness at which the light with this id is rendered. Does nothing if this object is not a light.
      *
      * _Can only be used if this is Light_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_minimum_darkness Online documentation}
      */
-    set_minimum_darkness(id: uint64, minimum_darkness: float): void
+    set_minimum_darkness(id: RenderObjectId, minimum_darkness: float): void
     /**
      * Get if the light with this id is rendered has the same orientation as the target entity. Note that `orientation` is still applied to the sprite.
      *
@@ -21914,14 +22195,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a light.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_oriented Online documentation}
      */
-    get_oriented(id: uint64): boolean | nil
+    get_oriented(id: RenderObjectId): boolean | nil
     /**
      * Set if the light with this id is rendered has the same orientation as the target entity. Does nothing if this object is not a light. Note that `orientation` is still applied to the sprite.
      *
      * _Can only be used if this is Light_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_oriented Online documentation}
      */
-    set_oriented(id: uint64, oriented: boolean): void
+    set_oriented(id: RenderObjectId, oriented: boolean): void
     /**
      * Get the animation prototype name of the animation with this id.
      *
@@ -21929,14 +22210,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not an animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_animation Online documentation}
      */
-    get_animation(id: uint64): string | nil
+    get_animation(id: RenderObjectId): string | nil
     /**
      * Set the animation prototype name of the animation with this id. Does nothing if this object is not an animation.
      *
      * _Can only be used if this is Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_animation Online documentation}
      */
-    set_animation(id: uint64, animation: string): void
+    set_animation(id: RenderObjectId, animation: string): void
     /**
      * Get the animation speed of the animation with this id.
      *
@@ -21944,7 +22225,7 @@ declare module "factorio:runtime" {
      * @returns Animation speed in frames per tick. `nil` if the object is not an animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_animation_speed Online documentation}
      */
-    get_animation_speed(id: uint64): double | nil
+    get_animation_speed(id: RenderObjectId): double | nil
     /**
      * Set the animation speed of the animation with this id. Does nothing if this object is not an animation.
      *
@@ -21952,7 +22233,7 @@ declare module "factorio:runtime" {
      * @param animation_speed Animation speed in frames per tick.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_animation_speed Online documentation}
      */
-    set_animation_speed(id: uint64, animation_speed: double): void
+    set_animation_speed(id: RenderObjectId, animation_speed: double): void
     /**
      * Get the animation offset of the animation with this id.
      *
@@ -21960,7 +22241,7 @@ declare module "factorio:runtime" {
      * @returns Animation offset in frames. `nil` if the object is not an animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_animation_offset Online documentation}
      */
-    get_animation_offset(id: uint64): double | nil
+    get_animation_offset(id: RenderObjectId): double | nil
     /**
      * Set the animation offset of the animation with this id. Does nothing if this object is not an animation.
      *
@@ -21968,7 +22249,7 @@ declare module "factorio:runtime" {
      * @param animation_offset Animation offset in frames.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_animation_offset Online documentation}
      */
-    set_animation_offset(id: uint64, animation_offset: double): void
+    set_animation_offset(id: RenderObjectId, animation_offset: double): void
     /**
      * All methods and properties that this object supports.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.help Online documentation}
@@ -22047,7 +22328,7 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create a text.
      *
@@ -22116,7 +22397,7 @@ declare module "factorio:runtime" {
        * If rich text rendering is enabled. Defaults to false.
        */
       readonly use_rich_text?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create a circle.
      * @returns Id of the render object
@@ -22166,7 +22447,7 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create a rectangle.
      * @returns Id of the render object
@@ -22220,7 +22501,7 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create an arc.
      * @returns Id of the render object
@@ -22274,7 +22555,7 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create a triangle mesh defined by a triangle strip.
      * @returns Id of the render object
@@ -22332,7 +22613,7 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create a sprite.
      * @returns Id of the render object
@@ -22408,7 +22689,7 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create a light.
      *
@@ -22471,7 +22752,7 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Create an animation.
      * @returns Id of the render object
@@ -22552,12 +22833,12 @@ declare module "factorio:runtime" {
        * If this should only be rendered in alt mode. Defaults to false.
        */
       readonly only_in_alt_mode?: boolean
-    }): uint64
+    }): RenderObjectId
     /**
      * Destroy the object with the given id. Does not error when the object is invalid.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.destroy Online documentation}
      */
-    destroy(id: uint64): void
+    destroy(id: RenderObjectId): void
     /**
      * Does a font with this name exist?
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.is_font_valid Online documentation}
@@ -22567,13 +22848,13 @@ declare module "factorio:runtime" {
      * Does a valid object with this id exist?
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.is_valid Online documentation}
      */
-    is_valid(id: uint64): boolean
+    is_valid(id: RenderObjectId): boolean
     /**
      * Gets an array of all valid object ids.
      * @param mod_name If provided, get only the render objects created by this mod. An empty string (`""`) refers to all objects not belonging to a mod, such as those created using console commands.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_all_ids Online documentation}
      */
-    get_all_ids(mod_name?: string): uint64[]
+    get_all_ids(mod_name?: string): RenderObjectId[]
     /**
      * Destroys all render objects.
      * @param mod_name If provided, only the render objects created by this mod are destroyed. An empty string (`""`) refers to all objects not belonging to a mod, such as those created using console commands.
@@ -22585,86 +22866,86 @@ declare module "factorio:runtime" {
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_type Online documentation}
      */
     get_type(
-      id: uint64,
+      id: RenderObjectId,
     ): "text" | "line" | "circle" | "rectangle" | "arc" | "polygon" | "sprite" | "light" | "animation"
     /**
      * Reorder this object so that it is drawn in front of the already existing objects.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.bring_to_front Online documentation}
      */
-    bring_to_front(id: uint64): void
+    bring_to_front(id: RenderObjectId): void
     /**
      * Reorder this object so that it is drawn in the back of the already existing objects.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.move_to_back Online documentation}
      */
-    move_to_back(id: uint64): void
+    move_to_back(id: RenderObjectId): void
     /**
      * The surface the object with this id is rendered on.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_surface Online documentation}
      */
-    get_surface(id: uint64): LuaSurface
+    get_surface(id: RenderObjectId): LuaSurface
     /**
      * Get the time to live of the object with this id. This will be 0 if the object does not expire.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_time_to_live Online documentation}
      */
-    get_time_to_live(id: uint64): uint
+    get_time_to_live(id: RenderObjectId): uint
     /**
      * Set the time to live of the object with this id. Set to 0 if the object should not expire.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_time_to_live Online documentation}
      */
-    set_time_to_live(id: uint64, time_to_live: uint): void
+    set_time_to_live(id: RenderObjectId, time_to_live: uint): void
     /**
      * Get the forces that the object with this id is rendered to or `nil` if visible to all forces.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_forces Online documentation}
      */
-    get_forces(id: uint64): LuaForce[] | nil
+    get_forces(id: RenderObjectId): LuaForce[] | nil
     /**
      * Set the forces that the object with this id is rendered to.
      * @param forces Providing an empty array will set the object to be visible to all forces.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_forces Online documentation}
      */
-    set_forces(id: uint64, forces: readonly ForceIdentification[]): void
+    set_forces(id: RenderObjectId, forces: readonly ForceIdentification[]): void
     /**
      * Get the players that the object with this id is rendered to or `nil` if visible to all players.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_players Online documentation}
      */
-    get_players(id: uint64): LuaPlayer[] | nil
+    get_players(id: RenderObjectId): LuaPlayer[] | nil
     /**
      * Set the players that the object with this id is rendered to.
      * @param players Providing an empty array will set the object to be visible to all players.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_players Online documentation}
      */
-    set_players(id: uint64, players: readonly PlayerIdentification[]): void
+    set_players(id: RenderObjectId, players: readonly PlayerIdentification[]): void
     /**
      * Get whether this is rendered to anyone at all.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_visible Online documentation}
      */
-    get_visible(id: uint64): boolean
+    get_visible(id: RenderObjectId): boolean
     /**
      * Set whether this is rendered to anyone at all.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_visible Online documentation}
      */
-    set_visible(id: uint64, visible: boolean): void
+    set_visible(id: RenderObjectId, visible: boolean): void
     /**
      * Get whether this is only rendered in alt-mode.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_only_in_alt_mode Online documentation}
      */
-    get_only_in_alt_mode(id: uint64): boolean
+    get_only_in_alt_mode(id: RenderObjectId): boolean
     /**
      * Set whether this is only rendered in alt-mode.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_only_in_alt_mode Online documentation}
      */
-    set_only_in_alt_mode(id: uint64, only_in_alt_mode: boolean): void
+    set_only_in_alt_mode(id: RenderObjectId, only_in_alt_mode: boolean): void
     /**
      * Get whether this uses the target orientation.
      * @returns `nil` if the object is not a sprite, polygon, or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_use_target_orientation Online documentation}
      */
-    get_use_target_orientation(id: uint64): boolean | nil
+    get_use_target_orientation(id: RenderObjectId): boolean | nil
     /**
      * Set whether this uses the target orientation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_use_target_orientation Online documentation}
      */
-    set_use_target_orientation(id: uint64, use_target_orientation: boolean): void
+    set_use_target_orientation(id: RenderObjectId, use_target_orientation: boolean): void
     /**
      * All methods and properties that this object supports.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.help Online documentation}
@@ -22685,14 +22966,14 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc or Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_draw_on_ground Online documentation}
      */
-    get_draw_on_ground(id: uint64): boolean
+    get_draw_on_ground(id: RenderObjectId): boolean
     /**
      * Set whether this is being drawn on the ground, under most entities and sprites.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc or Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_draw_on_ground Online documentation}
      */
-    set_draw_on_ground(id: uint64, draw_on_ground: boolean): void
+    set_draw_on_ground(id: RenderObjectId, draw_on_ground: boolean): void
     /**
      * Get the color or tint of the object with this id.
      *
@@ -22700,14 +22981,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support color.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_color Online documentation}
      */
-    get_color(id: uint64): Color | nil
+    get_color(id: RenderObjectId): Color | nil
     /**
      * Set the color or tint of the object with this id. Does nothing if this object does not support color.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_color Online documentation}
      */
-    set_color(id: uint64, color: Color | ColorArray): void
+    set_color(id: RenderObjectId, color: Color | ColorArray): void
     /**
      * Get where the object with this id is drawn.
      *
@@ -22717,7 +22998,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support target.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_target Online documentation}
      */
-    get_target(id: uint64): ScriptRenderTarget | nil
+    get_target(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set where the object with this id is drawn. Does nothing if this object does not support target.
      *
@@ -22726,7 +23007,7 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Circle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_target Online documentation}
      */
-    set_target(id: uint64, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
+    set_target(id: RenderObjectId, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
     /**
      * Get the orientation of the object with this id.
      *
@@ -22736,7 +23017,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text, polygon, sprite, light or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_orientation Online documentation}
      */
-    get_orientation(id: uint64): RealOrientation | nil
+    get_orientation(id: RenderObjectId): RealOrientation | nil
     /**
      * Set the orientation of the object with this id. Does nothing if this object is not a text, polygon, sprite, light or animation.
      *
@@ -22745,7 +23026,7 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_orientation Online documentation}
      */
-    set_orientation(id: uint64, orientation: RealOrientation): void
+    set_orientation(id: RenderObjectId, orientation: RealOrientation): void
     /**
      * Get the scale of the text or light with this id.
      *
@@ -22753,14 +23034,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text or light.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_scale Online documentation}
      */
-    get_scale(id: uint64): double | nil
+    get_scale(id: RenderObjectId): double | nil
     /**
      * Set the scale of the text or light with this id. Does nothing if this object is not a text or light.
      *
      * _Can only be used if this is Text or Light_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_scale Online documentation}
      */
-    set_scale(id: uint64, scale: double): void
+    set_scale(id: RenderObjectId, scale: double): void
     /**
      * Get the text that is displayed by the text with this id.
      *
@@ -22768,14 +23049,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_text Online documentation}
      */
-    get_text(id: uint64): LocalisedString | nil
+    get_text(id: RenderObjectId): LocalisedString | nil
     /**
      * Set the text that is displayed by the text with this id. Does nothing if this object is not a text.
      *
      * _Can only be used if this is Text_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_text Online documentation}
      */
-    set_text(id: uint64, text: LocalisedString): void
+    set_text(id: RenderObjectId, text: LocalisedString): void
     /**
      * Get the font of the text with this id.
      *
@@ -22783,14 +23064,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_font Online documentation}
      */
-    get_font(id: uint64): string | nil
+    get_font(id: RenderObjectId): string | nil
     /**
      * Set the font of the text with this id. Does nothing if this object is not a text.
      *
      * _Can only be used if this is Text_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_font Online documentation}
      */
-    set_font(id: uint64, font: string): void
+    set_font(id: RenderObjectId, font: string): void
     /**
      * Get the alignment of the text with this id.
      *
@@ -22798,14 +23079,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_alignment Online documentation}
      */
-    get_alignment(id: uint64): TextAlign | nil
+    get_alignment(id: RenderObjectId): TextAlign | nil
     /**
      * Set the alignment of the text with this id. Does nothing if this object is not a text.
      *
      * _Can only be used if this is Text_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_alignment Online documentation}
      */
-    set_alignment(id: uint64, alignment: TextAlign): void
+    set_alignment(id: RenderObjectId, alignment: TextAlign): void
     /**
      * Get the vertical alignment of the text with this id.
      *
@@ -22813,14 +23094,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_vertical_alignment Online documentation}
      */
-    get_vertical_alignment(id: uint64): VerticalTextAlign | nil
+    get_vertical_alignment(id: RenderObjectId): VerticalTextAlign | nil
     /**
      * Set the vertical alignment of the text with this id. Does nothing if this object is not a text.
      *
      * _Can only be used if this is Text_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_vertical_alignment Online documentation}
      */
-    set_vertical_alignment(id: uint64, alignment: VerticalTextAlign): void
+    set_vertical_alignment(id: RenderObjectId, alignment: VerticalTextAlign): void
     /**
      * Get if the text with this id scales with player zoom.
      *
@@ -22828,14 +23109,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_scale_with_zoom Online documentation}
      */
-    get_scale_with_zoom(id: uint64): boolean | nil
+    get_scale_with_zoom(id: RenderObjectId): boolean | nil
     /**
      * Set if the text with this id scales with player zoom, resulting in it always being the same size on screen, and the size compared to the game world changes. Does nothing if this object is not a text.
      *
      * _Can only be used if this is Text_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_scale_with_zoom Online documentation}
      */
-    set_scale_with_zoom(id: uint64, scale_with_zoom: boolean): void
+    set_scale_with_zoom(id: RenderObjectId, scale_with_zoom: boolean): void
     /**
      * Get if the text with this id parses rich text tags.
      *
@@ -22843,14 +23124,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_use_rich_text Online documentation}
      */
-    get_use_rich_text(id: uint64): boolean | nil
+    get_use_rich_text(id: RenderObjectId): boolean | nil
     /**
      * Set if the text with this id parses rich text tags.
      *
      * _Can only be used if this is Text_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_use_rich_text Online documentation}
      */
-    set_use_rich_text(id: uint64, use_rich_text: boolean): void
+    set_use_rich_text(id: RenderObjectId, use_rich_text: boolean): void
   }
   /**
    * @noSelf
@@ -22862,14 +23143,14 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc or Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_draw_on_ground Online documentation}
      */
-    get_draw_on_ground(id: uint64): boolean
+    get_draw_on_ground(id: RenderObjectId): boolean
     /**
      * Set whether this is being drawn on the ground, under most entities and sprites.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc or Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_draw_on_ground Online documentation}
      */
-    set_draw_on_ground(id: uint64, draw_on_ground: boolean): void
+    set_draw_on_ground(id: RenderObjectId, draw_on_ground: boolean): void
     /**
      * Get the color or tint of the object with this id.
      *
@@ -22877,14 +23158,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support color.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_color Online documentation}
      */
-    get_color(id: uint64): Color | nil
+    get_color(id: RenderObjectId): Color | nil
     /**
      * Set the color or tint of the object with this id. Does nothing if this object does not support color.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_color Online documentation}
      */
-    set_color(id: uint64, color: Color | ColorArray): void
+    set_color(id: RenderObjectId, color: Color | ColorArray): void
     /**
      * Get the width of the object with this id. Value is in pixels (32 per tile).
      *
@@ -22892,14 +23173,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support width.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_width Online documentation}
      */
-    get_width(id: uint64): float | nil
+    get_width(id: RenderObjectId): float | nil
     /**
      * Set the width of the object with this id. Does nothing if this object does not support width. Value is in pixels (32 per tile).
      *
      * _Can only be used if this is Line, Circle or Rectangle_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_width Online documentation}
      */
-    set_width(id: uint64, width: float): void
+    set_width(id: RenderObjectId, width: float): void
     /**
      * Get from where the line with this id is drawn.
      *
@@ -22907,14 +23188,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if this object is not a line.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_from Online documentation}
      */
-    get_from(id: uint64): ScriptRenderTarget | nil
+    get_from(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set from where the line with this id is drawn. Does nothing if the object is not a line.
      *
      * _Can only be used if this is Line_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_from Online documentation}
      */
-    set_from(id: uint64, from: (MapPosition | MapPositionArray) | LuaEntity, from_offset?: Vector): void
+    set_from(id: RenderObjectId, from: (MapPosition | MapPositionArray) | LuaEntity, from_offset?: Vector): void
     /**
      * Get where the line with this id is drawn to.
      *
@@ -22922,14 +23203,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a line.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_to Online documentation}
      */
-    get_to(id: uint64): ScriptRenderTarget | nil
+    get_to(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set where the line with this id is drawn to. Does nothing if this object is not a line.
      *
      * _Can only be used if this is Line_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_to Online documentation}
      */
-    set_to(id: uint64, to: (MapPosition | MapPositionArray) | LuaEntity, to_offset?: Vector): void
+    set_to(id: RenderObjectId, to: (MapPosition | MapPositionArray) | LuaEntity, to_offset?: Vector): void
     /**
      * Get the dash length of the line with this id.
      *
@@ -22937,14 +23218,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a line.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_dash_length Online documentation}
      */
-    get_dash_length(id: uint64): double | nil
+    get_dash_length(id: RenderObjectId): double | nil
     /**
      * Set the dash length of the line with this id. Does nothing if this object is not a line.
      *
      * _Can only be used if this is Line_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_dash_length Online documentation}
      */
-    set_dash_length(id: uint64, dash_length: double): void
+    set_dash_length(id: RenderObjectId, dash_length: double): void
     /**
      * Get the length of the gaps in the line with this id.
      *
@@ -22952,21 +23233,21 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a line.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_gap_length Online documentation}
      */
-    get_gap_length(id: uint64): double | nil
+    get_gap_length(id: RenderObjectId): double | nil
     /**
      * Set the length of the gaps in the line with this id. Does nothing if this object is not a line.
      *
      * _Can only be used if this is Line_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_gap_length Online documentation}
      */
-    set_gap_length(id: uint64, gap_length: double): void
+    set_gap_length(id: RenderObjectId, gap_length: double): void
     /**
      * Set the length of the dashes and the length of the gaps in the line with this id. Does nothing if this object is not a line.
      *
      * _Can only be used if this is Line_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_dashes Online documentation}
      */
-    set_dashes(id: uint64, dash_length: double, gap_length: double): void
+    set_dashes(id: RenderObjectId, dash_length: double, gap_length: double): void
   }
   /**
    * @noSelf
@@ -22978,14 +23259,14 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc or Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_draw_on_ground Online documentation}
      */
-    get_draw_on_ground(id: uint64): boolean
+    get_draw_on_ground(id: RenderObjectId): boolean
     /**
      * Set whether this is being drawn on the ground, under most entities and sprites.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc or Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_draw_on_ground Online documentation}
      */
-    set_draw_on_ground(id: uint64, draw_on_ground: boolean): void
+    set_draw_on_ground(id: RenderObjectId, draw_on_ground: boolean): void
     /**
      * Get the color or tint of the object with this id.
      *
@@ -22993,14 +23274,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support color.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_color Online documentation}
      */
-    get_color(id: uint64): Color | nil
+    get_color(id: RenderObjectId): Color | nil
     /**
      * Set the color or tint of the object with this id. Does nothing if this object does not support color.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_color Online documentation}
      */
-    set_color(id: uint64, color: Color | ColorArray): void
+    set_color(id: RenderObjectId, color: Color | ColorArray): void
     /**
      * Get the width of the object with this id. Value is in pixels (32 per tile).
      *
@@ -23008,14 +23289,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support width.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_width Online documentation}
      */
-    get_width(id: uint64): float | nil
+    get_width(id: RenderObjectId): float | nil
     /**
      * Set the width of the object with this id. Does nothing if this object does not support width. Value is in pixels (32 per tile).
      *
      * _Can only be used if this is Line, Circle or Rectangle_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_width Online documentation}
      */
-    set_width(id: uint64, width: float): void
+    set_width(id: RenderObjectId, width: float): void
     /**
      * Get where the object with this id is drawn.
      *
@@ -23025,7 +23306,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support target.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_target Online documentation}
      */
-    get_target(id: uint64): ScriptRenderTarget | nil
+    get_target(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set where the object with this id is drawn. Does nothing if this object does not support target.
      *
@@ -23034,7 +23315,7 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Circle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_target Online documentation}
      */
-    set_target(id: uint64, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
+    set_target(id: RenderObjectId, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
     /**
      * Get if the circle or rectangle with this id is filled.
      *
@@ -23042,14 +23323,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a circle or rectangle.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_filled Online documentation}
      */
-    get_filled(id: uint64): boolean | nil
+    get_filled(id: RenderObjectId): boolean | nil
     /**
      * Set if the circle or rectangle with this id is filled. Does nothing if this object is not a circle or rectangle.
      *
      * _Can only be used if this is Circle or Rectangle_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_filled Online documentation}
      */
-    set_filled(id: uint64, filled: boolean): void
+    set_filled(id: RenderObjectId, filled: boolean): void
     /**
      * Get the radius of the circle with this id.
      *
@@ -23057,14 +23338,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a circle.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_radius Online documentation}
      */
-    get_radius(id: uint64): double | nil
+    get_radius(id: RenderObjectId): double | nil
     /**
      * Set the radius of the circle with this id. Does nothing if this object is not a circle.
      *
      * _Can only be used if this is Circle_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_radius Online documentation}
      */
-    set_radius(id: uint64, radius: double): void
+    set_radius(id: RenderObjectId, radius: double): void
   }
   /**
    * @noSelf
@@ -23076,14 +23357,14 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc or Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_draw_on_ground Online documentation}
      */
-    get_draw_on_ground(id: uint64): boolean
+    get_draw_on_ground(id: RenderObjectId): boolean
     /**
      * Set whether this is being drawn on the ground, under most entities and sprites.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc or Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_draw_on_ground Online documentation}
      */
-    set_draw_on_ground(id: uint64, draw_on_ground: boolean): void
+    set_draw_on_ground(id: RenderObjectId, draw_on_ground: boolean): void
     /**
      * Get the color or tint of the object with this id.
      *
@@ -23091,14 +23372,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support color.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_color Online documentation}
      */
-    get_color(id: uint64): Color | nil
+    get_color(id: RenderObjectId): Color | nil
     /**
      * Set the color or tint of the object with this id. Does nothing if this object does not support color.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_color Online documentation}
      */
-    set_color(id: uint64, color: Color | ColorArray): void
+    set_color(id: RenderObjectId, color: Color | ColorArray): void
     /**
      * Get the width of the object with this id. Value is in pixels (32 per tile).
      *
@@ -23106,14 +23387,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support width.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_width Online documentation}
      */
-    get_width(id: uint64): float | nil
+    get_width(id: RenderObjectId): float | nil
     /**
      * Set the width of the object with this id. Does nothing if this object does not support width. Value is in pixels (32 per tile).
      *
      * _Can only be used if this is Line, Circle or Rectangle_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_width Online documentation}
      */
-    set_width(id: uint64, width: float): void
+    set_width(id: RenderObjectId, width: float): void
     /**
      * Get if the circle or rectangle with this id is filled.
      *
@@ -23121,14 +23402,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a circle or rectangle.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_filled Online documentation}
      */
-    get_filled(id: uint64): boolean | nil
+    get_filled(id: RenderObjectId): boolean | nil
     /**
      * Set if the circle or rectangle with this id is filled. Does nothing if this object is not a circle or rectangle.
      *
      * _Can only be used if this is Circle or Rectangle_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_filled Online documentation}
      */
-    set_filled(id: uint64, filled: boolean): void
+    set_filled(id: RenderObjectId, filled: boolean): void
     /**
      * Get where top left corner of the rectangle with this id is drawn.
      *
@@ -23136,14 +23417,18 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a rectangle.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_left_top Online documentation}
      */
-    get_left_top(id: uint64): ScriptRenderTarget | nil
+    get_left_top(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set where top left corner of the rectangle with this id is drawn. Does nothing if this object is not a rectangle.
      *
      * _Can only be used if this is Rectangle_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_left_top Online documentation}
      */
-    set_left_top(id: uint64, left_top: (MapPosition | MapPositionArray) | LuaEntity, left_top_offset?: Vector): void
+    set_left_top(
+      id: RenderObjectId,
+      left_top: (MapPosition | MapPositionArray) | LuaEntity,
+      left_top_offset?: Vector,
+    ): void
     /**
      * Get where bottom right corner of the rectangle with this id is drawn.
      *
@@ -23151,7 +23436,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a rectangle.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_right_bottom Online documentation}
      */
-    get_right_bottom(id: uint64): ScriptRenderTarget | nil
+    get_right_bottom(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set where top bottom right of the rectangle with this id is drawn. Does nothing if this object is not a rectangle.
      *
@@ -23159,7 +23444,7 @@ declare module "factorio:runtime" {
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_right_bottom Online documentation}
      */
     set_right_bottom(
-      id: uint64,
+      id: RenderObjectId,
       right_bottom: (MapPosition | MapPositionArray) | LuaEntity,
       right_bottom_offset?: Vector,
     ): void
@@ -23170,7 +23455,7 @@ declare module "factorio:runtime" {
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_corners Online documentation}
      */
     set_corners(
-      id: uint64,
+      id: RenderObjectId,
       left_top: (MapPosition | MapPositionArray) | LuaEntity,
       left_top_offset: Vector,
       right_bottom: (MapPosition | MapPositionArray) | LuaEntity,
@@ -23187,14 +23472,14 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc or Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_draw_on_ground Online documentation}
      */
-    get_draw_on_ground(id: uint64): boolean
+    get_draw_on_ground(id: RenderObjectId): boolean
     /**
      * Set whether this is being drawn on the ground, under most entities and sprites.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc or Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_draw_on_ground Online documentation}
      */
-    set_draw_on_ground(id: uint64, draw_on_ground: boolean): void
+    set_draw_on_ground(id: RenderObjectId, draw_on_ground: boolean): void
     /**
      * Get the color or tint of the object with this id.
      *
@@ -23202,14 +23487,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support color.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_color Online documentation}
      */
-    get_color(id: uint64): Color | nil
+    get_color(id: RenderObjectId): Color | nil
     /**
      * Set the color or tint of the object with this id. Does nothing if this object does not support color.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_color Online documentation}
      */
-    set_color(id: uint64, color: Color | ColorArray): void
+    set_color(id: RenderObjectId, color: Color | ColorArray): void
     /**
      * Get where the object with this id is drawn.
      *
@@ -23219,7 +23504,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support target.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_target Online documentation}
      */
-    get_target(id: uint64): ScriptRenderTarget | nil
+    get_target(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set where the object with this id is drawn. Does nothing if this object does not support target.
      *
@@ -23228,7 +23513,7 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Circle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_target Online documentation}
      */
-    set_target(id: uint64, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
+    set_target(id: RenderObjectId, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
     /**
      * Get the radius of the outer edge of the arc with this id.
      *
@@ -23236,14 +23521,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a arc.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_max_radius Online documentation}
      */
-    get_max_radius(id: uint64): double | nil
+    get_max_radius(id: RenderObjectId): double | nil
     /**
      * Set the radius of the outer edge of the arc with this id. Does nothing if this object is not a arc.
      *
      * _Can only be used if this is Arc_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_max_radius Online documentation}
      */
-    set_max_radius(id: uint64, max_radius: double): void
+    set_max_radius(id: RenderObjectId, max_radius: double): void
     /**
      * Get the radius of the inner edge of the arc with this id.
      *
@@ -23251,14 +23536,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a arc.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_min_radius Online documentation}
      */
-    get_min_radius(id: uint64): double | nil
+    get_min_radius(id: RenderObjectId): double | nil
     /**
      * Set the radius of the inner edge of the arc with this id. Does nothing if this object is not a arc.
      *
      * _Can only be used if this is Arc_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_min_radius Online documentation}
      */
-    set_min_radius(id: uint64, min_radius: double): void
+    set_min_radius(id: RenderObjectId, min_radius: double): void
     /**
      * Get where the arc with this id starts.
      *
@@ -23266,7 +23551,7 @@ declare module "factorio:runtime" {
      * @returns Angle in radian. `nil` if the object is not a arc.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_start_angle Online documentation}
      */
-    get_start_angle(id: uint64): float | nil
+    get_start_angle(id: RenderObjectId): float | nil
     /**
      * Set where the arc with this id starts. Does nothing if this object is not a arc.
      *
@@ -23274,7 +23559,7 @@ declare module "factorio:runtime" {
      * @param start_angle angle in radian
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_start_angle Online documentation}
      */
-    set_start_angle(id: uint64, start_angle: float): void
+    set_start_angle(id: RenderObjectId, start_angle: float): void
     /**
      * Get the angle of the arc with this id.
      *
@@ -23282,7 +23567,7 @@ declare module "factorio:runtime" {
      * @returns Angle in radian. `nil` if the object is not a arc.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_angle Online documentation}
      */
-    get_angle(id: uint64): float | nil
+    get_angle(id: RenderObjectId): float | nil
     /**
      * Set the angle of the arc with this id. Does nothing if this object is not a arc.
      *
@@ -23290,7 +23575,7 @@ declare module "factorio:runtime" {
      * @param angle angle in radian
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_angle Online documentation}
      */
-    set_angle(id: uint64, angle: float): void
+    set_angle(id: RenderObjectId, angle: float): void
   }
   /**
    * @noSelf
@@ -23302,14 +23587,14 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc or Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_draw_on_ground Online documentation}
      */
-    get_draw_on_ground(id: uint64): boolean
+    get_draw_on_ground(id: RenderObjectId): boolean
     /**
      * Set whether this is being drawn on the ground, under most entities and sprites.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc or Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_draw_on_ground Online documentation}
      */
-    set_draw_on_ground(id: uint64, draw_on_ground: boolean): void
+    set_draw_on_ground(id: RenderObjectId, draw_on_ground: boolean): void
     /**
      * Get the color or tint of the object with this id.
      *
@@ -23317,14 +23602,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support color.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_color Online documentation}
      */
-    get_color(id: uint64): Color | nil
+    get_color(id: RenderObjectId): Color | nil
     /**
      * Set the color or tint of the object with this id. Does nothing if this object does not support color.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_color Online documentation}
      */
-    set_color(id: uint64, color: Color | ColorArray): void
+    set_color(id: RenderObjectId, color: Color | ColorArray): void
     /**
      * Get where the object with this id is drawn.
      *
@@ -23334,7 +23619,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support target.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_target Online documentation}
      */
-    get_target(id: uint64): ScriptRenderTarget | nil
+    get_target(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set where the object with this id is drawn. Does nothing if this object does not support target.
      *
@@ -23343,7 +23628,7 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Circle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_target Online documentation}
      */
-    set_target(id: uint64, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
+    set_target(id: RenderObjectId, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
     /**
      * Get the orientation of the object with this id.
      *
@@ -23353,7 +23638,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text, polygon, sprite, light or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_orientation Online documentation}
      */
-    get_orientation(id: uint64): RealOrientation | nil
+    get_orientation(id: RenderObjectId): RealOrientation | nil
     /**
      * Set the orientation of the object with this id. Does nothing if this object is not a text, polygon, sprite, light or animation.
      *
@@ -23362,7 +23647,7 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_orientation Online documentation}
      */
-    set_orientation(id: uint64, orientation: RealOrientation): void
+    set_orientation(id: RenderObjectId, orientation: RealOrientation): void
     /**
      * Get the vertices of the polygon with this id.
      *
@@ -23370,14 +23655,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a polygon.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_vertices Online documentation}
      */
-    get_vertices(id: uint64): ScriptRenderTarget[] | nil
+    get_vertices(id: RenderObjectId): ScriptRenderTarget[] | nil
     /**
      * Set the vertices of the polygon with this id. Does nothing if this object is not a polygon.
      *
      * _Can only be used if this is Polygon_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_vertices Online documentation}
      */
-    set_vertices(id: uint64, vertices: readonly ScriptRenderVertexTarget[]): void
+    set_vertices(id: RenderObjectId, vertices: readonly ScriptRenderVertexTarget[]): void
     /**
      * Get the orientation_target of the object with this id. The object rotates so that it faces this target. Note that `orientation` is still applied to the object.
      *
@@ -23387,7 +23672,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if no target or if this object is not a polygon, sprite, or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_orientation_target Online documentation}
      */
-    get_orientation_target(id: uint64): ScriptRenderTarget | nil
+    get_orientation_target(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set the orientation_target of the object with this id. Does nothing if this object is not a polygon, sprite, or animation. The object rotates so that it faces this target. Note that `orientation` is still applied to the object. Set to `nil` if the object should not have an orientation_target.
      *
@@ -23397,7 +23682,7 @@ declare module "factorio:runtime" {
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_orientation_target Online documentation}
      */
     set_orientation_target(
-      id: uint64,
+      id: RenderObjectId,
       orientation_target: (MapPosition | MapPositionArray) | LuaEntity,
       orientation_target_offset?: Vector,
     ): void
@@ -23413,14 +23698,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support color.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_color Online documentation}
      */
-    get_color(id: uint64): Color | nil
+    get_color(id: RenderObjectId): Color | nil
     /**
      * Set the color or tint of the object with this id. Does nothing if this object does not support color.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_color Online documentation}
      */
-    set_color(id: uint64, color: Color | ColorArray): void
+    set_color(id: RenderObjectId, color: Color | ColorArray): void
     /**
      * Get where the object with this id is drawn.
      *
@@ -23430,7 +23715,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support target.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_target Online documentation}
      */
-    get_target(id: uint64): ScriptRenderTarget | nil
+    get_target(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set where the object with this id is drawn. Does nothing if this object does not support target.
      *
@@ -23439,7 +23724,7 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Circle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_target Online documentation}
      */
-    set_target(id: uint64, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
+    set_target(id: RenderObjectId, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
     /**
      * Get the orientation of the object with this id.
      *
@@ -23449,7 +23734,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text, polygon, sprite, light or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_orientation Online documentation}
      */
-    get_orientation(id: uint64): RealOrientation | nil
+    get_orientation(id: RenderObjectId): RealOrientation | nil
     /**
      * Set the orientation of the object with this id. Does nothing if this object is not a text, polygon, sprite, light or animation.
      *
@@ -23458,7 +23743,7 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_orientation Online documentation}
      */
-    set_orientation(id: uint64, orientation: RealOrientation): void
+    set_orientation(id: RenderObjectId, orientation: RealOrientation): void
     /**
      * Get the sprite of the sprite or light with this id.
      *
@@ -23466,14 +23751,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a sprite or light.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_sprite Online documentation}
      */
-    get_sprite(id: uint64): SpritePath | nil
+    get_sprite(id: RenderObjectId): SpritePath | nil
     /**
      * Set the sprite of the sprite or light with this id. Does nothing if this object is not a sprite or light.
      *
      * _Can only be used if this is Sprite or Light_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_sprite Online documentation}
      */
-    set_sprite(id: uint64, sprite: SpritePath): void
+    set_sprite(id: RenderObjectId, sprite: SpritePath): void
     /**
      * Get the horizontal scale of the sprite or animation with this id.
      *
@@ -23481,14 +23766,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a sprite or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_x_scale Online documentation}
      */
-    get_x_scale(id: uint64): double | nil
+    get_x_scale(id: RenderObjectId): double | nil
     /**
      * Set the horizontal scale of the sprite or animation with this id. Does nothing if this object is not a sprite or animation.
      *
      * _Can only be used if this is Sprite or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_x_scale Online documentation}
      */
-    set_x_scale(id: uint64, x_scale: double): void
+    set_x_scale(id: RenderObjectId, x_scale: double): void
     /**
      * Get the vertical scale of the sprite or animation with this id.
      *
@@ -23496,14 +23781,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a sprite or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_y_scale Online documentation}
      */
-    get_y_scale(id: uint64): double | nil
+    get_y_scale(id: RenderObjectId): double | nil
     /**
      * Set the vertical scale of the sprite or animation with this id. Does nothing if this object is not a sprite or animation.
      *
      * _Can only be used if this is Sprite or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_y_scale Online documentation}
      */
-    set_y_scale(id: uint64, y_scale: double): void
+    set_y_scale(id: RenderObjectId, y_scale: double): void
     /**
      * Get the render layer of the sprite or animation with this id.
      *
@@ -23511,14 +23796,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a sprite or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_render_layer Online documentation}
      */
-    get_render_layer(id: uint64): RenderLayer | nil
+    get_render_layer(id: RenderObjectId): RenderLayer | nil
     /**
      * Set the render layer of the sprite or animation with this id. Does nothing if this object is not a sprite or animation.
      *
      * _Can only be used if this is Sprite or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_render_layer Online documentation}
      */
-    set_render_layer(id: uint64, render_layer: RenderLayer): void
+    set_render_layer(id: RenderObjectId, render_layer: RenderLayer): void
     /**
      * Get the orientation_target of the object with this id. The object rotates so that it faces this target. Note that `orientation` is still applied to the object.
      *
@@ -23528,7 +23813,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if no target or if this object is not a polygon, sprite, or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_orientation_target Online documentation}
      */
-    get_orientation_target(id: uint64): ScriptRenderTarget | nil
+    get_orientation_target(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set the orientation_target of the object with this id. Does nothing if this object is not a polygon, sprite, or animation. The object rotates so that it faces this target. Note that `orientation` is still applied to the object. Set to `nil` if the object should not have an orientation_target.
      *
@@ -23538,7 +23823,7 @@ declare module "factorio:runtime" {
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_orientation_target Online documentation}
      */
     set_orientation_target(
-      id: uint64,
+      id: RenderObjectId,
       orientation_target: (MapPosition | MapPositionArray) | LuaEntity,
       orientation_target_offset?: Vector,
     ): void
@@ -23549,14 +23834,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if this object is not a sprite or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_oriented_offset Online documentation}
      */
-    get_oriented_offset(id: uint64): Vector | nil
+    get_oriented_offset(id: RenderObjectId): Vector | nil
     /**
      * Set the oriented_offset of the sprite or animation with this id. Does nothing if this object is not a sprite or animation. Offsets the center of the sprite or animation if `orientation_target` is given. This offset will rotate together with the sprite or animation.
      *
      * _Can only be used if this is Sprite or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_oriented_offset Online documentation}
      */
-    set_oriented_offset(id: uint64, oriented_offset: Vector): void
+    set_oriented_offset(id: RenderObjectId, oriented_offset: Vector): void
   }
   /**
    * @noSelf
@@ -23569,14 +23854,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support color.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_color Online documentation}
      */
-    get_color(id: uint64): Color | nil
+    get_color(id: RenderObjectId): Color | nil
     /**
      * Set the color or tint of the object with this id. Does nothing if this object does not support color.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_color Online documentation}
      */
-    set_color(id: uint64, color: Color | ColorArray): void
+    set_color(id: RenderObjectId, color: Color | ColorArray): void
     /**
      * Get where the object with this id is drawn.
      *
@@ -23586,7 +23871,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support target.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_target Online documentation}
      */
-    get_target(id: uint64): ScriptRenderTarget | nil
+    get_target(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set where the object with this id is drawn. Does nothing if this object does not support target.
      *
@@ -23595,7 +23880,7 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Circle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_target Online documentation}
      */
-    set_target(id: uint64, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
+    set_target(id: RenderObjectId, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
     /**
      * Get the orientation of the object with this id.
      *
@@ -23605,7 +23890,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text, polygon, sprite, light or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_orientation Online documentation}
      */
-    get_orientation(id: uint64): RealOrientation | nil
+    get_orientation(id: RenderObjectId): RealOrientation | nil
     /**
      * Set the orientation of the object with this id. Does nothing if this object is not a text, polygon, sprite, light or animation.
      *
@@ -23614,7 +23899,7 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_orientation Online documentation}
      */
-    set_orientation(id: uint64, orientation: RealOrientation): void
+    set_orientation(id: RenderObjectId, orientation: RealOrientation): void
     /**
      * Get the scale of the text or light with this id.
      *
@@ -23622,14 +23907,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text or light.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_scale Online documentation}
      */
-    get_scale(id: uint64): double | nil
+    get_scale(id: RenderObjectId): double | nil
     /**
      * Set the scale of the text or light with this id. Does nothing if this object is not a text or light.
      *
      * _Can only be used if this is Text or Light_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_scale Online documentation}
      */
-    set_scale(id: uint64, scale: double): void
+    set_scale(id: RenderObjectId, scale: double): void
     /**
      * Get the sprite of the sprite or light with this id.
      *
@@ -23637,14 +23922,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a sprite or light.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_sprite Online documentation}
      */
-    get_sprite(id: uint64): SpritePath | nil
+    get_sprite(id: RenderObjectId): SpritePath | nil
     /**
      * Set the sprite of the sprite or light with this id. Does nothing if this object is not a sprite or light.
      *
      * _Can only be used if this is Sprite or Light_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_sprite Online documentation}
      */
-    set_sprite(id: uint64, sprite: SpritePath): void
+    set_sprite(id: RenderObjectId, sprite: SpritePath): void
     /**
      * Get the intensity of the light with this id.
      *
@@ -23652,14 +23937,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a light.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_intensity Online documentation}
      */
-    get_intensity(id: uint64): float | nil
+    get_intensity(id: RenderObjectId): float | nil
     /**
      * Set the intensity of the light with this id. Does nothing if this object is not a light.
      *
      * _Can only be used if this is Light_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_intensity Online documentation}
      */
-    set_intensity(id: uint64, intensity: float): void
+    set_intensity(id: RenderObjectId, intensity: float): void
     /**
      * Get the minimum darkness at which the light with this id is rendered.
      *
@@ -23667,14 +23952,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a light.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_minimum_darkness Online documentation}
      */
-    get_minimum_darkness(id: uint64): float | nil
+    get_minimum_darkness(id: RenderObjectId): float | nil
     /**
      * Set the minimum darkness at which the light with this id is rendered. Does nothing if this object is not a light.
      *
      * _Can only be used if this is Light_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_minimum_darkness Online documentation}
      */
-    set_minimum_darkness(id: uint64, minimum_darkness: float): void
+    set_minimum_darkness(id: RenderObjectId, minimum_darkness: float): void
     /**
      * Get if the light with this id is rendered has the same orientation as the target entity. Note that `orientation` is still applied to the sprite.
      *
@@ -23682,14 +23967,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a light.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_oriented Online documentation}
      */
-    get_oriented(id: uint64): boolean | nil
+    get_oriented(id: RenderObjectId): boolean | nil
     /**
      * Set if the light with this id is rendered has the same orientation as the target entity. Does nothing if this object is not a light. Note that `orientation` is still applied to the sprite.
      *
      * _Can only be used if this is Light_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_oriented Online documentation}
      */
-    set_oriented(id: uint64, oriented: boolean): void
+    set_oriented(id: RenderObjectId, oriented: boolean): void
   }
   /**
    * @noSelf
@@ -23702,14 +23987,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support color.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_color Online documentation}
      */
-    get_color(id: uint64): Color | nil
+    get_color(id: RenderObjectId): Color | nil
     /**
      * Set the color or tint of the object with this id. Does nothing if this object does not support color.
      *
      * _Can only be used if this is Text, Line, Circle, Rectangle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_color Online documentation}
      */
-    set_color(id: uint64, color: Color | ColorArray): void
+    set_color(id: RenderObjectId, color: Color | ColorArray): void
     /**
      * Get where the object with this id is drawn.
      *
@@ -23719,7 +24004,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object does not support target.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_target Online documentation}
      */
-    get_target(id: uint64): ScriptRenderTarget | nil
+    get_target(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set where the object with this id is drawn. Does nothing if this object does not support target.
      *
@@ -23728,7 +24013,7 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Circle, Arc, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_target Online documentation}
      */
-    set_target(id: uint64, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
+    set_target(id: RenderObjectId, target: (MapPosition | MapPositionArray) | LuaEntity, target_offset?: Vector): void
     /**
      * Get the orientation of the object with this id.
      *
@@ -23738,7 +24023,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a text, polygon, sprite, light or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_orientation Online documentation}
      */
-    get_orientation(id: uint64): RealOrientation | nil
+    get_orientation(id: RenderObjectId): RealOrientation | nil
     /**
      * Set the orientation of the object with this id. Does nothing if this object is not a text, polygon, sprite, light or animation.
      *
@@ -23747,7 +24032,7 @@ declare module "factorio:runtime" {
      * _Can only be used if this is Text, Polygon, Sprite, Light or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_orientation Online documentation}
      */
-    set_orientation(id: uint64, orientation: RealOrientation): void
+    set_orientation(id: RenderObjectId, orientation: RealOrientation): void
     /**
      * Get the horizontal scale of the sprite or animation with this id.
      *
@@ -23755,14 +24040,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a sprite or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_x_scale Online documentation}
      */
-    get_x_scale(id: uint64): double | nil
+    get_x_scale(id: RenderObjectId): double | nil
     /**
      * Set the horizontal scale of the sprite or animation with this id. Does nothing if this object is not a sprite or animation.
      *
      * _Can only be used if this is Sprite or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_x_scale Online documentation}
      */
-    set_x_scale(id: uint64, x_scale: double): void
+    set_x_scale(id: RenderObjectId, x_scale: double): void
     /**
      * Get the vertical scale of the sprite or animation with this id.
      *
@@ -23770,14 +24055,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a sprite or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_y_scale Online documentation}
      */
-    get_y_scale(id: uint64): double | nil
+    get_y_scale(id: RenderObjectId): double | nil
     /**
      * Set the vertical scale of the sprite or animation with this id. Does nothing if this object is not a sprite or animation.
      *
      * _Can only be used if this is Sprite or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_y_scale Online documentation}
      */
-    set_y_scale(id: uint64, y_scale: double): void
+    set_y_scale(id: RenderObjectId, y_scale: double): void
     /**
      * Get the render layer of the sprite or animation with this id.
      *
@@ -23785,14 +24070,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not a sprite or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_render_layer Online documentation}
      */
-    get_render_layer(id: uint64): RenderLayer | nil
+    get_render_layer(id: RenderObjectId): RenderLayer | nil
     /**
      * Set the render layer of the sprite or animation with this id. Does nothing if this object is not a sprite or animation.
      *
      * _Can only be used if this is Sprite or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_render_layer Online documentation}
      */
-    set_render_layer(id: uint64, render_layer: RenderLayer): void
+    set_render_layer(id: RenderObjectId, render_layer: RenderLayer): void
     /**
      * Get the orientation_target of the object with this id. The object rotates so that it faces this target. Note that `orientation` is still applied to the object.
      *
@@ -23802,7 +24087,7 @@ declare module "factorio:runtime" {
      * @returns `nil` if no target or if this object is not a polygon, sprite, or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_orientation_target Online documentation}
      */
-    get_orientation_target(id: uint64): ScriptRenderTarget | nil
+    get_orientation_target(id: RenderObjectId): ScriptRenderTarget | nil
     /**
      * Set the orientation_target of the object with this id. Does nothing if this object is not a polygon, sprite, or animation. The object rotates so that it faces this target. Note that `orientation` is still applied to the object. Set to `nil` if the object should not have an orientation_target.
      *
@@ -23812,7 +24097,7 @@ declare module "factorio:runtime" {
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_orientation_target Online documentation}
      */
     set_orientation_target(
-      id: uint64,
+      id: RenderObjectId,
       orientation_target: (MapPosition | MapPositionArray) | LuaEntity,
       orientation_target_offset?: Vector,
     ): void
@@ -23823,14 +24108,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if this object is not a sprite or animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_oriented_offset Online documentation}
      */
-    get_oriented_offset(id: uint64): Vector | nil
+    get_oriented_offset(id: RenderObjectId): Vector | nil
     /**
      * Set the oriented_offset of the sprite or animation with this id. Does nothing if this object is not a sprite or animation. Offsets the center of the sprite or animation if `orientation_target` is given. This offset will rotate together with the sprite or animation.
      *
      * _Can only be used if this is Sprite or Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_oriented_offset Online documentation}
      */
-    set_oriented_offset(id: uint64, oriented_offset: Vector): void
+    set_oriented_offset(id: RenderObjectId, oriented_offset: Vector): void
     /**
      * Get the animation prototype name of the animation with this id.
      *
@@ -23838,14 +24123,14 @@ declare module "factorio:runtime" {
      * @returns `nil` if the object is not an animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_animation Online documentation}
      */
-    get_animation(id: uint64): string | nil
+    get_animation(id: RenderObjectId): string | nil
     /**
      * Set the animation prototype name of the animation with this id. Does nothing if this object is not an animation.
      *
      * _Can only be used if this is Animation_
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_animation Online documentation}
      */
-    set_animation(id: uint64, animation: string): void
+    set_animation(id: RenderObjectId, animation: string): void
     /**
      * Get the animation speed of the animation with this id.
      *
@@ -23853,7 +24138,7 @@ declare module "factorio:runtime" {
      * @returns Animation speed in frames per tick. `nil` if the object is not an animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_animation_speed Online documentation}
      */
-    get_animation_speed(id: uint64): double | nil
+    get_animation_speed(id: RenderObjectId): double | nil
     /**
      * Set the animation speed of the animation with this id. Does nothing if this object is not an animation.
      *
@@ -23861,7 +24146,7 @@ declare module "factorio:runtime" {
      * @param animation_speed Animation speed in frames per tick.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_animation_speed Online documentation}
      */
-    set_animation_speed(id: uint64, animation_speed: double): void
+    set_animation_speed(id: RenderObjectId, animation_speed: double): void
     /**
      * Get the animation offset of the animation with this id.
      *
@@ -23869,7 +24154,7 @@ declare module "factorio:runtime" {
      * @returns Animation offset in frames. `nil` if the object is not an animation.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.get_animation_offset Online documentation}
      */
-    get_animation_offset(id: uint64): double | nil
+    get_animation_offset(id: RenderObjectId): double | nil
     /**
      * Set the animation offset of the animation with this id. Does nothing if this object is not an animation.
      *
@@ -23877,7 +24162,7 @@ declare module "factorio:runtime" {
      * @param animation_offset Animation offset in frames.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaRendering.html#LuaRendering.set_animation_offset Online documentation}
      */
-    set_animation_offset(id: uint64, animation_offset: double): void
+    set_animation_offset(id: RenderObjectId, animation_offset: double): void
   }
   /**
    * Prototype of a resource category.
@@ -23960,7 +24245,9 @@ declare module "factorio:runtime" {
      * settings.get_player_settings(player_index)["active_lifestyle"] = {value = true}
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaSettings.html#LuaSettings.get_player_settings Online documentation}
      */
-    get_player_settings(player: PlayerIdentification): LuaCustomTable<string, ModSetting>
+    get_player_settings(
+      player: PlayerIdentification,
+    ): ModSettingsTable<"runtime-per-user", LuaCustomTable<string, ModSetting>>
     /**
      * All methods and properties that this object supports.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaSettings.html#LuaSettings.help Online documentation}
@@ -23970,23 +24257,26 @@ declare module "factorio:runtime" {
      * The startup mod settings, indexed by prototype name.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaSettings.html#LuaSettings.startup Online documentation}
      */
-    readonly startup: {
-      readonly [name: string]: ModSetting
-    }
+    readonly startup: ModSettingsTable<
+      "startup",
+      {
+        readonly [name: string]: ModSetting
+      }
+    >
     /**
      * The current global mod settings, indexed by prototype name.
      *
      * Even though this attribute is marked as read-only, individual settings can be changed by overwriting their {@link ModSetting} table. Mods can only change their own settings. Using the in-game console, all player settings can be changed.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaSettings.html#LuaSettings.global Online documentation}
      */
-    readonly global: LuaCustomTable<string, ModSetting>
+    readonly global: ModSettingsTable<"runtime-global", LuaCustomTable<string, ModSetting>>
     /**
      * The **default** player mod settings for this map, indexed by prototype name. Changing these settings only affects the default settings for future players joining the game.
      *
      * Individual settings can be changed by overwriting their {@link ModSetting} table. Mods can only change their own settings. Using the in-game console, all player settings can be changed.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaSettings.html#LuaSettings.player Online documentation}
      */
-    readonly player: LuaCustomTable<string, ModSetting>
+    readonly player: ModSettingsTable<"runtime-per-user", LuaCustomTable<string, ModSetting>>
     /**
      * The class name of this object. Available even when `valid` is false. For LuaStruct objects it may also be suffixed with a dotted path to a member of the struct.
      */
@@ -24852,6 +25142,76 @@ declare module "factorio:runtime" {
      */
     stretch_image_to_widget_size: boolean
   }
+  /**
+   * Modifications to a {@link LuaStyle}: any of its writable attributes.
+   */
+  export interface GuiStyleMods {
+    readonly minimal_width?: int
+    readonly maximal_width?: int
+    readonly minimal_height?: int
+    readonly maximal_height?: int
+    readonly natural_width?: int
+    readonly natural_height?: int
+    readonly top_padding?: int
+    readonly right_padding?: int
+    readonly bottom_padding?: int
+    readonly left_padding?: int
+    readonly top_margin?: int
+    readonly right_margin?: int
+    readonly bottom_margin?: int
+    readonly left_margin?: int
+    readonly horizontal_align?: "left" | "center" | "right"
+    readonly vertical_align?: "top" | "center" | "bottom"
+    readonly font_color?: Color | ColorArray
+    readonly font?: string
+    readonly top_cell_padding?: int
+    readonly right_cell_padding?: int
+    readonly bottom_cell_padding?: int
+    readonly left_cell_padding?: int
+    readonly horizontally_stretchable?: boolean
+    readonly vertically_stretchable?: boolean
+    readonly horizontally_squashable?: boolean
+    readonly vertically_squashable?: boolean
+    readonly rich_text_setting?: defines.rich_text_setting
+    readonly hovered_font_color?: Color | ColorArray
+    readonly clicked_font_color?: Color | ColorArray
+    readonly disabled_font_color?: Color | ColorArray
+    readonly pie_progress_color?: Color | ColorArray
+    readonly clicked_vertical_offset?: int
+    readonly selected_font_color?: Color | ColorArray
+    readonly selected_hovered_font_color?: Color | ColorArray
+    readonly selected_clicked_font_color?: Color | ColorArray
+    readonly strikethrough_color?: Color | ColorArray
+    readonly draw_grayscale_picture?: boolean
+    readonly horizontal_spacing?: int
+    readonly vertical_spacing?: int
+    readonly use_header_filler?: boolean
+    readonly bar_width?: uint
+    readonly color?: Color | ColorArray
+    readonly single_line?: boolean
+    readonly extra_top_padding_when_activated?: int
+    readonly extra_bottom_padding_when_activated?: int
+    readonly extra_left_padding_when_activated?: int
+    readonly extra_right_padding_when_activated?: int
+    readonly extra_top_margin_when_activated?: int
+    readonly extra_bottom_margin_when_activated?: int
+    readonly extra_left_margin_when_activated?: int
+    readonly extra_right_margin_when_activated?: int
+    readonly stretch_image_to_widget_size?: boolean
+    readonly badge_font?: string
+    readonly badge_horizontal_spacing?: int
+    readonly default_badge_font_color?: Color | ColorArray
+    readonly selected_badge_font_color?: Color | ColorArray
+    readonly disabled_badge_font_color?: Color | ColorArray
+    readonly width?: int
+    readonly height?: int
+    readonly size?: int | SizeArray
+    readonly padding?: int | StyleValuesArray
+    readonly margin?: int | StyleValuesArray
+    readonly cell_padding?: int
+    readonly extra_padding_when_activated?: int | StyleValuesArray
+    readonly extra_margin_when_activated?: int | StyleValuesArray
+  }
   /**
    * Common attributes to all variants of {@link SurfaceCreateEntity}.
    */
@@ -27247,7 +27607,7 @@ declare module "factorio:runtime" {
      * The unique train ID.
      * @see {@link https://lua-api.factorio.com/1.1.110/classes/LuaTrain.html#LuaTrain.id Online documentation}
      */
-    readonly id: uint
+    readonly id: TrainId
     /**
      * The player passengers on the train.
      *
@@ -27729,4 +28089,106 @@ declare module "factorio:runtime" {
      */
     readonly object_name: "LuaWallControlBehavior"
   }
+  /**
+   * Maps the `object_name` of each LuaObject class to its type.
+   */
+  export interface LuaObjectMap {
+    LuaAISettings: LuaAISettings
+    LuaAccumulatorControlBehavior: LuaAccumulatorControlBehavior
+    LuaAchievementPrototype: LuaAchievementPrototype
+    LuaAmmoCategoryPrototype: LuaAmmoCategoryPrototype
+    LuaArithmeticCombinatorControlBehavior: LuaArithmeticCombinatorControlBehavior
+    LuaAutoplaceControlPrototype: LuaAutoplaceControlPrototype
+    LuaBootstrap: LuaBootstrap
+    LuaBurner: LuaBurner
+    LuaBurnerPrototype: LuaBurnerPrototype
+    LuaChunkIterator: LuaChunkIterator
+    LuaCircuitNetwork: LuaCircuitNetwork
+    LuaCommandProcessor: LuaCommandProcessor
+    LuaConstantCombinatorControlBehavior: LuaConstantCombinatorControlBehavior
+    LuaContainerControlBehavior: LuaContainerControlBehavior
+    LuaCustomChartTag: LuaCustomChartTag
+    LuaCustomInputPrototype: LuaCustomInputPrototype
+    LuaCustomTable: LuaCustomTable<any, any>
+    LuaDamagePrototype: LuaDamagePrototype
+    LuaDeciderCombinatorControlBehavior: LuaDeciderCombinatorControlBehavior
+    LuaDecorativePrototype: LuaDecorativePrototype
+    LuaElectricEnergySourcePrototype: LuaElectricEnergySourcePrototype
+    LuaEntity: LuaEntity
+    LuaEntityPrototype: LuaEntityPrototype
+    LuaEquipment: LuaEquipment
+    LuaEquipmentCategoryPrototype: LuaEquipmentCategoryPrototype
+    LuaEquipmentGrid: LuaEquipmentGrid
+    LuaEquipmentGridPrototype: LuaEquipmentGridPrototype
+    LuaEquipmentPrototype: LuaEquipmentPrototype
+    LuaFlowStatistics: LuaFlowStatistics
+    LuaFluidBox: LuaFluidBox
+    LuaFluidBoxPrototype: LuaFluidBoxPrototype
+    LuaFluidEnergySourcePrototype: LuaFluidEnergySourcePrototype
+    LuaFluidPrototype: LuaFluidPrototype
+    LuaFontPrototype: LuaFontPrototype
+    LuaForce: LuaForce
+    LuaFuelCategoryPrototype: LuaFuelCategoryPrototype
+    LuaGameScript: LuaGameScript
+    LuaGroup: LuaGroup
+    LuaGui: LuaGui
+    LuaGuiElement: LuaGuiElement<any>
+    LuaHeatBufferPrototype: LuaHeatBufferPrototype
+    LuaHeatEnergySourcePrototype: LuaHeatEnergySourcePrototype
+    LuaInserterControlBehavior: LuaInserterControlBehavior
+    LuaInventory: LuaInventory
+    LuaItemPrototype: LuaItemPrototype
+    LuaItemStack: LuaItemStack
+    LuaLampControlBehavior: LuaLampControlBehavior
+    LuaLazyLoadedValue: LuaLazyLoadedValue<any>
+    LuaLogisticCell: LuaLogisticCell
+    LuaLogisticContainerControlBehavior: LuaLogisticContainerControlBehavior
+    LuaLogisticNetwork: LuaLogisticNetwork
+    LuaLogisticPoint: LuaLogisticPoint
+    LuaMiningDrillControlBehavior: LuaMiningDrillControlBehavior
+    LuaModSettingPrototype: LuaModSettingPrototype
+    LuaModuleCategoryPrototype: LuaModuleCategoryPrototype
+    LuaNamedNoiseExpression: LuaNamedNoiseExpression
+    LuaNoiseLayerPrototype: LuaNoiseLayerPrototype
+    LuaParticlePrototype: LuaParticlePrototype
+    LuaPermissionGroup: LuaPermissionGroup
+    LuaPermissionGroups: LuaPermissionGroups
+    LuaPlayer: LuaPlayer
+    LuaProfiler: LuaProfiler
+    LuaProgrammableSpeakerControlBehavior: LuaProgrammableSpeakerControlBehavior
+    LuaRCON: LuaRCON
+    LuaRailChainSignalControlBehavior: LuaRailChainSignalControlBehavior
+    LuaRailPath: LuaRailPath
+    LuaRailSignalControlBehavior: LuaRailSignalControlBehavior
+    LuaRandomGenerator: LuaRandomGenerator
+    LuaRecipe: LuaRecipe
+    LuaRecipeCategoryPrototype: LuaRecipeCategoryPrototype
+    LuaRecipePrototype: LuaRecipePrototype
+    LuaRemote: LuaRemote
+    LuaRendering: LuaRendering
+    LuaResourceCategoryPrototype: LuaResourceCategoryPrototype
+    LuaRoboportControlBehavior: LuaRoboportControlBehavior
+    LuaSettings: LuaSettings
+    LuaShortcutPrototype: LuaShortcutPrototype
+    LuaStorageTankControlBehavior: LuaStorageTankControlBehavior
+    LuaStyle: LuaStyle
+    LuaSurface: LuaSurface
+    LuaTechnology: LuaTechnology
+    LuaTechnologyPrototype: LuaTechnologyPrototype
+    LuaTile: LuaTile
+    LuaTilePrototype: LuaTilePrototype
+    LuaTrain: LuaTrain
+    LuaTrainStopControlBehavior: LuaTrainStopControlBehavior
+    LuaTransportBeltControlBehavior: LuaTransportBeltControlBehavior
+    LuaTransportLine: LuaTransportLine
+    LuaTrivialSmokePrototype: LuaTrivialSmokePrototype
+    LuaUnitGroup: LuaUnitGroup
+    LuaVirtualSignalPrototype: LuaVirtualSignalPrototype
+    LuaVoidEnergySourcePrototype: LuaVoidEnergySourcePrototype
+    LuaWallControlBehavior: LuaWallControlBehavior
+  }
+  /**
+   * A union of all LuaObject classes, which can be narrowed by checking `object_name`.
+   */
+  export type AnyLuaObject = LuaObjectMap[keyof LuaObjectMap]
 }
@@ -4,7 +4,7 @@
 
 import type { EntityType } from "factorio:prototype"
 
-import type { VersionString } from "factorio:common"
+import type { BrandedUnsignedInteger, SignedInteger, UnsignedInteger, VersionString } from "factorio:common"
 
 /**
  * @noResolution
@@ -4318,14 +4318,14 @@ declare module "factorio:runtime" {
     readonly buffer: LuaLogisticPoint[]
     readonly "active-provider": LuaLogisticPoint[]
   }
-  export interface ModSetting {
+  export interface ModSetting<T = int | double | boolean | string | Color | ColorArray> {
     /**
      * The value of the mod setting. The type depends on the kind of setting.
      */
     /**
      * The value of the mod setting. The type depends on the kind of setting.
      */
-    readonly value: int | double | boolean | string | Color | ColorArray
+    readonly value: T
   }
   /**
    * Any basic type (string, number, boolean) or table.
@@ -4414,16 +4414,28 @@ declare module "factorio:runtime" {
      */
     readonly nth_tick: uint
   }
-  export interface ModChangeData {
-    /**
-     * Old version of the mod. May be `nil` if the mod wasn't previously present (i.e. it was just added).
-     */
-    readonly old_version: VersionString | nil
-    /**
-     * New version of the mod. May be `nil` if the mod is no longer present (i.e. it was just removed).
-     */
-    readonly new_version: VersionString | nil
-  }
+  /** A {@link ModChangeData} for a mod that was just added. */
+  export interface ModAddedChangeData {
+    /** `nil`, as the mod wasn't previously present. */
+    readonly old_version: nil
+    /** New version of the mod. */
+    readonly new_version: VersionString
+  }
+  /** A {@link ModChangeData} for a mod that was just removed. */
+  export interface ModRemovedChangeData {
+    /** Old version of the mod. */
+    readonly old_version: VersionString
+    /** `nil`, as the mod is no longer present. */
+    readonly new_version: nil
+  }
+  /** A {@link ModChangeData} for a mod that was updated (or downgraded) to a different version. */
+  export interface ModUpdatedChangeData {
+    /** Old version of the mod. */
+    readonly old_version: VersionString
+    /** New version of the mod. */
+    readonly new_version: VersionString
+  }
+  export type ModChangeData = ModAddedChangeData | ModRemovedChangeData | ModUpdatedChangeData
   export interface ConfigurationChangedData {
     /**
      * Old version of the map. Present only when loading map version other than the current version.
@@ -4446,11 +4458,11 @@ declare module "factorio:runtime" {
      */
     readonly migration_applied: boolean
   }
-  export interface CustomCommandData {
+  export interface CustomCommandData<N extends string = string> {
     /**
      * The name of the command.
      */
-    readonly name: string
+    readonly name: N
     /**
      * The tick the command was used in.
      */
@@ -4761,42 +4773,42 @@ declare module "factorio:runtime" {
    * Since Lua 5.2 only uses doubles, any API that asks for `int` will floor the given double.
    * @see {@link https://lua-api.factorio.com/1.1.110/concepts.html#int Online documentation}
    */
-  export type int = number
+  export type int = SignedInteger
   /**
    * 8-bit signed integer. Possible values are `-128` to `127`.
    *
    * Since Lua 5.2 only uses doubles, any API that asks for `int8` will floor the given double.
    * @see {@link https://lua-api.factorio.com/1.1.110/concepts.html#int8 Online documentation}
    */
-  export type int8 = number
+  export type int8 = SignedInteger
   /**
    * 32-bit unsigned integer. Possible values are `0` to `4 294 967 295`.
    *
    * Since Lua 5.2 only uses doubles, any API that asks for `uint` will floor the given double.
    * @see {@link https://lua-api.factorio.com/1.1.110/concepts.html#uint Online documentation}
    */
-  export type uint = number
+  export type uint = UnsignedInteger
   /**
    * 8-bit unsigned integer. Possible values are `0` to `255`.
    *
    * Since Lua 5.2 only uses doubles, any API that asks for `uint8` will floor the given double.
    * @see {@link https://lua-api.factorio.com/1.1.110/concepts.html#uint8 Online documentation}
    */
-  export type uint8 = number
+  export type uint8 = UnsignedInteger
   /**
    * 16-bit unsigned integer. Possible values are `0` to `65 535`.
    *
    * Since Lua 5.2 only uses doubles, any API that asks for `uint16` will floor the given double.
    * @see {@link https://lua-api.factorio.com/1.1.110/concepts.html#uint16 Online documentation}
    */
-  export type uint16 = number
+  export type uint16 = UnsignedInteger
   /**
    * 64-bit unsigned integer. Possible values are `0` to `18 446 744 073 709 551 615`.
    *
    * Since Lua 5.2 only uses doubles, any API that asks for `uint64` will floor the given double.
    * @see {@link https://lua-api.factorio.com/1.1.110/concepts.html#uint64 Online documentation}
    */
-  export type uint64 = number
+  export type uint64 = UnsignedInteger
   /**
    * Nil is the type of the value `nil`, whose main property is to be different from any other value. It usually represents the absence of a useful value.
    * @see {@link https://lua-api.factorio.com/1.1.110/concepts.html#nil Online documentation}
@@ -8759,6 +8771,31 @@ declare module "factorio:runtime" {
     | readonly [topBottom: int, leftRight: int]
     | readonly [top: int, right: int, bottom: int, left: int]
   export type SizeArray = readonly [width: int, height: int]
+  /**
+   * The type of the `global` table, which is persisted in the save file.
+   *
+   * Mods can extend this interface to declare their global table schema:
+   * ```ts
+   * declare module "factorio:runtime" {
+   *   export interface GlobalTable {
+   *     players: Record<PlayerIndex, PlayerData>
+   *   }
+   * }
+   * ```
+   * To declare the `global` variable with this type, add `"typed-factorio/runtime/global-table"` to your tsconfig types, or
+   * add `declare const global: GlobalTable` to a `.d.ts` file.
+   */
+  export interface GlobalTable {}
+  /**
+   * Migrations for the {@link GlobalTable}: a map of mod version -> a function that migrates the global table from an
+   * older version to that version.
+   *
+   * These can be run in {@link LuaBootstrap#on_configuration_changed LuaBootstrap::on_configuration_changed}, for each
+   * version newer than the `old_version` of this mod's {@link ModChangeData}.
+   */
+  export type GlobalMigrations = {
+    readonly [version: VersionString]: (global: GlobalTable, data: ConfigurationChangedData) => void
+  }
   export type RaiseableEvents =
     | typeof defines.events.on_console_chat
     | typeof defines.events.on_player_crafted_item
@@ -8771,7 +8808,7 @@ declare module "factorio:runtime" {
     | typeof defines.events.script_raised_teleported
     | typeof defines.events.script_raised_set_tiles
   /** An event id. */
-  export type EventId<T extends object, F = unknown> = uint & {
+  export type EventId<T extends object, F = unknown> = BrandedUnsignedInteger & {
     readonly _eventData: T
     readonly _filter: F
   }
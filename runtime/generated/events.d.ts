@@ -4006,11 +4006,11 @@ declare module "factorio:runtime" {
     /**
      * The first old train id when splitting/merging trains.
      */
-    readonly old_train_id_1?: uint
+    readonly old_train_id_1?: TrainId
     /**
      * The second old train id when splitting/merging trains.
      */
-    readonly old_train_id_2?: uint
+    readonly old_train_id_2?: TrainId
     /**
      * Identifier of the event
      */
@@ -2,6 +2,8 @@
 
 /** @noSelfInFile */
 
+import type { BrandedUnsignedInteger } from "factorio:common"
+
 /**
  * @noResolution
  */
@@ -11,7 +13,7 @@ declare module "factorio:runtime" {
    *
    * You can cast a raw number to this type, e.g. `1 as PlayerIndex`.
    */
-  type PlayerIndex = uint & {
+  type PlayerIndex = BrandedUnsignedInteger & {
     _playerIndexBrand: void
   }
   /**
@@ -19,7 +21,7 @@ declare module "factorio:runtime" {
    *
    * You can cast a raw number to this type, e.g. `1 as SurfaceIndex`.
    */
-  type SurfaceIndex = uint & {
+  type SurfaceIndex = BrandedUnsignedInteger & {
     _surfaceIndexBrand: void
   }
   /**
@@ -27,7 +29,7 @@ declare module "factorio:runtime" {
    *
    * You can cast a raw number to this type, e.g. `1 as ForceIndex`.
    */
-  type ForceIndex = uint & {
+  type ForceIndex = BrandedUnsignedInteger & {
     _forceIndexBrand: void
   }
   /**
@@ -35,7 +37,7 @@ declare module "factorio:runtime" {
    *
    * You can cast a raw number to this type, e.g. `1 as UnitNumber`.
    */
-  type UnitNumber = uint & {
+  type UnitNumber = BrandedUnsignedInteger & {
     _unitNumberBrand: void
   }
   /**
@@ -43,7 +45,7 @@ declare module "factorio:runtime" {
    *
    * You can cast a raw number to this type, e.g. `1 as GuiElementIndex`.
    */
-  type GuiElementIndex = uint & {
+  type GuiElementIndex = BrandedUnsignedInteger & {
     _guiElementIndexBrand: void
   }
   /**
@@ -51,7 +53,47 @@ declare module "factorio:runtime" {
    *
    * You can cast a raw number to this type, e.g. `1 as RegistrationNumber`.
    */
-  type RegistrationNumber = uint64 & {
+  type RegistrationNumber = BrandedUnsignedInteger & {
     _registrationNumberBrand: void
   }
+  /**
+   * See {@link LuaCustomChartTag#tag_number LuaCustomChartTag.tag_number}.
+   *
+   * You can cast a raw number to this type, e.g. `1 as TagNumber`.
+   */
+  type TagNumber = BrandedUnsignedInteger & {
+    _tagNumberBrand: void
+  }
+  /**
+   * See {@link LuaEquipmentGrid#unique_id LuaEquipmentGrid.unique_id}.
+   *
+   * You can cast a raw number to this type, e.g. `1 as EquipmentGridId`.
+   */
+  type EquipmentGridId = BrandedUnsignedInteger & {
+    _equipmentGridIdBrand: void
+  }
+  /**
+   * See {@link LuaItemStack#item_number LuaItemStack.item_number}.
+   *
+   * You can cast a raw number to this type, e.g. `1 as ItemNumber`.
+   */
+  type ItemNumber = BrandedUnsignedInteger & {
+    _itemNumberBrand: void
+  }
+  /**
+   * See {@link LuaRendering#draw_animation LuaRendering.draw_animation}.
+   *
+   * You can cast a raw number to this type, e.g. `1 as RenderObjectId`.
+   */
+  type RenderObjectId = BrandedUnsignedInteger & {
+    _renderObjectIdBrand: void
+  }
+  /**
+   * See {@link LuaTrain#id LuaTrain.id}.
+   *
+   * You can cast a raw number to this type, e.g. `1 as TrainId`.
+   */
+  type TrainId = BrandedUnsignedInteger & {
+    _trainIdBrand: void
+  }
 }
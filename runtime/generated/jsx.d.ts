@@ -0,0 +1,96 @@
+// This is an auto-generated file. Do not edit directly!
+
+/** @noSelfInFile */
+
+import type {
+  ButtonGuiSpec,
+  CameraGuiSpec,
+  CheckboxGuiSpec,
+  ChooseElemButtonGuiSpec,
+  DropDownGuiSpec,
+  FlowGuiSpec,
+  FrameGuiSpec,
+  LineGuiSpec,
+  ListBoxGuiSpec,
+  MinimapGuiSpec,
+  OnGuiCheckedStateChangedEvent,
+  OnGuiClickEvent,
+  OnGuiClosedEvent,
+  OnGuiConfirmedEvent,
+  OnGuiElemChangedEvent,
+  OnGuiHoverEvent,
+  OnGuiLeaveEvent,
+  OnGuiLocationChangedEvent,
+  OnGuiOpenedEvent,
+  OnGuiSelectedTabChangedEvent,
+  OnGuiSelectionStateChangedEvent,
+  OnGuiSwitchStateChangedEvent,
+  OnGuiTextChangedEvent,
+  OnGuiValueChangedEvent,
+  OtherGuiSpec,
+  ProgressBarGuiSpec,
+  RadioButtonGuiSpec,
+  ScrollPaneGuiSpec,
+  SliderGuiSpec,
+  SpriteButtonGuiSpec,
+  SpriteGuiSpec,
+  SwitchGuiSpec,
+  TabGuiSpec,
+  TableGuiSpec,
+  TextBoxGuiSpec,
+  TextFieldGuiSpec,
+} from "factorio:runtime"
+
+declare global {
+  namespace JSX {
+    /**
+     * Handlers for gui events of an element.
+     */
+    interface GuiEventHandlers {
+      on_gui_checked_state_changed?: (event: OnGuiCheckedStateChangedEvent) => void
+      on_gui_click?: (event: OnGuiClickEvent) => void
+      on_gui_closed?: (event: OnGuiClosedEvent) => void
+      on_gui_confirmed?: (event: OnGuiConfirmedEvent) => void
+      on_gui_elem_changed?: (event: OnGuiElemChangedEvent) => void
+      on_gui_hover?: (event: OnGuiHoverEvent) => void
+      on_gui_leave?: (event: OnGuiLeaveEvent) => void
+      on_gui_location_changed?: (event: OnGuiLocationChangedEvent) => void
+      on_gui_opened?: (event: OnGuiOpenedEvent) => void
+      on_gui_selected_tab_changed?: (event: OnGuiSelectedTabChangedEvent) => void
+      on_gui_selection_state_changed?: (event: OnGuiSelectionStateChangedEvent) => void
+      on_gui_switch_state_changed?: (event: OnGuiSwitchStateChangedEvent) => void
+      on_gui_text_changed?: (event: OnGuiTextChangedEvent) => void
+      on_gui_value_changed?: (event: OnGuiValueChangedEvent) => void
+    }
+    /**
+     * Gui elements, with props from their {@link GuiSpec} type.
+     */
+    interface IntrinsicElements {
+      button: GuiIntrinsicProps<ButtonGuiSpec>
+      "sprite-button": GuiIntrinsicProps<SpriteButtonGuiSpec>
+      checkbox: GuiIntrinsicProps<CheckboxGuiSpec>
+      flow: GuiIntrinsicProps<FlowGuiSpec>
+      frame: GuiIntrinsicProps<FrameGuiSpec>
+      label: GuiIntrinsicProps<OtherGuiSpec>
+      line: GuiIntrinsicProps<LineGuiSpec>
+      progressbar: GuiIntrinsicProps<ProgressBarGuiSpec>
+      table: GuiIntrinsicProps<TableGuiSpec>
+      textfield: GuiIntrinsicProps<TextFieldGuiSpec>
+      radiobutton: GuiIntrinsicProps<RadioButtonGuiSpec>
+      sprite: GuiIntrinsicProps<SpriteGuiSpec>
+      "scroll-pane": GuiIntrinsicProps<ScrollPaneGuiSpec>
+      "drop-down": GuiIntrinsicProps<DropDownGuiSpec>
+      "list-box": GuiIntrinsicProps<ListBoxGuiSpec>
+      camera: GuiIntrinsicProps<CameraGuiSpec>
+      "choose-elem-button": GuiIntrinsicProps<ChooseElemButtonGuiSpec>
+      "text-box": GuiIntrinsicProps<TextBoxGuiSpec>
+      slider: GuiIntrinsicProps<SliderGuiSpec>
+      minimap: GuiIntrinsicProps<MinimapGuiSpec>
+      "entity-preview": GuiIntrinsicProps<OtherGuiSpec>
+      "empty-widget": GuiIntrinsicProps<OtherGuiSpec>
+      "tabbed-pane": GuiIntrinsicProps<OtherGuiSpec>
+      tab: GuiIntrinsicProps<TabGuiSpec>
+      switch: GuiIntrinsicProps<SwitchGuiSpec>
+    }
+  }
+}
@@ -0,0 +1,6 @@
+// Optionally include this file (as "typed-factorio/runtime/global-table") to declare the `global` table as GlobalTable.
+
+/**
+ * The `global` table, which is persisted in the save file. See {@link GlobalTable} to declare its schema.
+ */
+declare const global: import("factorio:runtime").GlobalTable
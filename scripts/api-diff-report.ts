@@ -0,0 +1,48 @@
+// Usage: npm run api-diff-report -- <old-version> [new-version] [--json=<file>] [--markdown=<file>]
+// Compares two api json snapshots in generator/input. new-version defaults to the current (latest) version.
+// Prints markdown to stdout if no output files are given.
+import fs from "fs"
+import type { FactorioRuntimeApiJson } from "../generator/FactorioRuntimeApiJson.js"
+import type { FactorioPrototypeApiJson } from "../generator/FactorioPrototypeApiJson.js"
+import { ApiDiff, diffPrototypeApi, diffRuntimeApi, diffToMarkdown } from "./api-diff.js"
+import { getCurrentFactorioVersion, readApiJson, resolveArgPath } from "./util.js"
+
+const args = process.argv.slice(2)
+const [oldVersion, newVersion = getCurrentFactorioVersion()] = args.filter((arg) => !arg.startsWith("--"))
+if (!oldVersion) {
+  throw new Error("Usage: api-diff-report <old-version> [new-version] [--json=<file>] [--markdown=<file>]")
+}
+function getOption(name: string) {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.substring(name.length + 3)
+}
+const jsonArg = getOption("json")
+const jsonFile = jsonArg && resolveArgPath(jsonArg)
+const markdownArg = getOption("markdown")
+const markdownFile = markdownArg && resolveArgPath(markdownArg)
+
+const diff: ApiDiff = {
+  oldVersion,
+  newVersion,
+  stages: [
+    diffRuntimeApi(
+      readApiJson<FactorioRuntimeApiJson>("runtime", oldVersion),
+      readApiJson<FactorioRuntimeApiJson>("runtime", newVersion),
+    ),
+    diffPrototypeApi(
+      readApiJson<FactorioPrototypeApiJson>("prototype", oldVersion),
+      readApiJson<FactorioPrototypeApiJson>("prototype", newVersion),
+    ),
+  ],
+}
+
+if (jsonFile) {
+  fs.writeFileSync(jsonFile, JSON.stringify(diff, undefined, 2) + "\n")
+  console.log(`wrote ${jsonFile}`)
+}
+if (markdownFile) {
+  fs.writeFileSync(markdownFile, diffToMarkdown(diff))
+  console.log(`wrote ${markdownFile}`)
+}
+if (!jsonFile && !markdownFile) {
+  console.log(diffToMarkdown(diff))
+}
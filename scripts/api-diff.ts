@@ -0,0 +1,363 @@
+import type * as runtime from "../generator/FactorioRuntimeApiJson.js"
+import type * as prototype from "../generator/FactorioPrototypeApiJson.js"
+
+export type ChangeKind = "added" | "removed" | "changed"
+
+export interface Change {
+  kind: ChangeKind
+  /** Dot-separated path of the changed item, e.g. `LuaEntity.health` or `defines.events.on_tick`. */
+  path: string
+  /** What kind of item this is, e.g. "class", "attribute", "method", "prototype". */
+  category: string
+  /** Human-readable details for "changed" entries, e.g. "type: `uint` → `double`". */
+  details?: string[]
+}
+
+export interface StageDiff {
+  stage: "runtime" | "prototype"
+  oldVersion: string
+  newVersion: string
+  changes: Change[]
+}
+
+export interface ApiDiff {
+  oldVersion: string
+  newVersion: string
+  stages: StageDiff[]
+}
+
+type AnyType = runtime.Type | prototype.Type
+
+/** Gives a short, readable representation of an api json type, for use in diff details. */
+export function typeToString(type: AnyType): string {
+  if (typeof type === "string") return type
+  switch (type.complex_type) {
+    case "type":
+      return typeToString(type.value)
+    case "union":
+      return type.options.map(typeToString).join(" | ")
+    case "array":
+      return `array[${typeToString(type.value)}]`
+    case "dictionary":
+    case "LuaCustomTable":
+      return `${type.complex_type}[${typeToString(type.key)} → ${typeToString(type.value)}]`
+    case "LuaLazyLoadedValue":
+      return `LuaLazyLoadedValue[${typeToString(type.value)}]`
+    case "tuple":
+      return `tuple[${type.values.map(typeToString).join(", ")}]`
+    case "literal":
+      return JSON.stringify(type.value)
+    case "function":
+      return `function(${type.parameters.map(typeToString).join(", ")})`
+    case "table":
+      return `table{${type.parameters.map((p) => p.name + (p.optional ? "?" : "")).join(", ")}}`
+    case "LuaStruct":
+      return `LuaStruct{${type.attributes.map((a) => a.name).join(", ")}}`
+    case "struct":
+      return "struct"
+    case "builtin":
+      return "builtin"
+  }
+}
+
+/** Strips documentation-only fields, so that only structural changes are compared. */
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(normalize)
+  if (typeof value !== "object" || value === null) return value
+  const result: Record<string, unknown> = {}
+  for (const [key, v] of Object.entries(value)) {
+    if (key === "description" || key === "order" || key === "examples" || key === "lists" || key === "images") continue
+    result[key] = normalize(v)
+  }
+  return result
+}
+
+function sameType(a: AnyType, b: AnyType): boolean {
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b))
+}
+
+function typeChange(oldType: AnyType, newType: AnyType): string[] {
+  if (sameType(oldType, newType)) return []
+  return [`type: \`${typeToString(oldType)}\` → \`${typeToString(newType)}\``]
+}
+
+function flagChange(name: string, oldValue: boolean | undefined, newValue: boolean | undefined): string[] {
+  if (!!oldValue === !!newValue) return []
+  return [`${name}: ${!!oldValue} → ${!!newValue}`]
+}
+
+class DiffBuilder {
+  changes: Change[] = []
+
+  /**
+   * Compares two named collections. Added and removed items are recorded, and `compareItem` is called for items present
+   * in both.
+   */
+  compareNamed<T extends { name: string }>(
+    category: string,
+    parentPath: string,
+    oldItems: readonly T[] | undefined,
+    newItems: readonly T[] | undefined,
+    compareItem: (oldItem: T, newItem: T, path: string) => void,
+  ): void {
+    const oldMap = new Map((oldItems ?? []).map((item) => [item.name, item]))
+    const newMap = new Map((newItems ?? []).map((item) => [item.name, item]))
+    for (const [name, oldItem] of oldMap) {
+      const path = parentPath ? `${parentPath}.${name}` : name
+      const newItem = newMap.get(name)
+      if (!newItem) {
+        this.changes.push({ kind: "removed", path, category })
+      } else {
+        compareItem(oldItem, newItem, path)
+      }
+    }
+    for (const name of newMap.keys()) {
+      if (oldMap.has(name)) continue
+      const path = parentPath ? `${parentPath}.${name}` : name
+      this.changes.push({ kind: "added", path, category })
+    }
+  }
+
+  changed(category: string, path: string, details: string[]): void {
+    if (details.length === 0) return
+    this.changes.push({ kind: "changed", path, category, details })
+  }
+}
+
+/**
+ * @param positional If the parameters are passed by position, in which case reordering them is a change.
+ */
+function diffParameters(
+  oldParameters: readonly runtime.Parameter[],
+  newParameters: readonly runtime.Parameter[],
+  what: string,
+  positional = false,
+): string[] {
+  const details: string[] = []
+  if (positional) {
+    // also catches parameters inserted or removed before existing ones
+    const getOrder = (parameters: readonly runtime.Parameter[]) =>
+      [...parameters].sort((a, b) => a.order - b.order).map((p) => p.name)
+    const oldOrder = getOrder(oldParameters)
+    const newOrder = getOrder(newParameters)
+    if (oldOrder.some((name, i) => newOrder.includes(name) && newOrder.indexOf(name) !== i)) {
+      details.push(`${what} order: \`(${oldOrder.join(", ")})\` → \`(${newOrder.join(", ")})\``)
+    }
+  }
+  const oldMap = new Map(oldParameters.map((p) => [p.name, p]))
+  const newMap = new Map(newParameters.map((p) => [p.name, p]))
+  for (const [name, oldParam] of oldMap) {
+    const newParam = newMap.get(name)
+    if (!newParam) {
+      details.push(`removed ${what} \`${name}\``)
+      continue
+    }
+    for (const detail of [
+      ...typeChange(oldParam.type, newParam.type),
+      ...flagChange("optional", oldParam.optional, newParam.optional),
+    ]) {
+      details.push(`${what} \`${name}\` ${detail}`)
+    }
+  }
+  for (const [name, newParam] of newMap) {
+    if (oldMap.has(name)) continue
+    details.push(`added ${newParam.optional ? "optional " : ""}${what} \`${name}\`: \`${typeToString(newParam.type)}\``)
+  }
+  return details
+}
+
+function diffMethod(oldMethod: runtime.Method, newMethod: runtime.Method): string[] {
+  const positional = !oldMethod.format.takes_table && !newMethod.format.takes_table
+  const details = diffParameters(oldMethod.parameters, newMethod.parameters, "parameter", positional)
+  details.push(...flagChange("takes_table", oldMethod.format.takes_table, newMethod.format.takes_table))
+  const oldVariants = (oldMethod.variant_parameter_groups ?? []).flatMap((g) =>
+    g.parameters.map((p) => g.name + "." + p.name),
+  )
+  const newVariants = (newMethod.variant_parameter_groups ?? []).flatMap((g) =>
+    g.parameters.map((p) => g.name + "." + p.name),
+  )
+  if (oldVariants.join() !== newVariants.join()) details.push("variant parameter groups changed")
+  const oldReturns = oldMethod.return_values.map((r) => typeToString(r.type) + (r.optional ? "?" : "")).join(", ")
+  const newReturns = newMethod.return_values.map((r) => typeToString(r.type) + (r.optional ? "?" : "")).join(", ")
+  if (oldReturns !== newReturns) details.push(`return values: \`(${oldReturns})\` → \`(${newReturns})\``)
+  return details
+}
+
+function diffAttribute(oldAttr: runtime.Attribute, newAttr: runtime.Attribute): string[] {
+  return [
+    ...typeChange(oldAttr.type, newAttr.type),
+    ...flagChange("read", oldAttr.read, newAttr.read),
+    ...flagChange("write", oldAttr.write, newAttr.write),
+    ...flagChange("optional", oldAttr.optional, newAttr.optional),
+  ]
+}
+
+function diffDefines(builder: DiffBuilder, parent: string, oldDefines: runtime.Define[], newDefines: runtime.Define[]) {
+  builder.compareNamed("define", parent, oldDefines, newDefines, (oldDefine, newDefine, path) => {
+    builder.compareNamed("define value", path, oldDefine.values, newDefine.values, () => {})
+    diffDefines(builder, path, oldDefine.subkeys ?? [], newDefine.subkeys ?? [])
+  })
+}
+
+export function diffRuntimeApi(
+  oldApi: runtime.FactorioRuntimeApiJson,
+  newApi: runtime.FactorioRuntimeApiJson,
+): StageDiff {
+  const builder = new DiffBuilder()
+
+  builder.compareNamed("class", "", oldApi.classes, newApi.classes, (oldClass, newClass, classPath) => {
+    if (oldClass.parent !== newClass.parent) {
+      builder.changed("class", classPath, [`parent: \`${oldClass.parent}\` → \`${newClass.parent}\``])
+    }
+    builder.compareNamed("attribute", classPath, oldClass.attributes, newClass.attributes, (oldAttr, newAttr, path) =>
+      builder.changed("attribute", path, diffAttribute(oldAttr, newAttr)),
+    )
+    builder.compareNamed("method", classPath, oldClass.methods, newClass.methods, (oldMethod, newMethod, path) =>
+      builder.changed("method", path, diffMethod(oldMethod, newMethod)),
+    )
+    builder.compareNamed("operator", classPath, oldClass.operators, newClass.operators, () => {})
+  })
+
+  builder.compareNamed("event", "", oldApi.events, newApi.events, (oldEvent, newEvent, path) => {
+    const details = diffParameters(oldEvent.data, newEvent.data, "data field")
+    if (oldEvent.filter !== newEvent.filter) details.push(`filter: \`${oldEvent.filter}\` → \`${newEvent.filter}\``)
+    builder.changed("event", path, details)
+  })
+
+  diffDefines(builder, "defines", oldApi.defines, newApi.defines)
+
+  builder.compareNamed("concept", "", oldApi.concepts, newApi.concepts, (oldConcept, newConcept, path) =>
+    builder.changed("concept", path, typeChange(oldConcept.type, newConcept.type)),
+  )
+
+  builder.compareNamed("global object", "", oldApi.global_objects, newApi.global_objects, (oldObj, newObj, path) =>
+    builder.changed("global object", path, typeChange(oldObj.type, newObj.type)),
+  )
+  builder.compareNamed("global function", "", oldApi.global_functions, newApi.global_functions, (oldFn, newFn, path) =>
+    builder.changed("global function", path, diffMethod(oldFn, newFn)),
+  )
+
+  return {
+    stage: "runtime",
+    oldVersion: oldApi.application_version,
+    newVersion: newApi.application_version,
+    changes: builder.changes,
+  }
+}
+
+function diffProperties(
+  builder: DiffBuilder,
+  parentPath: string,
+  oldProperties: prototype.Property[] | undefined,
+  newProperties: prototype.Property[] | undefined,
+) {
+  builder.compareNamed("property", parentPath, oldProperties, newProperties, (oldProp, newProp, path) =>
+    builder.changed("property", path, [
+      ...typeChange(oldProp.type, newProp.type),
+      ...flagChange("optional", oldProp.optional, newProp.optional),
+      ...(oldProp.alt_name !== newProp.alt_name ? [`alt_name: \`${oldProp.alt_name}\` → \`${newProp.alt_name}\``] : []),
+    ]),
+  )
+}
+
+export function diffPrototypeApi(
+  oldApi: prototype.FactorioPrototypeApiJson,
+  newApi: prototype.FactorioPrototypeApiJson,
+): StageDiff {
+  const builder = new DiffBuilder()
+
+  builder.compareNamed("prototype", "", oldApi.prototypes, newApi.prototypes, (oldProto, newProto, path) => {
+    const details: string[] = []
+    if (oldProto.parent !== newProto.parent) details.push(`parent: \`${oldProto.parent}\` → \`${newProto.parent}\``)
+    if (oldProto.typename !== newProto.typename) {
+      details.push(`typename: \`${oldProto.typename}\` → \`${newProto.typename}\``)
+    }
+    details.push(...flagChange("abstract", oldProto.abstract, newProto.abstract))
+    details.push(...flagChange("deprecated", oldProto.deprecated, newProto.deprecated))
+    builder.changed("prototype", path, details)
+    diffProperties(builder, path, oldProto.properties, newProto.properties)
+  })
+
+  builder.compareNamed("type", "", oldApi.types, newApi.types, (oldType, newType, path) => {
+    const details: string[] = []
+    if (oldType.parent !== newType.parent) details.push(`parent: \`${oldType.parent}\` → \`${newType.parent}\``)
+    details.push(...typeChange(oldType.type, newType.type))
+    builder.changed("type", path, details)
+    diffProperties(builder, path, oldType.properties, newType.properties)
+  })
+
+  return {
+    stage: "prototype",
+    oldVersion: oldApi.application_version,
+    newVersion: newApi.application_version,
+    changes: builder.changes,
+  }
+}
+
+function plural(category: string): string {
+  if (category.endsWith("s")) return category + "es"
+  if (category.endsWith("y")) return category.slice(0, -1) + "ies"
+  return category + "s"
+}
+
+function capitalize(str: string): string {
+  return str[0].toUpperCase() + str.slice(1)
+}
+
+function formatChange(change: Change): string {
+  const verb = change.kind === "added" ? "Added" : change.kind === "removed" ? "Removed" : "Changed"
+  let result = `- ${verb} ${change.category} \`${change.path}\``
+  if (change.details) {
+    result += change.details.map((d) => `\n  - ${d}`).join("")
+  }
+  return result
+}
+
+/** Renders a diff as markdown, grouped by stage, then by category. */
+export function diffToMarkdown(diff: ApiDiff): string {
+  let result = `# API changes from ${diff.oldVersion} to ${diff.newVersion}\n`
+  for (const stage of diff.stages) {
+    result += `\n## ${stage.stage === "runtime" ? "Runtime" : "Prototype"}\n`
+    if (stage.changes.length === 0) {
+      result += "\nNo changes.\n"
+      continue
+    }
+    const byCategory = new Map<string, Change[]>()
+    for (const change of stage.changes) {
+      let list = byCategory.get(change.category)
+      if (!list) byCategory.set(change.category, (list = []))
+      list.push(change)
+    }
+    for (const [category, changes] of byCategory) {
+      result += `\n### ${capitalize(plural(category))}\n\n`
+      result += changes.map(formatChange).join("\n") + "\n"
+    }
+  }
+  return result
+}
+
+/**
+ * Gives a short summary of top-level additions and removals (classes, events, concepts, prototypes, types), suitable
+ * for a changelog entry.
+ */
+export function summarizeDiff(diff: ApiDiff): string[] {
+  const topLevelCategories = new Set(["class", "event", "concept", "prototype", "type"])
+  const lines: string[] = []
+  for (const stage of diff.stages) {
+    for (const kind of ["added", "removed"] as const) {
+      const byCategory = new Map<string, string[]>()
+      for (const change of stage.changes) {
+        if (change.kind !== kind || !topLevelCategories.has(change.category)) continue
+        let names = byCategory.get(change.category)
+        if (!names) byCategory.set(change.category, (names = []))
+        names.push(`\`${change.path}\``)
+      }
+      for (const [category, names] of byCategory) {
+        const verb = kind === "added" ? "Added" : "Removed"
+        const what = category === "type" ? "prototype types" : plural(category)
+        lines.push(`${verb} ${what}: ${names.join(", ")}`)
+      }
+    }
+  }
+  return lines
+}
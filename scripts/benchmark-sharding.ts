@@ -0,0 +1,250 @@
+// Usage: npm run benchmark-sharding -- [--runs=<n>]
+// Compares the monolithic and sharded (generate --sharded) layouts of the generated files, by timing `tsc --noEmit` and
+// tsserver completions in a small runtime-stage project.
+// Each layout is generated into a temporary copy of the package, so the checkout is left untouched.
+import { ChildProcessWithoutNullStreams, execFileSync, spawn } from "child_process"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { performance } from "perf_hooks"
+import { fileURLToPath } from "url"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const rootDir = path.resolve(__dirname, "..")
+const tscPath = path.join(rootDir, "node_modules/typescript/bin/tsc")
+const tsserverPath = path.join(rootDir, "node_modules/typescript/lib/tsserver.js")
+
+const runs = Number(process.argv.find((arg) => arg.startsWith("--runs="))?.substring("--runs=".length) ?? 3)
+// generous, as the first request includes loading the project
+const requestTimeout = 5 * 60 * 1000
+
+const fixtureSource = `script.on_event(defines.events.on_player_created, (event) => {
+  const player = game.get_player(event.player_index)!
+  player.print("Hello")
+})
+`
+// position of "print", after "player."
+const completionLocation = { line: 3, offset: 10 }
+
+interface Layout {
+  name: string
+  generateScript: string
+}
+const layouts: Layout[] = [
+  { name: "sharded", generateScript: "generate-sharded" },
+  { name: "monolithic", generateScript: "generate" },
+]
+
+interface Result {
+  layout: string
+  tsc: number
+  firstCompletion: number
+  completionAfterEdit: number
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+function time(fn: () => void): number {
+  const start = performance.now()
+  fn()
+  return performance.now() - start
+}
+
+async function timeAsync(fn: () => Promise<unknown>): Promise<number> {
+  const start = performance.now()
+  await fn()
+  return performance.now() - start
+}
+
+// not part of the package, or replaced by generating
+const excludedFromCopy = new Set([".git", "node_modules", "generator", "scripts", "versions", "generated"])
+
+/** Copies the hand-written declarations of the package; the generated files are written by {@link generate}. */
+function createPackageCopy(dir: string): string {
+  const packageDir = path.join(dir, "typed-factorio")
+  fs.cpSync(rootDir, packageDir, {
+    recursive: true,
+    filter: (source) => !excludedFromCopy.has(path.basename(source)),
+  })
+  // for lua-types
+  fs.symlinkSync(path.join(rootDir, "node_modules"), path.join(packageDir, "node_modules"), "dir")
+  return packageDir
+}
+
+function generate(layout: Layout, packageDir: string) {
+  console.log(`generating ${layout.name} layout`)
+  execFileSync("npm", ["run", layout.generateScript, "--", `--out-dir=${packageDir}`], {
+    cwd: rootDir,
+    stdio: ["ignore", "ignore", "inherit"],
+  })
+}
+
+function createFixture(dir: string, packageDir: string): string {
+  fs.mkdirSync(path.join(dir, "node_modules"), { recursive: true })
+  fs.symlinkSync(packageDir, path.join(dir, "node_modules/typed-factorio"), "dir")
+  const tsconfig = {
+    compilerOptions: {
+      strict: true,
+      target: "esnext",
+      lib: ["esnext"],
+      moduleResolution: "node",
+      noEmit: true,
+      types: ["typed-factorio/runtime"],
+    },
+    include: ["*.ts"],
+  }
+  fs.writeFileSync(path.join(dir, "tsconfig.json"), JSON.stringify(tsconfig, undefined, 2))
+  fs.writeFileSync(path.join(dir, "control.ts"), fixtureSource)
+  return dir
+}
+
+interface TsServerResponse {
+  type: string
+  request_seq?: number
+  success?: boolean
+  message?: string
+}
+
+interface PendingRequest {
+  resolve(response: TsServerResponse): void
+  reject(error: Error): void
+}
+
+/** Minimal tsserver client; see https://github.com/microsoft/TypeScript/wiki/Standalone-Server-%28tsserver%29 */
+class TsServer {
+  private process: ChildProcessWithoutNullStreams
+  private seq = 0
+  private buffer = Buffer.alloc(0)
+  private pending = new Map<number, PendingRequest>()
+
+  constructor(cwd: string) {
+    this.process = spawn(process.execPath, [tsserverPath, "--disableAutomaticTypingAcquisition"], { cwd })
+    this.process.stdout.on("data", (data: Buffer) => this.onData(data))
+    this.process.on("exit", (code, signal) => {
+      const error = new Error(`tsserver exited (${signal ?? `code ${code}`})`)
+      for (const request of this.pending.values()) request.reject(error)
+      this.pending.clear()
+    })
+  }
+
+  private onData(data: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, data])
+    for (;;) {
+      const headerEnd = this.buffer.indexOf("\r\n\r\n")
+      if (headerEnd === -1) return
+      const length = Number(
+        this.buffer
+          .subarray(0, headerEnd)
+          .toString()
+          .match(/Content-Length: (\d+)/)![1],
+      )
+      const bodyStart = headerEnd + 4
+      if (this.buffer.length < bodyStart + length) return
+      const message = JSON.parse(this.buffer.subarray(bodyStart, bodyStart + length).toString()) as TsServerResponse
+      this.buffer = this.buffer.subarray(bodyStart + length)
+      if (message.type === "response" && message.request_seq !== undefined) {
+        this.pending.get(message.request_seq)?.resolve(message)
+        this.pending.delete(message.request_seq)
+      }
+    }
+  }
+
+  /** Sends a command that tsserver does not respond to (e.g. open, change). */
+  notify(command: string, args: object): void {
+    this.process.stdin.write(JSON.stringify({ seq: ++this.seq, type: "request", command, arguments: args }) + "\n")
+  }
+
+  request(command: string, args: object): Promise<TsServerResponse> {
+    const seq = ++this.seq
+    const response = new Promise<TsServerResponse>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pending.delete(seq)
+        reject(new Error(`tsserver ${command} timed out after ${requestTimeout} ms`))
+      }, requestTimeout)
+      this.pending.set(seq, {
+        resolve: (message) => {
+          clearTimeout(timeout)
+          if (message.success) resolve(message)
+          else reject(new Error(`tsserver ${command} failed: ${message.message}`))
+        },
+        reject: (error) => {
+          clearTimeout(timeout)
+          reject(error)
+        },
+      })
+    })
+    this.process.stdin.write(JSON.stringify({ seq, type: "request", command, arguments: args }) + "\n")
+    return response
+  }
+
+  close(): void {
+    this.process.kill()
+  }
+}
+
+async function measureCompletions(fixtureDir: string): Promise<{ first: number; afterEdit: number }> {
+  const file = path.join(fixtureDir, "control.ts")
+  const server = new TsServer(fixtureDir)
+  try {
+    const completionArgs = { file, ...completionLocation }
+    // the first request includes loading the project
+    const first = await timeAsync(async () => {
+      server.notify("open", { file })
+      await server.request("completionInfo", completionArgs)
+    })
+    const afterEdit: number[] = []
+    for (let i = 0; i < runs; i++) {
+      // insert a newline at the end of the file, so the program is updated before the next completion
+      const endLine = fixtureSource.split("\n").length + i
+      server.notify("change", { file, line: endLine, offset: 1, endLine, endOffset: 1, insertString: "\n" })
+      afterEdit.push(await timeAsync(() => server.request("completionInfo", completionArgs)))
+    }
+    return { first, afterEdit: median(afterEdit) }
+  } finally {
+    server.close()
+  }
+}
+
+async function benchmark(layout: Layout, fixtureDir: string): Promise<Result> {
+  console.log(`benchmarking ${layout.name} layout`)
+  const tscTimes: number[] = []
+  for (let i = 0; i < runs; i++) {
+    tscTimes.push(time(() => execFileSync(process.execPath, [tscPath, "-p", fixtureDir], { stdio: "inherit" })))
+  }
+  const completions = await measureCompletions(fixtureDir)
+  return {
+    layout: layout.name,
+    tsc: median(tscTimes),
+    firstCompletion: completions.first,
+    completionAfterEdit: completions.afterEdit,
+  }
+}
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "typed-factorio-benchmark-"))
+const results: Result[] = []
+try {
+  const packageDir = createPackageCopy(tempDir)
+  const fixtureDir = createFixture(path.join(tempDir, "fixture"), packageDir)
+  for (const layout of layouts) {
+    generate(layout, packageDir)
+    results.push(await benchmark(layout, fixtureDir))
+  }
+} finally {
+  fs.rmSync(tempDir, { recursive: true })
+}
+
+const ms = (value: number) => `${Math.round(value)} ms`
+console.log()
+console.log(`Median of ${runs} runs, except first completion.`)
+console.log()
+console.log("| Layout | tsc --noEmit | First completion | Completion after edit |")
+console.log("| --- | --- | --- | --- |")
+for (const result of results) {
+  console.log(
+    `| ${result.layout} | ${ms(result.tsc)} | ${ms(result.firstCompletion)} | ${ms(result.completionAfterEdit)} |`,
+  )
+}
@@ -0,0 +1,292 @@
+import type {
+  CustomProperty,
+  FactorioPrototypeApiJson,
+  Property,
+  Prototype,
+  PrototypeConcept,
+  Type,
+  UnionType,
+} from "../generator/FactorioPrototypeApiJson.js"
+import { typeToString } from "./api-diff.js"
+
+/** `data.raw`, as dumped with `--dump-data`: prototype type -> prototype name -> prototype. */
+export type DataRaw = Record<string, Record<string, unknown>>
+
+export interface ValidationError {
+  /** Lua path of the invalid value, e.g. `data.raw.recipe["iron-gear-wheel"].ingredients[1]`. */
+  path: string
+  message: string
+}
+
+type Table = Record<string, unknown>
+type Literal = string | number | boolean
+
+const integerRanges: Record<string, [min: number, max: number]> = {
+  int8: [-(2 ** 7), 2 ** 7 - 1],
+  int16: [-(2 ** 15), 2 ** 15 - 1],
+  int32: [-(2 ** 31), 2 ** 31 - 1],
+  uint8: [0, 2 ** 8 - 1],
+  uint16: [0, 2 ** 16 - 1],
+  uint32: [0, 2 ** 32 - 1],
+  uint64: [0, 2 ** 64 - 1],
+}
+
+function pathTo(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`
+  return key.match(/^[A-Za-z_]\w*$/) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`
+}
+
+function describeValue(value: unknown): string {
+  if (value === null || value === undefined) return "nil"
+  if (Array.isArray(value)) return "an array"
+  if (typeof value === "object") return "a table"
+  return JSON.stringify(value)
+}
+
+// empty Lua tables may be dumped as either {} or []
+function isTable(value: unknown): value is Table {
+  return typeof value === "object" && value !== null && (!Array.isArray(value) || value.length === 0)
+}
+function asArray(value: unknown): unknown[] | undefined {
+  if (Array.isArray(value)) return value
+  if (isTable(value) && Object.keys(value).length === 0) return []
+  return undefined
+}
+
+function getLiterals(type: Type): Literal[] | undefined {
+  if (typeof type === "string") return undefined
+  switch (type.complex_type) {
+    case "literal":
+      return [type.value]
+    case "type":
+      return getLiterals(type.value)
+    case "union": {
+      const literals = type.options.map(getLiterals)
+      return literals.every((l): l is Literal[] => l !== undefined) ? literals.flat() : undefined
+    }
+  }
+  return undefined
+}
+
+/**
+ * Validates a dumped `data.raw` against the prototype api docs.
+ *
+ * Reports unknown prototype types and properties, values of the wrong type, missing mandatory properties, and `type`
+ * values that select no variant of a union.
+ */
+export class DataRawValidator {
+  private prototypes: Map<string, Prototype>
+  private prototypesByType = new Map<string, Prototype>()
+  private types: Map<string, PrototypeConcept>
+  // property name or alt_name -> property, including inherited properties
+  private properties = new Map<Prototype | PrototypeConcept, Map<string, Property>>()
+
+  constructor(apiJson: FactorioPrototypeApiJson) {
+    this.prototypes = new Map(apiJson.prototypes.map((p) => [p.name, p]))
+    this.types = new Map(apiJson.types.map((t) => [t.name, t]))
+    for (const prototype of apiJson.prototypes) {
+      if (prototype.typename && !prototype.abstract) this.prototypesByType.set(prototype.typename, prototype)
+    }
+  }
+
+  validate(dataRaw: DataRaw): ValidationError[] {
+    const errors: ValidationError[] = []
+    for (const [type, prototypes] of Object.entries(dataRaw)) {
+      const path = pathTo("data.raw", type)
+      const prototype = this.prototypesByType.get(type)
+      if (!prototype) {
+        errors.push({ path, message: "unknown prototype type" })
+        continue
+      }
+      if (!isTable(prototypes)) {
+        errors.push({ path, message: `expected a table, got ${describeValue(prototypes)}` })
+        continue
+      }
+      for (const [name, value] of Object.entries(prototypes)) {
+        const prototypePath = pathTo(path, name)
+        if (isTable(value)) {
+          if (value.type !== type) {
+            errors.push({
+              path: pathTo(prototypePath, "type"),
+              message: `expected ${JSON.stringify(type)}, got ${describeValue(value.type)}`,
+            })
+          }
+          if (value.name !== name) {
+            errors.push({
+              path: pathTo(prototypePath, "name"),
+              message: `expected ${JSON.stringify(name)}, got ${describeValue(value.name)}`,
+            })
+          }
+        }
+        const properties = this.getProperties(prototype, this.prototypes)
+        errors.push(...this.checkTable(value, properties, prototypePath, prototype.custom_properties))
+      }
+    }
+    return errors
+  }
+
+  private getProperties<T extends Prototype | PrototypeConcept>(
+    owner: T,
+    owners: Map<string, T>,
+  ): Map<string, Property> {
+    let properties = this.properties.get(owner)
+    if (properties) return properties
+    // overridden properties replace inherited ones
+    properties = new Map(owner.parent ? this.getProperties(owners.get(owner.parent)!, owners) : [])
+    for (const property of owner.properties ?? []) {
+      properties.set(property.name, property)
+      if (property.alt_name) properties.set(property.alt_name, property)
+    }
+    this.properties.set(owner, properties)
+    return properties
+  }
+
+  private checkTable(
+    value: unknown,
+    properties: Map<string, Property>,
+    path: string,
+    customProperties?: CustomProperty,
+  ): ValidationError[] {
+    if (!isTable(value)) return [{ path, message: `expected a table, got ${describeValue(value)}` }]
+    const errors: ValidationError[] = []
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const property = properties.get(key)
+      const propertyPath = pathTo(path, key)
+      if (property) {
+        errors.push(...this.checkValue(propertyValue, property.type, propertyPath))
+      } else if (customProperties) {
+        errors.push(...this.checkValue(key, customProperties.key_type, propertyPath))
+        errors.push(...this.checkValue(propertyValue, customProperties.value_type, propertyPath))
+      } else {
+        errors.push({ path: propertyPath, message: "unknown property" })
+      }
+    }
+    for (const property of new Set(properties.values())) {
+      if (property.optional || property.name in value || (property.alt_name && property.alt_name in value)) continue
+      errors.push({ path: pathTo(path, property.name), message: "missing mandatory property" })
+    }
+    return errors
+  }
+
+  /**
+   * @param owner The type whose properties a `struct` type refers to.
+   */
+  private checkValue(value: unknown, type: Type, path: string, owner?: PrototypeConcept): ValidationError[] {
+    if (typeof type === "string") return this.checkNamedType(value, type, path)
+    switch (type.complex_type) {
+      case "type":
+        return this.checkValue(value, type.value, path, owner)
+      case "literal":
+        if (value === type.value) return []
+        return [{ path, message: `expected ${JSON.stringify(type.value)}, got ${describeValue(value)}` }]
+      case "struct":
+        return this.checkTable(value, owner ? this.getProperties(owner, this.types) : new Map(), path)
+      case "union":
+        return this.checkUnion(value, type, path, owner)
+      case "array": {
+        const elements = asArray(value)
+        if (!elements) return [{ path, message: `expected an array, got ${describeValue(value)}` }]
+        return elements.flatMap((element, i) => this.checkValue(element, type.value, pathTo(path, i + 1), owner))
+      }
+      case "tuple": {
+        const elements = asArray(value)
+        if (!elements) return [{ path, message: `expected an array, got ${describeValue(value)}` }]
+        if (elements.length !== type.values.length) {
+          return [{ path, message: `expected ${type.values.length} elements, got ${elements.length}` }]
+        }
+        return type.values.flatMap((elementType, i) =>
+          this.checkValue(elements[i], elementType, pathTo(path, i + 1), owner),
+        )
+      }
+      case "dictionary": {
+        if (!isTable(value)) return [{ path, message: `expected a table, got ${describeValue(value)}` }]
+        return Object.entries(value).flatMap(([key, element]) => [
+          ...this.checkKey(key, type.key, pathTo(path, key)),
+          ...this.checkValue(element, type.value, pathTo(path, key), owner),
+        ])
+      }
+    }
+  }
+
+  private checkNamedType(value: unknown, name: string, path: string): ValidationError[] {
+    const expected = (description: string): ValidationError[] => [
+      { path, message: `expected ${description}, got ${describeValue(value)}` },
+    ]
+    switch (name) {
+      case "bool":
+        return typeof value === "boolean" ? [] : expected("a boolean")
+      case "string":
+        return typeof value === "string" ? [] : expected("a string")
+      case "float":
+      case "double":
+        return typeof value === "number" ? [] : expected("a number")
+      case "DataExtendMethod":
+        return []
+    }
+    const range = integerRanges[name]
+    if (range) {
+      const [min, max] = range
+      return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max
+        ? []
+        : expected(`an integer from ${min} to ${max} (${name})`)
+    }
+    const concept = this.types.get(name)
+    // not a type in these docs; nothing to check against
+    if (!concept || concept.type === "builtin") return []
+    return this.checkValue(value, concept.type, path, concept)
+  }
+
+  // keys are always strings in the dump
+  private checkKey(key: string, type: Type, path: string): ValidationError[] {
+    const numericKey = Number(key)
+    const value =
+      key !== "" && !isNaN(numericKey) && typeof type === "string" && type in integerRanges ? numericKey : key
+    return this.checkValue(value, type, path).map((error) => ({ ...error, message: "key: " + error.message }))
+  }
+
+  private checkUnion(value: unknown, type: UnionType, path: string, owner?: PrototypeConcept): ValidationError[] {
+    let options = type.options
+    // select variants by `type`, e.g. for TriggerEffect
+    if (isTable(value) && typeof value.type === "string") {
+      const discriminated = options.map((option) => ({ option, types: this.getTypeDiscriminators(option, owner) }))
+      if (discriminated.some(({ types }) => types)) {
+        const allowed = discriminated.flatMap(({ types }) => types ?? [])
+        options = discriminated
+          .filter(({ types }) => !types || types.includes(value.type as string))
+          .map((d) => d.option)
+        if (options.length === 0) {
+          return [
+            {
+              path: pathTo(path, "type"),
+              message: `unknown type ${JSON.stringify(value.type)}, expected one of ${allowed.map((t) => JSON.stringify(t)).join(", ")}`,
+            },
+          ]
+        }
+      }
+    }
+    // prefer variants the value has the right shape for, then ones with the fewest errors
+    const score = (errors: ValidationError[]) => errors.length + (errors.some((e) => e.path === path) ? 1e6 : 0)
+    let closest: ValidationError[] | undefined
+    for (const option of options) {
+      const errors = this.checkValue(value, option, path, owner)
+      if (errors.length === 0) return []
+      if (!closest || score(errors) < score(closest)) closest = errors
+    }
+    // for tables, the closest variant is likely the intended one
+    if (options.length === 1 || isTable(value) || Array.isArray(value)) return closest!
+    return [{ path, message: `expected ${typeToString(type)}, got ${describeValue(value)}` }]
+  }
+
+  private getTypeDiscriminators(type: Type, owner: PrototypeConcept | undefined): Literal[] | undefined {
+    let concept: PrototypeConcept | undefined
+    if (typeof type === "string") {
+      concept = this.types.get(type)
+    } else if (type.complex_type === "type") {
+      return this.getTypeDiscriminators(type.value, owner)
+    } else if (type.complex_type === "struct") {
+      concept = owner
+    }
+    const typeProperty = concept && this.getProperties(concept, this.types).get("type")
+    return typeProperty && getLiterals(typeProperty.type)
+  }
+}
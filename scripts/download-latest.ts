@@ -10,7 +10,9 @@ const __dirname = path.dirname(__filename)
 const destinationFolder = path.resolve(__dirname, "../generator/input")
 
 const args = process.argv.slice(2)
-const versionToDownload = args[0] ?? "latest"
+// --keep-old: keep previously downloaded versions, e.g. for generating multiple versions with `npm run generate-versions`
+const keepOld = args.includes("--keep-old")
+const versionToDownload = args.filter((arg) => !arg.startsWith("--"))[0] ?? "latest"
 
 async function downloadApi(stage: string) {
   const url = `https://lua-api.factorio.com/${versionToDownload}/${stage}-api.json`
@@ -40,10 +42,12 @@ async function downloadApi(stage: string) {
   const version = contents.application_version
   console.log(`downloaded ${stage} api for version ${version}`)
   // delete all previous versions
-  for (const file of (await fs.readdir(destinationFolder)).filter((file) =>
-    new RegExp(`${stage}-api-\\d+\\.\\d+\\.\\d+\.json$`).test(file),
-  )) {
-    await fs.unlink(path.join(destinationFolder, file))
+  if (!keepOld) {
+    for (const file of (await fs.readdir(destinationFolder)).filter((file) =>
+      new RegExp(`${stage}-api-\\d+\\.\\d+\\.\\d+\.json$`).test(file),
+    )) {
+      await fs.unlink(path.join(destinationFolder, file))
+    }
   }
   const resultContents = JSON.stringify(contents, undefined, 2) + "\n"
   const resultFile = path.resolve(destinationFolder, `${stage}-api-${version}.json`)
@@ -2,7 +2,10 @@ import fs from "fs"
 import path from "path"
 import { fileURLToPath } from "url"
 import child_process from "child_process"
-import { getCurrentFactorioVersion } from "./util.js"
+import type { FactorioRuntimeApiJson } from "../generator/FactorioRuntimeApiJson.js"
+import type { FactorioPrototypeApiJson } from "../generator/FactorioPrototypeApiJson.js"
+import { diffPrototypeApi, diffRuntimeApi, summarizeDiff } from "./api-diff.js"
+import { getAvailableFactorioVersions, getCurrentFactorioVersion, readApiJson } from "./util.js"
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -16,7 +19,28 @@ const [major, minor] = JSON.parse(fs.readFileSync(path.join(__dirname, "../packa
 const nextVersion = `${major}.${Number(minor) + 1}.0`
 
 const sectionHeader = `# v${nextVersion}\n`
-const noteContent = `- Updated to factorio version ${factorioVersion}\n`
+let noteContent = `- Updated to factorio version ${factorioVersion}\n`
+
+// If the previous api version was kept (download-latest-api-jsons --keep-old), summarize what changed
+const versions = getAvailableFactorioVersions()
+const previousVersion = versions[versions.indexOf(factorioVersion) - 1]
+if (previousVersion) {
+  const summary = summarizeDiff({
+    oldVersion: previousVersion,
+    newVersion: factorioVersion,
+    stages: [
+      diffRuntimeApi(
+        readApiJson<FactorioRuntimeApiJson>("runtime", previousVersion),
+        readApiJson<FactorioRuntimeApiJson>("runtime", factorioVersion),
+      ),
+      diffPrototypeApi(
+        readApiJson<FactorioPrototypeApiJson>("prototype", previousVersion),
+        readApiJson<FactorioPrototypeApiJson>("prototype", factorioVersion),
+      ),
+    ],
+  })
+  noteContent += summary.map((line) => `  - ${line}\n`).join("")
+}
 
 const changelogDir = path.resolve(__dirname, "../Changelog.md")
 const changelogContent = fs.readFileSync(changelogDir, "utf8")
@@ -24,7 +48,7 @@ if (changelogContent.includes(sectionHeader)) {
   console.log(`Changelog for ${nextVersion} already exists`)
   process.exit(0)
 }
-if (changelogContent.includes(noteContent)) {
+if (changelogContent.includes(`- Updated to factorio version ${factorioVersion}\n`)) {
   console.log(`Changelog for factorio ${factorioVersion} already exists`)
   process.exit(0)
 }
@@ -0,0 +1,70 @@
+// Usage: npm run prototype-names -- <data-raw-dump.json> [--out=<file>] [--version=<factorio-version>]
+// Generates a .d.ts declaring the PrototypeNames registry (see common/types.d.ts) from a data.raw dump, as written by
+// running factorio with `--dump-data`. The dump includes prototypes from all mods enabled when it was made.
+// Prototype types are grouped using the prototype api json of the given version, which defaults to the current version.
+// Prints to stdout if no output file is given.
+import fs from "fs"
+import path from "path"
+import type { FactorioPrototypeApiJson } from "../generator/FactorioPrototypeApiJson.js"
+import { getPrototypeIdTypes } from "../generator/prototypeNames.js"
+import { getCurrentFactorioVersion, readApiJson, resolveArgPath } from "./util.js"
+
+type DataRawDump = Record<string, Record<string, unknown>>
+
+const args = process.argv.slice(2)
+const [dumpArg] = args.filter((arg) => !arg.startsWith("--"))
+if (!dumpArg) {
+  throw new Error("Usage: prototype-names <data-raw-dump.json> [--out=<file>] [--version=<factorio-version>]")
+}
+function getOption(name: string) {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.substring(name.length + 3)
+}
+const dumpFile = resolveArgPath(dumpArg)
+const outArg = getOption("out")
+const outFile = outArg && resolveArgPath(outArg)
+const version = getOption("version") ?? getCurrentFactorioVersion()
+
+const dump = JSON.parse(fs.readFileSync(dumpFile, "utf8")) as DataRawDump
+const apiJson = readApiJson<FactorioPrototypeApiJson>("prototype", version)
+const parents = new Map(apiJson.prototypes.map((prototype) => [prototype.name, prototype.parent]))
+
+/** Gets the prototype types (data.raw keys) of a prototype and all its subclasses. */
+function getPrototypeTypes(prototype: string): string[] {
+  return apiJson.prototypes
+    .filter((subclass) => {
+      for (let current: string | undefined = subclass.name; current; current = parents.get(current)) {
+        if (current === prototype) return true
+      }
+      return false
+    })
+    .flatMap((subclass) => (subclass.typename ? [subclass.typename] : []))
+}
+
+const members: string[] = []
+for (const [prototype, idType] of [...getPrototypeIdTypes(apiJson)].sort(([a], [b]) => a.localeCompare(b))) {
+  const names = [...new Set(getPrototypeTypes(prototype).flatMap((type) => Object.keys(dump[type] ?? {})))].sort()
+  // leave prototypes without names unchecked, instead of allowing no names
+  if (names.length === 0) continue
+  members.push(
+    `    /** Names for {@link import("factorio:prototype").${idType} ${idType}}. */`,
+    `    ${prototype}:`,
+    ...names.map((name) => `      | ${JSON.stringify(name)}`),
+  )
+}
+
+const content = `// This is an auto-generated file. Do not edit directly!
+// Generated from ${path.basename(dumpFile)} by the typed-factorio prototype-names script.
+
+declare module "factorio:common" {
+  export interface PrototypeNames {
+${members.join("\n")}
+  }
+}
+`
+
+if (outFile) {
+  fs.writeFileSync(outFile, content)
+  console.log(`wrote ${outFile}`)
+} else {
+  console.log(content)
+}
@@ -1,6 +1,7 @@
 import fs from "fs"
 import path from "path"
 import { fileURLToPath } from "url"
+import { compareVersions } from "../generator/util.js"
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -8,13 +9,6 @@ const __dirname = path.dirname(__filename)
 function isNotNull<T>(value: T | null | undefined): value is T {
   return value !== null && value !== undefined
 }
-function versionGreater(v1: string, v2: string) {
-  const [a1, b1, c1] = v1.split(".")
-  const [a2, b2, c2] = v2.split(".")
-  if (a1 !== a2) return a1 > a2
-  if (b1 !== b2) return b1 > b2
-  return c1 > c2
-}
 export function getCurrentFactorioVersion() {
   return fs
     .readdirSync(path.resolve(__dirname, "../generator/input"))
@@ -22,7 +16,34 @@ export function getCurrentFactorioVersion() {
     .filter(isNotNull)
     .map(([, major, minor, patch]) => `${major}.${minor}.${patch}`)
     .reduce((acc, version) => {
-      if (versionGreater(version, acc)) return version
+      if (compareVersions(version, acc) > 0) return version
       return acc
     }, "0.0.0")
 }
+
+export const apiJsonDir = path.resolve(__dirname, "../generator/input")
+
+export function readApiJson<T>(stage: "runtime" | "prototype", version: string): T {
+  const file = path.join(apiJsonDir, `${stage}-api-${version}.json`)
+  if (!fs.existsSync(file)) {
+    throw new Error(`Could not find ${file}`)
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8")) as T
+}
+
+/** Gets all versions with a runtime api json in generator/input, in ascending order. */
+export function getAvailableFactorioVersions(): string[] {
+  return fs
+    .readdirSync(apiJsonDir)
+    .map((file) => file.match(/runtime-api-(\d+\.\d+\.\d+)\.json$/)?.[1])
+    .filter(isNotNull)
+    .sort(compareVersions)
+}
+
+/**
+ * Resolves a path given on the command line. npm runs scripts in the repository root, so relative paths are resolved
+ * against the directory npm was run from.
+ */
+export function resolveArgPath(file: string): string {
+  return path.resolve(process.env.INIT_CWD ?? process.cwd(), file)
+}
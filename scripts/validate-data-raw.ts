@@ -0,0 +1,40 @@
+// Usage: npm run validate-data-raw -- <data-raw-dump.json> [--version=<factorio-version>] [--json=<file>]
+// Checks a data.raw dump, as written by running factorio with `--dump-data`, against the prototype api json of the given
+// version, which defaults to the current version.
+// Prints each error with the path of the invalid value, and exits with 1 if there are any.
+// If a json file is given, also writes the errors there, as an array of {path, message}.
+// data-raw-sample.json in this directory is a small dump with one of each kind of error, including union variants
+// selected by `type` and by closest match.
+import fs from "fs"
+import type { FactorioPrototypeApiJson } from "../generator/FactorioPrototypeApiJson.js"
+import { DataRaw, DataRawValidator } from "./data-raw-validator.js"
+import { getCurrentFactorioVersion, readApiJson, resolveArgPath } from "./util.js"
+
+const args = process.argv.slice(2)
+const [dumpArg] = args.filter((arg) => !arg.startsWith("--"))
+if (!dumpArg) {
+  throw new Error("Usage: validate-data-raw <data-raw-dump.json> [--version=<factorio-version>] [--json=<file>]")
+}
+function getOption(name: string) {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.substring(name.length + 3)
+}
+const dumpFile = resolveArgPath(dumpArg)
+const jsonArg = getOption("json")
+const jsonFile = jsonArg && resolveArgPath(jsonArg)
+const version = getOption("version") ?? getCurrentFactorioVersion()
+
+const dump = JSON.parse(fs.readFileSync(dumpFile, "utf8")) as DataRaw
+const apiJson = readApiJson<FactorioPrototypeApiJson>("prototype", version)
+const errors = new DataRawValidator(apiJson).validate(dump)
+
+for (const { path, message } of errors) {
+  console.log(`${path}: ${message}`)
+}
+if (jsonFile) {
+  fs.writeFileSync(jsonFile, JSON.stringify(errors, null, 2))
+}
+if (errors.length > 0) {
+  console.log(`${errors.length} errors found`)
+  process.exit(1)
+}
+console.log("no errors found")
@@ -3,9 +3,12 @@
 /** @noResolution */
 declare module "factorio:settings" {
   import { Color, LocalisedString } from "factorio:prototype"
+  import { Color as RuntimeColor } from "factorio:runtime"
   export type SettingType = "bool-setting" | "int-setting" | "double-setting" | "string-setting" | "color-setting"
+  /** The kind of a setting; this determines which `settings` table it is in at runtime. */
+  export type SettingScope = "startup" | "runtime-global" | "runtime-per-user"
 
-  export interface BaseSettingDefinition {
+  export interface BaseSettingDefinition<S extends SettingScope = SettingScope> {
     readonly type: SettingType
     /**
      * The name of the settings prototype should be unique to avoid mod conflicts since the mod settings are global across
@@ -40,10 +43,10 @@ declare module "factorio:settings" {
      *
      * This "setting_type" also determines in which tab the setting is showed in the mod settings menu.
      */
-    setting_type: "startup" | "runtime-global" | "runtime-per-user"
+    setting_type: S
   }
   /** A true/false checkbox */
-  export interface BoolSettingDefinition extends BaseSettingDefinition {
+  export interface BoolSettingDefinition<S extends SettingScope = SettingScope> extends BaseSettingDefinition<S> {
     readonly type: "bool-setting"
     /** Defines the default value of the setting, in this case whether the checkbox is checked or not. */
     default_value: boolean
@@ -54,7 +57,7 @@ declare module "factorio:settings" {
     forced_value?: boolean
   }
   /** A signed 64 bit integer textfield (or selection dropdown) */
-  export interface IntSettingDefinition extends BaseSettingDefinition {
+  export interface IntSettingDefinition<S extends SettingScope = SettingScope> extends BaseSettingDefinition<S> {
     readonly type: "int-setting"
     /** Defines the default value of the setting. */
     default_value: number
@@ -66,10 +69,10 @@ declare module "factorio:settings" {
      * Makes it possible to force the player to choose between the defined numbers, creates a dropdown instead of a
      * textfield. If only one allowed value is given, the settings is forced to be of that value.
      */
-    allowed_values?: number[]
+    allowed_values?: readonly number[]
   }
   /** A double precision floating point textfield (or selection dropdown) */
-  export interface DoubleSettingDefinition extends BaseSettingDefinition {
+  export interface DoubleSettingDefinition<S extends SettingScope = SettingScope> extends BaseSettingDefinition<S> {
     readonly type: "double-setting"
     /** Defines the default value of the setting. */
     default_value: number
@@ -81,10 +84,10 @@ declare module "factorio:settings" {
      * Makes it possible to force the player to choose between the defined numbers, creates a dropdown instead of a
      * textfield. If only one allowed value is given, the settings is forced to be of that value.
      */
-    allowed_values?: number[]
+    allowed_values?: readonly number[]
   }
   /** A string textfield (or selection dropdown) */
-  export interface StringSettingDefinition extends BaseSettingDefinition {
+  export interface StringSettingDefinition<S extends SettingScope = SettingScope> extends BaseSettingDefinition<S> {
     readonly type: "string-setting"
     /** Defines the default value of the setting. */
     default_value: string
@@ -97,10 +100,10 @@ declare module "factorio:settings" {
      * textfield. The strings in the dropdown can be localized (translated) and can have a tooltip, see below. If only one
      * allowed value is given, the settings is forced to be of that value.
      */
-    allowed_values?: string[]
+    allowed_values?: readonly string[]
   }
   /** a color picker (sliders), with whole number textfields. Includes alpha. */
-  export interface ColorSettingDefinition extends BaseSettingDefinition {
+  export interface ColorSettingDefinition<S extends SettingScope = SettingScope> extends BaseSettingDefinition<S> {
     readonly type: "color-setting"
     /** Defines the default value of the setting. */
     default_value: Color
@@ -115,4 +118,43 @@ declare module "factorio:settings" {
   }
 
   export type SettingsPrototypeMap = PrototypeMap
+
+  /**
+   * The runtime value type of a setting definition.
+   *
+   * If `allowed_values` is a readonly tuple (e.g. using `as const`), the value type is narrowed to those values.
+   */
+  export type SettingValueType<D extends { readonly type: SettingType }> = D["type"] extends "bool-setting"
+    ? boolean
+    : D["type"] extends "int-setting" | "double-setting"
+      ? D extends { readonly allowed_values: readonly (infer V extends number)[] }
+        ? V
+        : number
+      : D["type"] extends "string-setting"
+        ? D extends { readonly allowed_values: readonly (infer V extends string)[] }
+          ? V
+          : string
+        : D["type"] extends "color-setting"
+          ? RuntimeColor
+          : never
+
+  /**
+   * Gets a setting name -> value type map from a list of setting definitions, for use with
+   * {@link import("factorio:common").ModSettingsMap ModSettingsMap}.
+   *
+   * The setting names must be literal types, e.g. by using `as const`.
+   */
+  export type SettingsMapOf<S extends readonly { readonly type: SettingType; readonly name: string }[]> = {
+    [D in S[number] as D["name"]]: SettingValueType<D>
+  }
+
+  /**
+   * Like {@link SettingsMapOf}, but split by `setting_type`, for use with
+   * {@link import("factorio:common").ScopedModSettingsMap ScopedModSettingsMap}.
+   */
+  export type SettingsMap<
+    S extends readonly { readonly type: SettingType; readonly name: string; readonly setting_type: SettingScope }[],
+  > = {
+    [Scope in SettingScope]: SettingsMapOf<readonly Extract<S[number], { readonly setting_type: Scope }>[]>
+  }
 }